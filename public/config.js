@@ -0,0 +1,10 @@
+// Runtime configuration, loaded before the app bundle. Replace this file per
+// deployment to point one build at a different backend. Any value left out
+// falls back to the VITE_* build-time variables.
+window.__APP_CONFIG__ = {
+  // apiBaseUrl: 'https://api.example.com/api/v1',
+  // wsUrl: 'wss://api.example.com/ws',
+  // requestTimeout: 30000,
+  // chartDataTimeout: 45000,
+  // features: { mockBackend: false, realtime: true },
+};
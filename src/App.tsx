@@ -1,117 +1,95 @@
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { useState } from 'react';
+import { BrowserRouter as Router, Routes, Route, Navigate, Location, useLocation } from 'react-router-dom';
+import { ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
 import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
 import StockChart from './pages/StockChart';
 import Signals from './pages/Signals';
+import WorkspacePage from './pages/Workspace';
 import Login from './pages/Login';
 import Register from './pages/Register';
-import { User } from './types';
-import { apiService } from './services/api';
 import './styles/index.css';
 
-function App() {
-  const [user, setUser] = useState<User | null>(() => {
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      // In a real app, you'd validate the token here
-      return {
-        id: '1',
-        email: 'admin@admin.com',
-        name: 'Admin User',
-        preferences: {
-          theme: 'light',
-          defaultTimeframe: '1d',
-          favoriteStocks: ['AAPL', 'GOOGL', 'MSFT'],
-          notifications: {
-            priceAlerts: true,
-            signalAlerts: true,
-            email: false,
-          },
-        },
-      };
-    }
-    return null;
-  });
+function AppRoutes() {
+  const { user, status, logout } = useAuth();
+  const location = useLocation();
+
+  // Wait for the stored session to resolve before deciding where to route
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+      </div>
+    );
+  }
 
-  const handleLogin = (userData: User) => {
-    setUser(userData);
-  };
+  // Signing in returns to the page a signed-out visit was sent away from,
+  // query string included, so shared links still open after the login
+  const returnTo = (location.state as { from?: Location } | null)?.from ?? '/dashboard';
 
-  const handleRegister = (userData: User) => {
-    setUser(userData);
-  };
+  const protectedPage = (page: (currentUser: NonNullable<typeof user>) => ReactNode) =>
+    user ? (
+      <Layout user={user} onLogout={logout}>
+        {page(user)}
+      </Layout>
+    ) : (
+      <Navigate to="/login" replace state={{ from: location }} />
+    );
 
-  const handleLogout = () => {
-    setUser(null);
-    localStorage.removeItem('authToken');
-  };
+  return (
+    <Routes>
+      <Route
+        path="/login"
+        element={
+          user ? <Navigate to={returnTo} replace /> : <Login />
+        }
+      />
+      <Route
+        path="/register"
+        element={
+          user ? <Navigate to={returnTo} replace /> : <Register />
+        }
+      />
+      <Route
+        path="/"
+        element={
+          user ? <Navigate to="/dashboard" replace /> : <Navigate to="/login" replace />
+        }
+      />
+      <Route
+        path="/dashboard"
+        element={protectedPage((currentUser) => <Dashboard user={currentUser} />)}
+      />
+      <Route
+        path="/chart/:symbol"
+        element={protectedPage(() => <StockChart />)}
+      />
+      <Route
+        path="/signals"
+        element={protectedPage(() => <Signals />)}
+      />
+      <Route
+        path="/workspace"
+        element={protectedPage(() => <WorkspacePage />)}
+      />
+    </Routes>
+  );
+}
 
+function App() {
   return (
     <ThemeProvider>
-      <Router>
-        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
-          <Routes>
-            <Route 
-              path="/login" 
-              element={
-                user ? <Navigate to="/dashboard" replace /> : <Login onLogin={handleLogin} />
-              } 
-            />
-            <Route 
-              path="/register" 
-              element={
-                user ? <Navigate to="/dashboard" replace /> : <Register onRegister={handleRegister} />
-              } 
-            />
-            <Route 
-              path="/" 
-              element={
-                user ? <Navigate to="/dashboard" replace /> : <Navigate to="/login" replace />
-              } 
-            />
-            <Route 
-              path="/dashboard" 
-              element={
-                user ? (
-                  <Layout user={user} onLogout={handleLogout}>
-                    <Dashboard user={user} />
-                  </Layout>
-                ) : (
-                  <Navigate to="/login" replace />
-                )
-              } 
-            />
-            <Route 
-              path="/chart/:symbol" 
-              element={
-                user ? (
-                  <Layout user={user} onLogout={handleLogout}>
-                    <StockChart />
-                  </Layout>
-                ) : (
-                  <Navigate to="/login" replace />
-                )
-              } 
-            />
-            <Route 
-              path="/signals" 
-              element={
-                user ? (
-                  <Layout user={user} onLogout={handleLogout}>
-                    <Signals />
-                  </Layout>
-                ) : (
-                  <Navigate to="/login" replace />
-                )
-              } 
-            />
-          </Routes>
-        </div>
-      </Router>
+      <AuthProvider>
+        <Router>
+          <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+            <AppRoutes />
+          </div>
+        </Router>
+      </AuthProvider>
     </ThemeProvider>
   );
 }
 
-export default App; 
\ No newline at end of file
+export default App;
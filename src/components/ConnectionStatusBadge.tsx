@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef } from 'react';
+import { Wifi, WifiOff, Loader2 } from 'lucide-react';
+import { ConnectionStatus } from '../types';
+import { useConnectionState } from '../hooks/useConnectionState';
+import { cn } from '../utils/cn';
+import SubscriptionDebugPanel from './SubscriptionDebugPanel';
+
+const statusStyles: Record<ConnectionStatus, { label: string; className: string }> = {
+  open: {
+    label: 'Live',
+    className: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-300 dark:border-green-800',
+  },
+  connecting: {
+    label: 'Connecting',
+    className: 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/20 dark:text-blue-300 dark:border-blue-800',
+  },
+  reconnecting: {
+    label: 'Reconnecting',
+    className: 'bg-yellow-50 text-yellow-700 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-300 dark:border-yellow-800',
+  },
+  offline: {
+    label: 'Offline',
+    className: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-800',
+  },
+};
+
+export default function ConnectionStatusBadge() {
+  const { status, attempt, lastError, latency } = useConnectionState();
+  const style = statusStyles[status];
+  const [showDetails, setShowDetails] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!showDetails) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setShowDetails(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showDetails]);
+
+  const title = [
+    `WebSocket: ${style.label}`,
+    latency !== null ? `Latency: ${latency} ms` : null,
+    attempt > 0 ? `Attempt: ${attempt}` : null,
+    lastError ? `Last error: ${lastError}` : null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setShowDetails(prev => !prev)}
+        className={cn('flex items-center gap-1.5 px-2 py-1 rounded-full border text-xs font-medium', style.className)}
+        title={title}
+        aria-expanded={showDetails}
+      >
+        {status === 'open' && <Wifi className="h-3.5 w-3.5" />}
+        {status === 'offline' && <WifiOff className="h-3.5 w-3.5" />}
+        {(status === 'connecting' || status === 'reconnecting') && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+        <span>{style.label}</span>
+        {status === 'open' && latency !== null && (
+          <span className="hidden sm:inline opacity-75">{latency} ms</span>
+        )}
+        {status === 'reconnecting' && attempt > 1 && (
+          <span className="hidden sm:inline opacity-75">#{attempt}</span>
+        )}
+      </button>
+      {showDetails && (
+        <div className="absolute right-0 mt-2 z-50">
+          <SubscriptionDebugPanel />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { TechnicalIndicators } from '../types';
+import { useChartData } from '../hooks/useChartData';
+import { useIndicators } from '../hooks/useIndicators';
+import { formatVolume } from '../utils';
+import { cn } from '../utils/cn';
+
+interface IndicatorSummaryProps {
+  symbol: string;
+  timeframe?: string;
+  detailed?: boolean;
+  dark?: boolean;
+}
+
+type Tone = 'bullish' | 'bearish' | 'neutral';
+
+interface Reading {
+  label: string;
+  value: string;
+  note?: string;
+  tone: Tone;
+}
+
+const formatLevel = (value: number | null | undefined) =>
+  value === null || value === undefined
+    ? '—'
+    : value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const priceTone = (price: number | null, level: number | null): Tone =>
+  price === null || level === null ? 'neutral' : price >= level ? 'bullish' : 'bearish';
+
+function describe(indicators: TechnicalIndicators, price: number | null, detailed: boolean): Reading[] {
+  const { rsi, macd, sma, bollingerBands, atr, superTrend, stochastic, volume } = indicators;
+
+  const readings: Reading[] = [
+    {
+      label: 'RSI',
+      value: rsi === null ? '—' : rsi.toFixed(1),
+      note: rsi === null ? undefined : rsi >= 70 ? 'Overbought' : rsi <= 30 ? 'Oversold' : 'Neutral',
+      tone: rsi === null ? 'neutral' : rsi >= 70 ? 'bearish' : rsi <= 30 ? 'bullish' : 'neutral',
+    },
+    {
+      label: 'MACD',
+      value: macd ? macd.histogram.toFixed(2) : '—',
+      note: macd ? (macd.histogram >= 0 ? 'Bullish' : 'Bearish') : undefined,
+      tone: macd ? (macd.histogram >= 0 ? 'bullish' : 'bearish') : 'neutral',
+    },
+    {
+      label: 'SMA 20',
+      value: formatLevel(sma.sma20),
+      note: sma.sma20 === null || price === null ? undefined : price >= sma.sma20 ? 'Price above' : 'Price below',
+      tone: priceTone(price, sma.sma20),
+    },
+    { label: 'Volume', value: formatVolume(volume), tone: 'neutral' },
+  ];
+
+  if (!detailed) return readings;
+
+  return [
+    ...readings,
+    { label: 'SMA 50', value: formatLevel(sma.sma50), tone: priceTone(price, sma.sma50) },
+    { label: 'SMA 200', value: formatLevel(sma.sma200), tone: priceTone(price, sma.sma200) },
+    {
+      label: 'Bollinger',
+      value: bollingerBands ? `${formatLevel(bollingerBands.lower)} – ${formatLevel(bollingerBands.upper)}` : '—',
+      tone: 'neutral',
+    },
+    { label: 'ATR 14', value: formatLevel(atr), tone: 'neutral' },
+    {
+      label: 'SuperTrend',
+      value: formatLevel(superTrend?.value),
+      note: superTrend ? (superTrend.direction === 'up' ? 'Uptrend' : 'Downtrend') : undefined,
+      tone: superTrend ? (superTrend.direction === 'up' ? 'bullish' : 'bearish') : 'neutral',
+    },
+    {
+      label: 'Stochastic',
+      value: stochastic ? `${stochastic.k.toFixed(1)} / ${stochastic.d === null ? '—' : stochastic.d.toFixed(1)}` : '—',
+      note: '%K / %D',
+      tone: stochastic ? (stochastic.k >= 80 ? 'bearish' : stochastic.k <= 20 ? 'bullish' : 'neutral') : 'neutral',
+    },
+  ];
+}
+
+// Indicator readings for a symbol, computed on the client from its candles
+export default function IndicatorSummary({ symbol, timeframe = '5m', detailed = false, dark = false }: IndicatorSummaryProps) {
+  const { data, liveCandle, loading, getLatestPrice } = useChartData(symbol, timeframe, { enabled: !!symbol });
+  const indicators = useIndicators(data, liveCandle);
+  const price = data.length || liveCandle ? getLatestPrice() : null;
+
+  const toneClass: Record<Tone, string> = dark
+    ? { bullish: 'text-emerald-400', bearish: 'text-red-400', neutral: 'text-slate-300' }
+    : { bullish: 'text-emerald-600', bearish: 'text-red-600', neutral: 'text-slate-600' };
+
+  if (!indicators) {
+    return (
+      <p className={cn('text-sm', dark ? 'text-slate-400' : 'text-slate-500')}>
+        {loading ? 'Calculating indicators…' : 'Not enough data for indicators'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {describe(indicators, price, detailed).map((reading) => (
+        <div
+          key={reading.label}
+          className={cn('text-center p-4 rounded-lg', dark ? 'bg-slate-800 border border-slate-700' : 'bg-slate-50')}
+        >
+          <div className={cn('text-sm font-semibold', dark ? 'text-slate-400' : 'text-slate-500')}>{reading.label}</div>
+          <div className={cn('text-lg font-bold font-mono', dark ? 'text-white' : 'text-slate-900')}>{reading.value}</div>
+          {reading.note && <div className={cn('text-xs', toneClass[reading.tone])}>{reading.note}</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -8,11 +8,13 @@ import {
   Settings, 
   LogOut, 
   Menu,
+  LayoutGrid,
   X,
   User as UserIcon
 } from 'lucide-react';
 import { useState } from 'react';
 import ThemeToggle from './ThemeToggle';
+import ConnectionStatusBadge from './ConnectionStatusBadge';
 import { cn } from '../utils/cn';
 
 interface LayoutProps {
@@ -24,6 +26,7 @@ interface LayoutProps {
 const navigation = [
   { name: 'Dashboard', href: '/', icon: BarChart3 },
   { name: 'Signals', href: '/signals', icon: TrendingUp },
+  { name: 'Workspace', href: '/workspace', icon: LayoutGrid },
 ];
 
 export default function Layout({ children, user, onLogout }: LayoutProps) {
@@ -216,6 +219,7 @@ export default function Layout({ children, user, onLogout }: LayoutProps) {
           <div className="flex flex-1 gap-x-4 self-stretch lg:gap-x-6">
             <div className="flex flex-1"></div>
             <div className="flex items-center gap-x-4 lg:gap-x-6">
+              <ConnectionStatusBadge />
               <ThemeToggle />
               <button className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-300">
                 <Bell className="h-5 w-5" />
@@ -21,6 +21,7 @@ import {
 } from 'lucide-react';
 import { BreakoutSignal, SessionSignals } from '../types';
 import apiService from '../services/api';
+import IndicatorSummary from './IndicatorSummary';
 
 interface SignalsPanelProps {
   symbol?: string;
@@ -187,6 +188,11 @@ const ProfessionalSignalsPanel: React.FC<SignalsPanelProps> = ({ symbol, classNa
               </div>
             </div>
           )}
+          {symbol && (
+            <div className="mb-4">
+              <IndicatorSummary symbol={symbol} dark />
+            </div>
+          )}
         </div>
 
         {/* Scrollable Content */}
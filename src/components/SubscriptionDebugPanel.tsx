@@ -0,0 +1,52 @@
+import { useSubscriptions } from '../hooks/useSubscriptions';
+import { wsService } from '../services/websocket';
+import { cn } from '../utils/cn';
+
+// Lists symbol subscriptions with their consumer counts per channel
+export default function SubscriptionDebugPanel() {
+  const subscriptions = useSubscriptions();
+  const ownsConnection = wsService.ownsConnection();
+
+  return (
+    <div className="w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-xs">
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <p className="font-semibold text-gray-900 dark:text-white">Symbol subscriptions</p>
+        <p className="text-gray-500 dark:text-gray-400">
+          {ownsConnection ? 'This tab owns the connection' : 'Connection shared from another tab'}
+        </p>
+      </div>
+
+      {subscriptions.length === 0 ? (
+        <p className="px-3 py-4 text-center text-gray-500 dark:text-gray-400">No active subscriptions</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="px-3 py-1.5 font-medium">Symbol</th>
+              <th className="px-2 py-1.5 font-medium text-right">Price</th>
+              <th className="px-2 py-1.5 font-medium text-right">Chart</th>
+              <th className="px-2 py-1.5 font-medium text-right">Tabs</th>
+              <th className="px-3 py-1.5 font-medium text-right">Server</th>
+            </tr>
+          </thead>
+          <tbody>
+            {subscriptions.map(({ symbol, channels, otherTabs, serverSubscribed }) => (
+              <tr key={symbol} className="border-t border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                <td className="px-3 py-1.5 font-mono">{symbol}</td>
+                <td className="px-2 py-1.5 text-right">{channels.price}</td>
+                <td className="px-2 py-1.5 text-right">{channels.chart}</td>
+                <td className="px-2 py-1.5 text-right">{otherTabs ?? '–'}</td>
+                <td className="px-3 py-1.5 text-right">
+                  <span className={cn(
+                    'inline-block h-2 w-2 rounded-full',
+                    serverSubscribed ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'
+                  )} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+import { IChartApi, ISeriesApi } from 'lightweight-charts';
+import { ChartCandle } from '../../types';
+import { Timeframe } from '../../utils/candles';
+
+// What a layer needs to draw on the price pane of a TradingChart
+export interface ChartContextType {
+  chart: IChartApi;
+  series: ISeriesApi<'Candlestick' | 'Line'>;
+  symbol: string;
+  timeframe: Timeframe;
+  date: string | null; // The past IST trading day shown, or null for today live
+  candles: ChartCandle[];
+  liveCandle: ChartCandle | null;
+  replayTime: number | null; // During a bar replay, the moment shown; later data is hidden
+  // True once the chart is torn down; unmounting layers must not touch it then
+  isRemoved: () => boolean;
+}
+
+export const ChartContext = createContext<ChartContextType | undefined>(undefined);
+
+export function useChart(): ChartContextType {
+  const context = useContext(ChartContext);
+  if (context === undefined) {
+    throw new Error('useChart must be used within a TradingChart');
+  }
+  return context;
+}
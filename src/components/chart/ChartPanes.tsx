@@ -0,0 +1,231 @@
+import { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { createChart, IChartApi, ISeriesApi, ColorType, Time } from 'lightweight-charts';
+import { ChartCandle } from '../../types';
+import { ChartSync, SyncedChart } from '../../utils/chartSync';
+import { PANES, PRICE_SCALE_WIDTH, PaneDefinition, PaneId, PaneIndicator, PaneValues } from '../../utils/panes';
+import { formatVolume } from '../../utils';
+
+interface ChartPanesProps {
+  main: Omit<SyncedChart, 'valueAt'> | null;
+  candles: ChartCandle[];
+  liveCandle: ChartCandle | null;
+  panes: PaneId[];
+  onRemove: (pane: PaneId) => void;
+}
+
+interface IndicatorPaneProps {
+  definition: PaneDefinition;
+  sync: ChartSync;
+  candles: ChartCandle[];
+  liveCandle: ChartCandle | null;
+  onRemove: () => void;
+}
+
+// A value, or whitespace during indicator warm-up
+interface PanePoint {
+  time: Time;
+  value?: number;
+  color?: string;
+}
+
+const DEFAULT_PANE_HEIGHT = 120;
+const MIN_PANE_HEIGHT = 60;
+const MAX_PANE_HEIGHT = 400;
+
+const formatPaneValue = (definition: PaneDefinition, value: number) =>
+  definition.volumeFormat ? formatVolume(value) : value.toFixed(2);
+
+function IndicatorPane({ definition, sync, candles, liveCandle, onRemove }: IndicatorPaneProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const seriesRef = useRef<Record<string, ISeriesApi<'Line' | 'Histogram'>>>({});
+  const indicatorRef = useRef<PaneIndicator>(definition.create());
+  const valuesRef = useRef(new Map<number, number>());
+  const [height, setHeight] = useState(DEFAULT_PANE_HEIGHT);
+  const [latest, setLatest] = useState<PaneValues | null>(null);
+
+  // Create the pane chart and join the price chart's sync group
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const chart = createChart(containerRef.current, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: '#374151',
+      },
+      grid: {
+        vertLines: { color: '#e5e7eb' },
+        horzLines: { color: '#e5e7eb' },
+      },
+      crosshair: { mode: 1 },
+      rightPriceScale: {
+        borderColor: '#e5e7eb',
+        minimumWidth: PRICE_SCALE_WIDTH,
+        scaleMargins: { top: 0.1, bottom: 0.1 },
+      },
+      timeScale: { visible: false },
+      watermark: { visible: false },
+    });
+
+    const series: Record<string, ISeriesApi<'Line' | 'Histogram'>> = {};
+    definition.series.forEach(({ key, type, color }) => {
+      const options = {
+        color,
+        lastValueVisible: false,
+        priceLineVisible: false,
+        ...(definition.volumeFormat ? { priceFormat: { type: 'volume' as const } } : {}),
+      };
+      series[key] = type === 'histogram'
+        ? chart.addHistogramSeries(options)
+        : chart.addLineSeries({ ...options, lineWidth: 1 });
+    });
+
+    const primary = series[definition.series[0].key];
+    definition.levels?.forEach(price => {
+      primary.createPriceLine({ price, color: '#9ca3af', lineWidth: 1, lineStyle: 2, axisLabelVisible: false, title: '' });
+    });
+
+    chartRef.current = chart;
+    seriesRef.current = series;
+
+    const leave = sync.add({ chart, series: primary, valueAt: time => valuesRef.current.get(time) ?? null });
+
+    return () => {
+      leave();
+      chart.remove();
+      chartRef.current = null;
+    };
+  }, [definition, sync]);
+
+  // Recompute the whole pane when the candle series is replaced
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+
+    const indicator = indicatorRef.current;
+    indicator.reset();
+    valuesRef.current.clear();
+    const points: Record<string, PanePoint[]> = {};
+    definition.series.forEach(({ key }) => { points[key] = []; });
+
+    let values: PaneValues | null = null;
+    for (const candle of candles) {
+      values = indicator.update(candle);
+      appendValues(definition, candle.time, values, points, valuesRef.current);
+    }
+    sync.update(chart, () => definition.series.forEach(({ key }) => seriesRef.current[key].setData(points[key])));
+    setLatest(values);
+  }, [candles, definition, sync]);
+
+  // Revise the forming bar
+  useEffect(() => {
+    if (!liveCandle || !chartRef.current) return;
+
+    const values = indicatorRef.current.update(liveCandle);
+    const points: Record<string, PanePoint[]> = {};
+    definition.series.forEach(({ key }) => { points[key] = []; });
+    appendValues(definition, liveCandle.time, values, points, valuesRef.current);
+    definition.series.forEach(({ key }) => seriesRef.current[key].update(points[key][0]));
+    setLatest(values);
+  }, [liveCandle, definition]);
+
+  const startResize = (event: React.MouseEvent) => {
+    event.preventDefault();
+    const startY = event.clientY;
+    const startHeight = height;
+
+    const handleMove = (move: MouseEvent) => {
+      const next = startHeight - (move.clientY - startY);
+      setHeight(Math.min(MAX_PANE_HEIGHT, Math.max(MIN_PANE_HEIGHT, next)));
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <div className="relative w-full">
+      <div
+        onMouseDown={startResize}
+        className="h-1.5 cursor-row-resize bg-gray-100 dark:bg-gray-700 hover:bg-blue-200 dark:hover:bg-blue-800"
+        title="Drag to resize"
+      />
+      <div className="absolute left-2 top-2.5 z-10 flex items-center space-x-2 text-xs">
+        <span className="font-medium text-gray-700 dark:text-gray-300">{definition.label}</span>
+        {definition.series.map(({ key, color }) => {
+          const value = latest?.[key];
+          return value ? (
+            <span key={key} className="font-mono" style={{ color: value.color ?? color }}>
+              {formatPaneValue(definition, value.value)}
+            </span>
+          ) : null;
+        })}
+        <button
+          onClick={onRemove}
+          className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          title={`Remove ${definition.label}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      <div ref={containerRef} className="w-full" style={{ height }} />
+    </div>
+  );
+}
+
+function appendValues(
+  definition: PaneDefinition,
+  time: number,
+  values: PaneValues | null,
+  points: Record<string, PanePoint[]>,
+  lookup: Map<number, number>
+) {
+  definition.series.forEach(({ key }) => {
+    const value = values?.[key];
+    points[key].push(value ? { time: time as Time, ...value } : { time: time as Time });
+  });
+  const primary = values?.[definition.series[0].key];
+  if (primary) lookup.set(time, primary.value);
+  else lookup.delete(time);
+}
+
+// Indicator sub-panes stacked under a price chart, sharing its time scale and crosshair
+export default function ChartPanes({ main, candles, liveCandle, panes, onRemove }: ChartPanesProps) {
+  const [sync] = useState(() => new ChartSync());
+  const closesRef = useRef(new Map<number, number>());
+
+  useEffect(() => {
+    closesRef.current = new Map(candles.map(candle => [candle.time, candle.close]));
+  }, [candles]);
+
+  useEffect(() => {
+    if (liveCandle) closesRef.current.set(liveCandle.time, liveCandle.close);
+  }, [liveCandle]);
+
+  useEffect(() => {
+    if (!main) return;
+    return sync.add({ ...main, valueAt: time => closesRef.current.get(time) ?? null }, true);
+  }, [main, sync]);
+
+  if (!main || !panes.length) return null;
+
+  return (
+    <div className="w-full">
+      {panes.map(pane => (
+        <IndicatorPane
+          key={pane}
+          definition={PANES[pane]}
+          sync={sync}
+          candles={candles}
+          liveCandle={liveCandle}
+          onRemove={() => onRemove(pane)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { MouseEventParams } from 'lightweight-charts';
+import { useChart } from './ChartContext';
+import { ChartCandle } from '../../types';
+import { formatVolume } from '../../utils';
+import { formatIstDate, formatIstTime } from '../../utils/marketTime';
+
+const TOOLTIP_WIDTH = 200;
+
+interface TooltipState {
+  x: number;
+  y: number;
+  candle: ChartCandle;
+}
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// OHLC, change and volume of the bar under the crosshair
+export default function ChartTooltip() {
+  const { chart, symbol, candles, liveCandle } = useChart();
+  const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+
+  useEffect(() => {
+    const byTime = new Map(candles.map(candle => [candle.time, candle]));
+    if (liveCandle) byTime.set(liveCandle.time, liveCandle);
+
+    const handleMove = (param: MouseEventParams) => {
+      const candle = param.time === undefined ? undefined : byTime.get(param.time as number);
+      if (!param.point || !candle) {
+        setTooltip(null);
+        return;
+      }
+      setTooltip({ x: param.point.x, y: param.point.y, candle });
+    };
+
+    chart.subscribeCrosshairMove(handleMove);
+    return () => chart.unsubscribeCrosshairMove(handleMove);
+  }, [chart, candles, liveCandle]);
+
+  if (!tooltip) return null;
+
+  const { candle } = tooltip;
+  const change = candle.close - candle.open;
+  const changePercent = (change / candle.open) * 100;
+  const { width } = chart.paneSize();
+  const left = tooltip.x + 15 + TOOLTIP_WIDTH > width ? tooltip.x - TOOLTIP_WIDTH - 15 : tooltip.x + 15;
+  const top = tooltip.y - 80 < 0 ? tooltip.y + 10 : tooltip.y - 80;
+
+  return (
+    <div
+      className="absolute z-20 pointer-events-none px-3 py-2 rounded-md shadow-lg text-xs text-white bg-gray-900/95 border border-white/10"
+      style={{ left, top, width: TOOLTIP_WIDTH }}
+    >
+      <div className="font-semibold mb-1">{symbol}</div>
+      <div className="text-gray-400 mb-1.5">
+        {formatIstDate(candle.time)} {formatIstTime(candle.time, true)}
+      </div>
+      <div className="grid grid-cols-2 gap-x-2">
+        <div><span className="text-gray-400">O:</span> {formatPrice(candle.open)}</div>
+        <div><span className="text-gray-400">H:</span> <span className="text-green-400">{formatPrice(candle.high)}</span></div>
+        <div><span className="text-gray-400">L:</span> <span className="text-red-400">{formatPrice(candle.low)}</span></div>
+        <div><span className="text-gray-400">C:</span> {formatPrice(candle.close)}</div>
+      </div>
+      <div className="mt-1">
+        <span className="text-gray-400">Change:</span>{' '}
+        <span className={change >= 0 ? 'text-green-400' : 'text-red-400'}>
+          {change >= 0 ? '+' : ''}{formatPrice(change)} ({change >= 0 ? '+' : ''}{changePercent.toFixed(2)}%)
+        </span>
+      </div>
+      <div className="mt-1">
+        <span className="text-gray-400">Volume:</span> {formatVolume(candle.volume)}
+      </div>
+    </div>
+  );
+}
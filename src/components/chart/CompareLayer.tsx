@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { ISeriesApi, PriceScaleMode, Time } from 'lightweight-charts';
+import { X } from 'lucide-react';
+import { useChart } from './ChartContext';
+import { useChartData } from '../../hooks/useChartData';
+import { ChartCandle, ChartConfig } from '../../types';
+import { Timeframe, isIntraday } from '../../utils/candles';
+import { istDate } from '../../utils/marketTime';
+
+export const COMPARE_COLORS = ['#f59e0b', '#ec4899', '#14b8a6', '#6366f1', '#84cc16'];
+
+const SCALE_MODES: Record<ChartConfig['compareScale'], PriceScaleMode> = {
+  percent: PriceScaleMode.Percentage,
+  rebased: PriceScaleMode.IndexedTo100,
+};
+
+// Change of the latest close from the open of its day (of the first bar for daily and longer)
+function dayChange(candles: ChartCandle[], timeframe: Timeframe): number | null {
+  const latest = candles[candles.length - 1];
+  if (!latest) return null;
+  const first = isIntraday(timeframe)
+    ? candles.find(candle => istDate(candle.time) === istDate(latest.time))
+    : candles[0];
+  return first ? ((latest.close - first.open) / first.open) * 100 : null;
+}
+
+function LegendRow({ symbol, color, change, onRemove }: {
+  symbol: string;
+  color?: string;
+  change: number | null;
+  onRemove?: () => void;
+}) {
+  return (
+    <div className="flex items-center space-x-1.5">
+      {color && <span className="w-2.5 h-0.5 rounded" style={{ backgroundColor: color }} />}
+      <span className="font-medium text-gray-800 dark:text-gray-200">{symbol}</span>
+      {change !== null && (
+        <span className={change >= 0 ? 'text-green-600' : 'text-red-600'}>
+          {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+        </span>
+      )}
+      {onRemove && (
+        <button onClick={onRemove} className="text-gray-400 hover:text-gray-600" title={`Remove ${symbol}`}>
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface CompareSeriesProps {
+  symbol: string;
+  color: string;
+  onRemove: () => void;
+}
+
+// One overlaid symbol, loaded for the same timeframe and day as the chart
+function CompareSeries({ symbol, color, onRemove }: CompareSeriesProps) {
+  const { chart, timeframe, date, candles, replayTime, isRemoved } = useChart();
+  const { data, liveCandle, loadOlder, loadingHistory, historyExhausted } = useChartData(symbol, timeframe, { date });
+  const lineRef = useRef<ISeriesApi<'Line'> | null>(null);
+
+  // A replay hides bars past the last one the chart shows
+  const shown = useMemo(() => {
+    const until = candles[candles.length - 1]?.time;
+    return replayTime === null || until === undefined ? data : data.filter(candle => candle.time <= until);
+  }, [data, candles, replayTime]);
+
+  useEffect(() => {
+    const line = chart.addLineSeries({ color, lineWidth: 2, title: symbol, priceLineVisible: false });
+    lineRef.current = line;
+
+    return () => {
+      lineRef.current = null;
+      if (!isRemoved()) chart.removeSeries(line);
+    };
+  }, [chart, symbol, color, isRemoved]);
+
+  useEffect(() => {
+    lineRef.current?.setData(shown.map(candle => ({ time: candle.time as Time, value: candle.close })));
+  }, [chart, symbol, color, shown]);
+
+  useEffect(() => {
+    if (liveCandle && replayTime === null) {
+      lineRef.current?.update({ time: liveCandle.time as Time, value: liveCandle.close });
+    }
+  }, [liveCandle, replayTime]);
+
+  // Follow the chart as it scrolls back through older days
+  const oldest = candles[0]?.time;
+  useEffect(() => {
+    if (oldest !== undefined && data.length && data[0].time > oldest && !loadingHistory && !historyExhausted) {
+      loadOlder();
+    }
+  }, [oldest, data, loadingHistory, historyExhausted, loadOlder]);
+
+  return (
+    <LegendRow
+      symbol={symbol}
+      color={color}
+      change={dayChange(liveCandle && replayTime === null ? [...shown, liveCandle] : shown, timeframe)}
+      onRemove={onRemove}
+    />
+  );
+}
+
+interface CompareLayerProps {
+  symbols: string[];
+  scale: ChartConfig['compareScale'];
+  onRemove: (symbol: string) => void;
+}
+
+// Other symbols on the price pane. The price scale switches to percent change
+// (or rebased to 100) from the first visible bar, so every line starts level
+// and spot/futures divergences stand out.
+export default function CompareLayer({ symbols, scale, onRemove }: CompareLayerProps) {
+  const { chart, symbol, timeframe, candles, liveCandle, isRemoved } = useChart();
+
+  useEffect(() => {
+    chart.priceScale('right').applyOptions({ mode: SCALE_MODES[scale] });
+    return () => {
+      if (!isRemoved()) chart.priceScale('right').applyOptions({ mode: PriceScaleMode.Normal });
+    };
+  }, [chart, scale, isRemoved]);
+
+  return (
+    <div className="absolute right-20 top-2 z-10 space-y-0.5 px-2 py-1 rounded bg-white/80 dark:bg-gray-800/80 text-xs">
+      <LegendRow
+        symbol={symbol}
+        change={dayChange(liveCandle ? [...candles, liveCandle] : candles, timeframe)}
+      />
+      {symbols.map((other, index) => (
+        <CompareSeries
+          key={other}
+          symbol={other}
+          color={COMPARE_COLORS[index % COMPARE_COLORS.length]}
+          onRemove={() => onRemove(other)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef } from 'react';
+import { Check, GitCompare } from 'lucide-react';
+import apiService from '../../services/api';
+import { AvailableSymbol, ChartConfig } from '../../types';
+import { cn } from '../../utils/cn';
+
+interface CompareMenuProps {
+  symbol: string; // The chart's own symbol, left out of the list
+  compare: string[];
+  scale: ChartConfig['compareScale'];
+  onChange: (changes: Partial<ChartConfig>) => void;
+}
+
+const SCALES: { id: ChartConfig['compareScale']; label: string; title: string }[] = [
+  { id: 'percent', label: '%', title: 'Percent change' },
+  { id: 'rebased', label: '100', title: 'Rebased to 100' },
+];
+
+// Toolbar dropdown for overlaying other symbols and picking how they are scaled
+export default function CompareMenu({ symbol, compare, scale, onChange }: CompareMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [symbols, setSymbols] = useState<AvailableSymbol[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open || symbols.length) return;
+
+    let cancelled = false;
+    apiService.getAvailableSymbols()
+      .then(response => {
+        if (!cancelled) setSymbols(response.symbols);
+      })
+      .catch(error => console.error('❌ Failed to load symbols to compare:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, symbols.length]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const toggle = (other: string) => onChange({
+    compare: compare.includes(other) ? compare.filter(s => s !== other) : [...compare, other],
+  });
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center px-2 py-1 text-xs rounded ${
+          compare.length ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'
+        }`}
+        title="Compare symbols"
+      >
+        <GitCompare className="w-3 h-3 mr-1" />
+        Compare
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-56 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          <div className="flex items-center justify-between px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400">
+            <span>Scale</span>
+            <div className="flex bg-gray-100 dark:bg-gray-700 rounded p-0.5">
+              {SCALES.map(({ id, label, title }) => (
+                <button
+                  key={id}
+                  onClick={() => onChange({ compareScale: id })}
+                  className={cn(
+                    'px-2 py-0.5 rounded',
+                    scale === id ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300'
+                  )}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="max-h-64 overflow-y-auto border-t border-gray-100 dark:border-gray-700">
+            {!symbols.length && (
+              <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">Loading symbols...</div>
+            )}
+            {symbols.filter(s => s.symbol !== symbol).map(s => (
+              <button
+                key={s.symbol}
+                onClick={() => toggle(s.symbol)}
+                className="flex w-full items-center justify-between px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <span className="truncate">
+                  <span className="font-medium">{s.symbol}</span>
+                  <span className="ml-1 text-gray-500 dark:text-gray-400">{s.name}</span>
+                </span>
+                {compare.includes(s.symbol) && <Check className="w-3 h-3 text-blue-600" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { currentTradingDay, latestTradingDay, nextTradingDay, previousTradingDay } from '../../utils/marketTime';
+import { cn } from '../../utils/cn';
+
+interface DateNavigatorProps {
+  date: string | null; // null follows today live
+  onChange: (date: string | null) => void;
+}
+
+// Picks the IST trading day a chart shows. Steps skip weekends and holidays,
+// and calendar picks on a closed day fall back to the session before it.
+export default function DateNavigator({ date, onChange }: DateNavigatorProps) {
+  const today = currentTradingDay();
+  const shown = date ?? today;
+
+  // Reaching today again switches back to the live chart
+  const select = (next: string) => onChange(next >= today ? null : next);
+
+  return (
+    <div className="flex items-center bg-gray-100 dark:bg-gray-700 rounded-lg p-1 space-x-1">
+      <button
+        onClick={() => select(previousTradingDay(shown))}
+        className="p-0.5 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+        title="Previous trading day"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <input
+        type="date"
+        value={shown}
+        max={today}
+        onChange={(e) => e.target.value && select(latestTradingDay(e.target.value))}
+        className="px-1 text-xs bg-transparent text-gray-700 dark:text-gray-300"
+        title="Trading day"
+      />
+      <button
+        onClick={() => select(nextTradingDay(shown))}
+        disabled={date === null}
+        className="p-0.5 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-40"
+        title="Next trading day"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => onChange(null)}
+        disabled={date === null}
+        className={cn(
+          'px-2 py-0.5 text-xs font-medium rounded-md',
+          date === null ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+        )}
+        title="Back to the live chart"
+      >
+        Today
+      </button>
+    </div>
+  );
+}
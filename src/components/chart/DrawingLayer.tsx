@@ -0,0 +1,213 @@
+import { useState, useEffect, useMemo, useRef, ComponentType } from 'react';
+import { MouseEventParams } from 'lightweight-charts';
+import { MousePointer2, PenLine, Minus, Square, AlignJustify, Type, Trash2 } from 'lucide-react';
+import { useChart } from './ChartContext';
+import { DrawingPrimitive } from './DrawingPrimitive';
+import { useDrawings } from '../../hooks/useDrawings';
+import { Drawing, DrawingPoint, DrawingTool } from '../../types';
+import { logicalToTime } from '../../utils/drawings';
+import { generateId } from '../../utils';
+import { cn } from '../../utils/cn';
+
+interface ToolDefinition {
+  label: string;
+  icon: ComponentType<{ className?: string }>;
+  points: number;
+  color: string;
+}
+
+const TOOLS: Record<DrawingTool, ToolDefinition> = {
+  trendline: { label: 'Trendline', icon: PenLine, points: 2, color: '#2563eb' },
+  horizontalRay: { label: 'Horizontal ray', icon: Minus, points: 1, color: '#f59e0b' },
+  priceRange: { label: 'Price range', icon: Square, points: 2, color: '#8b5cf6' },
+  fibonacci: { label: 'Fibonacci retracement', icon: AlignJustify, points: 2, color: '#0d9488' },
+  note: { label: 'Text note', icon: Type, points: 1, color: '#374151' },
+};
+
+const TOOL_IDS = Object.keys(TOOLS) as DrawingTool[];
+
+interface PendingNote {
+  point: DrawingPoint;
+  x: number;
+  y: number;
+}
+
+// Drawing toolbar and the drawings saved for the chart's symbol and timeframe.
+// Two-point tools take a click per point; with no tool active a click selects
+// a drawing, which Delete removes.
+export default function DrawingLayer() {
+  const { chart, series, symbol, timeframe, candles, liveCandle, isRemoved } = useChart();
+  const [drawings, setDrawings] = useDrawings(symbol, timeframe);
+  const [tool, setTool] = useState<DrawingTool | null>(null);
+  const [draft, setDraft] = useState<Drawing | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState<PendingNote | null>(null);
+  const primitiveRef = useRef<DrawingPrimitive | null>(null);
+
+  const times = useMemo(() => {
+    const result = candles.map(candle => candle.time);
+    if (liveCandle && liveCandle.time > (result[result.length - 1] ?? 0)) result.push(liveCandle.time);
+    return result;
+  }, [candles, liveCandle]);
+
+  useEffect(() => {
+    const primitive = new DrawingPrimitive();
+    series.attachPrimitive(primitive);
+    primitiveRef.current = primitive;
+
+    return () => {
+      primitiveRef.current = null;
+      if (!isRemoved()) series.detachPrimitive(primitive);
+    };
+  }, [series, isRemoved]);
+
+  useEffect(() => {
+    primitiveRef.current?.setState({ drawings, draft, selectedId, times });
+  }, [series, drawings, draft, selectedId, times]);
+
+  // A new symbol or timeframe starts from a clean slate
+  useEffect(() => {
+    setTool(null);
+    setDraft(null);
+    setSelectedId(null);
+    setNote(null);
+  }, [symbol, timeframe]);
+
+  useEffect(() => {
+    const pointAt = (param: MouseEventParams): DrawingPoint | null => {
+      if (!param.point) return null;
+      const price = series.coordinateToPrice(param.point.y);
+      const time = param.time !== undefined
+        ? param.time as number
+        : param.logical !== undefined ? logicalToTime(times, param.logical) : null;
+      return price === null || time === null ? null : { time, price };
+    };
+
+    const handleClick = (param: MouseEventParams) => {
+      if (!tool) {
+        const hit = param.point ? primitiveRef.current?.drawingAt(param.point.x, param.point.y) : null;
+        setSelectedId(hit?.id ?? null);
+        return;
+      }
+
+      const point = pointAt(param);
+      if (!point || !param.point) return;
+
+      if (tool === 'note') {
+        setNote({ point, x: param.point.x, y: param.point.y });
+        setTool(null);
+        return;
+      }
+
+      const points = draft ? [draft.points[0], point] : [point];
+      if (points.length < TOOLS[tool].points) {
+        setDraft({ id: generateId(), tool, points: [point, point], color: TOOLS[tool].color });
+        return;
+      }
+
+      const drawing = { id: draft?.id ?? generateId(), tool, points, color: TOOLS[tool].color };
+      setDrawings([...drawings, drawing]);
+      setDraft(null);
+      setTool(null);
+      setSelectedId(drawing.id);
+    };
+
+    // The second point follows the crosshair until it is placed
+    const handleMove = (param: MouseEventParams) => {
+      if (!draft) return;
+      const point = pointAt(param);
+      if (point) setDraft({ ...draft, points: [draft.points[0], point] });
+    };
+
+    chart.subscribeClick(handleClick);
+    chart.subscribeCrosshairMove(handleMove);
+    return () => {
+      chart.unsubscribeClick(handleClick);
+      chart.unsubscribeCrosshairMove(handleMove);
+    };
+  }, [chart, series, times, tool, draft, drawings, setDrawings]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      if (event.key === 'Escape') {
+        setTool(null);
+        setDraft(null);
+        setSelectedId(null);
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+        setDrawings(drawings.filter(drawing => drawing.id !== selectedId));
+        setSelectedId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [drawings, selectedId, setDrawings]);
+
+  const selectTool = (next: DrawingTool | null) => {
+    setTool(next);
+    setDraft(null);
+    setSelectedId(null);
+  };
+
+  const saveNote = (text: string) => {
+    if (note && text.trim()) {
+      setDrawings([...drawings, { id: generateId(), tool: 'note', points: [note.point], color: TOOLS.note.color, text: text.trim() }]);
+    }
+    setNote(null);
+  };
+
+  const removeSelected = () => {
+    if (selectedId) setDrawings(drawings.filter(drawing => drawing.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const buttonClass = (active: boolean) => cn(
+    'p-1.5 rounded',
+    active
+      ? 'bg-blue-600 text-white'
+      : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+  );
+
+  return (
+    <>
+      <div className="absolute left-2 top-1/2 z-10 -translate-y-1/2 flex flex-col space-y-1 p-1 rounded-lg shadow bg-white/90 dark:bg-gray-800/90 border border-gray-200 dark:border-gray-700">
+        <button onClick={() => selectTool(null)} className={buttonClass(tool === null)} title="Select">
+          <MousePointer2 className="w-4 h-4" />
+        </button>
+        {TOOL_IDS.map(id => {
+          const Icon = TOOLS[id].icon;
+          return (
+            <button key={id} onClick={() => selectTool(id)} className={buttonClass(tool === id)} title={TOOLS[id].label}>
+              <Icon className="w-4 h-4" />
+            </button>
+          );
+        })}
+        <button
+          onClick={selectedId ? removeSelected : () => setDrawings([])}
+          disabled={!drawings.length}
+          className="p-1.5 rounded text-red-600 hover:bg-red-50 dark:hover:bg-gray-700 disabled:opacity-40"
+          title={selectedId ? 'Delete selected drawing' : 'Clear all drawings'}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {note && (
+        <input
+          autoFocus
+          placeholder="Note text"
+          onBlur={(e) => saveNote(e.target.value)}
+          onKeyDown={(e) => {
+            // Both end in blur, which saves whatever text is left
+            if (e.key === 'Escape') e.currentTarget.value = '';
+            if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+          }}
+          className="absolute z-20 w-40 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          style={{ left: note.x, top: note.y - 24 }}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,230 @@
+import {
+  IChartApiBase,
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time,
+} from 'lightweight-charts';
+import { Drawing } from '../../types';
+import { distanceToSegment, fibonacciLevels, timeToLogical } from '../../utils/drawings';
+
+type RenderingTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface DrawingState {
+  drawings: Drawing[];
+  draft: Drawing | null; // The drawing being placed, following the crosshair
+  selectedId: string | null;
+  times: number[]; // Bar times of the series, for placing points between and past bars
+}
+
+const HIT_TOLERANCE = 6;
+const HANDLE_RADIUS = 4;
+const FONT = '11px -apple-system, BlinkMacSystemFont, sans-serif';
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Paints the drawings of a TradingChart onto its price pane. Points are kept
+// in time and price and converted on every frame, so drawings follow pans,
+// zooms and price scale changes without being recomputed.
+export class DrawingPrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApiBase<Time> | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private state: DrawingState = { drawings: [], draft: null, selectedId: null, times: [] };
+  private noteBoxes = new Map<string, Box>();
+  private views: ISeriesPrimitivePaneView[] = [{ renderer: () => ({ draw: target => this.draw(target) }) }];
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time>): void {
+    this.chart = chart;
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+  }
+
+  detached(): void {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setState(state: DrawingState): void {
+    this.state = state;
+    this.requestUpdate?.();
+  }
+
+  // The topmost drawing under a pane coordinate
+  drawingAt(x: number, y: number): Drawing | null {
+    const { drawings } = this.state;
+    for (let i = drawings.length - 1; i >= 0; i--) {
+      if (this.hits(drawings[i], x, y)) return drawings[i];
+    }
+    return null;
+  }
+
+  private x(time: number): number | null {
+    const logical = timeToLogical(this.state.times, time);
+    if (logical === null || !this.chart) return null;
+    return this.chart.timeScale().logicalToCoordinate(logical as Logical);
+  }
+
+  private y(price: number): number | null {
+    return this.series?.priceToCoordinate(price) ?? null;
+  }
+
+  private coordinates(drawing: Drawing): { x: number; y: number }[] | null {
+    const points = drawing.points.map(point => ({ x: this.x(point.time), y: this.y(point.price) }));
+    if (points.some(point => point.x === null || point.y === null)) return null;
+    return points as { x: number; y: number }[];
+  }
+
+  private hits(drawing: Drawing, x: number, y: number): boolean {
+    const points = this.coordinates(drawing);
+    if (!points) return false;
+    const [a, b] = points;
+
+    switch (drawing.tool) {
+      case 'trendline':
+        return !!b && distanceToSegment(x, y, a.x, a.y, b.x, b.y) <= HIT_TOLERANCE;
+      case 'horizontalRay':
+        return x >= a.x - HIT_TOLERANCE && Math.abs(y - a.y) <= HIT_TOLERANCE;
+      case 'priceRange':
+        return !!b
+          && x >= Math.min(a.x, b.x) - HIT_TOLERANCE && x <= Math.max(a.x, b.x) + HIT_TOLERANCE
+          && y >= Math.min(a.y, b.y) - HIT_TOLERANCE && y <= Math.max(a.y, b.y) + HIT_TOLERANCE;
+      case 'fibonacci':
+        if (!b || x < Math.min(a.x, b.x) - HIT_TOLERANCE || x > Math.max(a.x, b.x) + HIT_TOLERANCE) return false;
+        return fibonacciLevels(drawing.points[0].price, drawing.points[1].price).some(({ price }) => {
+          const levelY = this.y(price);
+          return levelY !== null && Math.abs(y - levelY) <= HIT_TOLERANCE;
+        });
+      case 'note': {
+        const box = this.noteBoxes.get(drawing.id);
+        return !!box && x >= box.left && x <= box.right && y >= box.top && y <= box.bottom;
+      }
+    }
+  }
+
+  private draw(target: RenderingTarget): void {
+    target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+      const { drawings, draft, selectedId } = this.state;
+      this.noteBoxes.clear();
+      context.font = FONT;
+      context.lineCap = 'round';
+
+      drawings.forEach(drawing => this.drawOne(context, mediaSize.width, drawing, drawing.id === selectedId));
+      if (draft) {
+        context.globalAlpha = 0.7;
+        this.drawOne(context, mediaSize.width, draft, true);
+        context.globalAlpha = 1;
+      }
+    });
+  }
+
+  private drawOne(ctx: CanvasRenderingContext2D, width: number, drawing: Drawing, selected: boolean): void {
+    const points = this.coordinates(drawing);
+    if (!points) return;
+    const [a, b] = points;
+
+    ctx.strokeStyle = drawing.color;
+    ctx.fillStyle = drawing.color;
+    ctx.lineWidth = selected ? 2 : 1.5;
+    ctx.setLineDash([]);
+
+    switch (drawing.tool) {
+      case 'trendline':
+        if (b) this.line(ctx, a.x, a.y, b.x, b.y);
+        break;
+
+      case 'horizontalRay':
+        this.line(ctx, a.x, a.y, width, a.y);
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(formatPrice(drawing.points[0].price), width - 4, a.y - 2);
+        break;
+
+      case 'priceRange': {
+        if (!b) break;
+        const from = drawing.points[0].price;
+        const change = drawing.points[1].price - from;
+        ctx.globalAlpha *= 0.15;
+        ctx.fillRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+        ctx.globalAlpha /= 0.15;
+        ctx.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(
+          `${change >= 0 ? '+' : ''}${formatPrice(change)} (${change >= 0 ? '+' : ''}${((change / from) * 100).toFixed(2)}%)`,
+          (a.x + b.x) / 2,
+          Math.min(a.y, b.y) - 3
+        );
+        break;
+      }
+
+      case 'fibonacci': {
+        if (!b) break;
+        const left = Math.min(a.x, b.x);
+        const right = Math.max(a.x, b.x);
+        ctx.setLineDash([4, 4]);
+        this.line(ctx, a.x, a.y, b.x, b.y);
+        ctx.setLineDash([]);
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'bottom';
+        fibonacciLevels(drawing.points[0].price, drawing.points[1].price).forEach(({ level, price }) => {
+          const y = this.y(price);
+          if (y === null) return;
+          this.line(ctx, left, y, right, y);
+          ctx.fillText(`${level} (${formatPrice(price)})`, left + 2, y - 2);
+        });
+        break;
+      }
+
+      case 'note': {
+        const text = drawing.text ?? '';
+        const box = { left: a.x, top: a.y - 18, right: a.x + ctx.measureText(text).width + 12, bottom: a.y };
+        this.noteBoxes.set(drawing.id, box);
+        ctx.fillRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+        if (selected) {
+          ctx.strokeStyle = '#ffffff';
+          ctx.strokeRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+        }
+        ctx.fillStyle = '#ffffff';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(text, box.left + 6, (box.top + box.bottom) / 2);
+        return;
+      }
+    }
+
+    if (selected) points.forEach(point => this.handle(ctx, point.x, point.y));
+  }
+
+  private line(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number): void {
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  }
+
+  private handle(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+    ctx.beginPath();
+    ctx.arc(x, y, HANDLE_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.stroke();
+  }
+}
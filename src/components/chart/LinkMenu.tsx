@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef } from 'react';
+import { Check, Link2 } from 'lucide-react';
+import { ChartLinkGroup } from '../../types';
+
+interface LinkMenuProps {
+  group: ChartLinkGroup | null;
+  onChange: (group: ChartLinkGroup | null) => void;
+}
+
+export const LINK_GROUPS: { id: ChartLinkGroup; color: string }[] = [
+  { id: 'A', color: '#3b82f6' },
+  { id: 'B', color: '#f59e0b' },
+  { id: 'C', color: '#10b981' },
+];
+
+// Toolbar dropdown for putting the chart in a link group
+export default function LinkMenu({ group, onChange }: LinkMenuProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const color = LINK_GROUPS.find(g => g.id === group)?.color;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const select = (next: ChartLinkGroup | null) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center px-2 py-1 text-xs rounded ${
+          group ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'
+        }`}
+        title="Link crosshair, time range and timeframe with other charts"
+      >
+        <Link2 className="w-3 h-3 mr-1" style={color ? { color } : undefined} />
+        {group ? `Link ${group}` : 'Link'}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-36 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          <button
+            onClick={() => select(null)}
+            className="flex w-full items-center justify-between px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <span>Not linked</span>
+            {!group && <Check className="w-3 h-3 text-blue-600" />}
+          </button>
+          {LINK_GROUPS.map(({ id, color: groupColor }) => (
+            <button
+              key={id}
+              onClick={() => select(id)}
+              className="flex w-full items-center justify-between px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span className="flex items-center">
+                <span className="w-2 h-2 mr-2 rounded-full" style={{ backgroundColor: groupColor }} />
+                Group {id}
+              </span>
+              {group === id && <Check className="w-3 h-3 text-blue-600" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { ISeriesApi, Time } from 'lightweight-charts';
+import { useChart } from './ChartContext';
+import { computeSeries, sma } from '../../utils/indicators';
+
+const AVERAGES = [
+  { period: 20, color: '#2196F3' },
+  { period: 50, color: '#FF9800' },
+];
+
+// Simple moving averages over the closes, revised with the forming bar
+export default function MovingAverageLayer() {
+  const { chart, candles, liveCandle, isRemoved } = useChart();
+  const linesRef = useRef<{ line: ISeriesApi<'Line'>; indicator: ReturnType<typeof sma> }[]>([]);
+
+  useEffect(() => {
+    const lines = AVERAGES.map(({ period, color }) => ({
+      line: chart.addLineSeries({ color, lineWidth: 2, title: `SMA ${period}`, priceLineVisible: false }),
+      indicator: sma(period),
+    }));
+    linesRef.current = lines;
+
+    return () => {
+      linesRef.current = [];
+      if (!isRemoved()) lines.forEach(({ line }) => chart.removeSeries(line));
+    };
+  }, [chart, isRemoved]);
+
+  useEffect(() => {
+    linesRef.current.forEach(({ line, indicator }) => {
+      line.setData(computeSeries(indicator, candles).map(({ time, value }) => ({ time: time as Time, value })));
+    });
+  }, [chart, candles]);
+
+  useEffect(() => {
+    if (!liveCandle) return;
+    linesRef.current.forEach(({ line, indicator }) => {
+      const value = indicator.update(liveCandle);
+      if (value !== null) line.update({ time: liveCandle.time as Time, value });
+    });
+  }, [liveCandle]);
+
+  return null;
+}
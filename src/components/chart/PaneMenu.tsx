@@ -0,0 +1,57 @@
+import { useState, useEffect, useRef } from 'react';
+import { Check, Layers } from 'lucide-react';
+import { PANES, PANE_IDS, PaneId } from '../../utils/panes';
+
+interface PaneMenuProps {
+  panes: PaneId[];
+  onToggle: (pane: PaneId) => void;
+}
+
+// Toolbar dropdown for adding and removing indicator sub-panes
+export default function PaneMenu({ panes, onToggle }: PaneMenuProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center px-2 py-1 text-xs rounded ${
+          panes.length ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'
+        }`}
+        title="Indicator panes"
+      >
+        <Layers className="w-3 h-3 mr-1" />
+        Panes
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-44 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          {PANE_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => onToggle(id)}
+              className="flex w-full items-center justify-between px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span>{PANES[id].label}</span>
+              {panes.includes(id) && <Check className="w-3 h-3 text-blue-600" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
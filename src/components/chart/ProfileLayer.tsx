@@ -0,0 +1,88 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useChart } from './ChartContext';
+import { ProfilePrimitive } from './ProfilePrimitive';
+import { useTradingSessions } from '../../hooks/useTradingSessions';
+import { isIntraday, withLiveCandle } from '../../utils/candles';
+import { istDate, istTime } from '../../utils/marketTime';
+import { ProfileKind, buildProfile, sessionCandles } from '../../utils/profile';
+import { cn } from '../../utils/cn';
+
+const KINDS: { id: ProfileKind; label: string; title: string }[] = [
+  { id: 'volume', label: 'Vol', title: 'Volume profile' },
+  { id: 'tpo', label: 'TPO', title: 'Market profile (TPO)' },
+];
+
+// Volume or TPO profile of one trading session of the chart's day, drawn on
+// the right of the price pane. Follows the latest session unless one is picked.
+export default function ProfileLayer() {
+  const { series, timeframe, date, candles, liveCandle, isRemoved } = useChart();
+  const sessions = useTradingSessions(date);
+  const [kind, setKind] = useState<ProfileKind>('volume');
+  const [selected, setSelected] = useState<string | null>(null);
+  const primitiveRef = useRef<ProfilePrimitive | null>(null);
+  const intraday = isIntraday(timeframe);
+
+  const all = useMemo(() => withLiveCandle(candles, liveCandle), [candles, liveCandle]);
+  const latest = all[all.length - 1];
+  const day = latest ? istDate(latest.time) : null;
+  // Sessions that had opened by the latest bar, which in a replay is the replay time
+  const started = day ? sessions.filter(s => istTime(day, s.start_time) <= latest.time) : [];
+  const session = started.find(s => s.name === selected) ?? started[started.length - 1];
+
+  const inSession = useMemo(
+    () => intraday && session && day ? sessionCandles(all, session, day) : [],
+    [intraday, session, day, all]
+  );
+  const profile = useMemo(() => buildProfile(inSession, kind), [inSession, kind]);
+
+  useEffect(() => {
+    const primitive = new ProfilePrimitive();
+    series.attachPrimitive(primitive);
+    primitiveRef.current = primitive;
+
+    return () => {
+      primitiveRef.current = null;
+      if (!isRemoved()) series.detachPrimitive(primitive);
+    };
+  }, [series, isRemoved]);
+
+  useEffect(() => {
+    primitiveRef.current?.setProfile(profile);
+  }, [series, profile]);
+
+  if (!intraday || !started.length) return null;
+
+  return (
+    <div className="absolute right-20 bottom-8 z-10 flex items-center space-x-1 px-2 py-1 rounded bg-white/80 dark:bg-gray-800/80 text-xs">
+      <span className="font-medium text-gray-700 dark:text-gray-300">Profile</span>
+      <select
+        value={session?.name ?? ''}
+        onChange={(e) => setSelected(e.target.value)}
+        className="px-1 py-0.5 text-xs rounded bg-white/80 dark:bg-gray-700/80 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600"
+        title="Session"
+      >
+        {started.map(s => (
+          <option key={s.name} value={s.name}>{s.name} ({s.start_time}-{s.end_time})</option>
+        ))}
+      </select>
+      <div className="flex bg-gray-100 dark:bg-gray-700 rounded p-0.5">
+        {KINDS.map(({ id, label, title }) => (
+          <button
+            key={id}
+            onClick={() => setKind(id)}
+            className={cn(
+              'px-2 py-0.5 rounded',
+              kind === id ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-gray-300'
+            )}
+            title={title}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {!profile && inSession.length > 0 && (
+        <span className="text-gray-500 dark:text-gray-400">No volume</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import {
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time,
+} from 'lightweight-charts';
+import { Profile } from '../../utils/profile';
+
+type RenderingTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+const MAX_WIDTH = 160;
+const WIDTH_SHARE = 0.25; // Of the pane, on narrow charts
+const LETTER_FONT = '9px ui-monospace, SFMono-Regular, Menlo, monospace';
+const LABEL_FONT = '10px -apple-system, BlinkMacSystemFont, sans-serif';
+const MIN_LETTER_HEIGHT = 8;
+
+const COLORS = {
+  row: 'rgba(107, 114, 128, 0.25)',
+  valueArea: 'rgba(59, 130, 246, 0.35)',
+  poc: 'rgba(225, 29, 72, 0.6)',
+  pocLine: '#e11d48',
+  valueAreaLine: '#3b82f6',
+  letters: '#374151',
+};
+
+// Paints a session profile against the right edge of the price pane: one
+// horizontal bar per price row, value area rows highlighted, POC, VAH and VAL
+// marked. TPO profiles print their period letters when the rows are tall enough.
+export class ProfilePrimitive implements ISeriesPrimitive<Time> {
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private profile: Profile | null = null;
+  private views: ISeriesPrimitivePaneView[] = [{ renderer: () => ({ draw: target => this.draw(target) }) }];
+
+  attached({ series, requestUpdate }: SeriesAttachedParameter<Time>): void {
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+  }
+
+  detached(): void {
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setProfile(profile: Profile | null): void {
+    this.profile = profile;
+    this.requestUpdate?.();
+  }
+
+  private draw(target: RenderingTarget): void {
+    const { profile, series } = this;
+    if (!profile || !series) return;
+
+    target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+      const right = mediaSize.width;
+      const width = Math.min(MAX_WIDTH, mediaSize.width * WIDTH_SHARE);
+      const left = right - width;
+      const max = Math.max(...profile.rows.map(row => row.value));
+
+      profile.rows.forEach(row => {
+        const top = series.priceToCoordinate(row.high);
+        const bottom = series.priceToCoordinate(row.low);
+        if (top === null || bottom === null) return;
+
+        const height = Math.max(1, bottom - top - 1);
+        const poc = profile.poc > row.low && profile.poc < row.high;
+        const inValueArea = row.low >= profile.val && row.high <= profile.vah;
+        ctx.fillStyle = poc ? COLORS.poc : inValueArea ? COLORS.valueArea : COLORS.row;
+
+        if (profile.kind === 'tpo' && height >= MIN_LETTER_HEIGHT) {
+          ctx.font = LETTER_FONT;
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'middle';
+          const text = row.letters;
+          const textWidth = ctx.measureText(text).width;
+          ctx.fillRect(right - textWidth - 4, top, textWidth + 4, height);
+          ctx.fillStyle = COLORS.letters;
+          ctx.fillText(text, right - textWidth - 2, top + height / 2);
+        } else {
+          const length = (row.value / max) * width;
+          ctx.fillRect(right - length, top, length, height);
+        }
+      });
+
+      ctx.font = LABEL_FONT;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'bottom';
+      [
+        { price: profile.poc, label: 'POC', color: COLORS.pocLine, dash: [] },
+        { price: profile.vah, label: 'VAH', color: COLORS.valueAreaLine, dash: [3, 3] },
+        { price: profile.val, label: 'VAL', color: COLORS.valueAreaLine, dash: [3, 3] },
+      ].forEach(({ price, label, color, dash }) => {
+        const y = series.priceToCoordinate(price);
+        if (y === null) return;
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = 1;
+        ctx.setLineDash(dash);
+        ctx.beginPath();
+        ctx.moveTo(left, y);
+        ctx.lineTo(right, y);
+        ctx.stroke();
+        ctx.fillText(label, left + 2, y - 1);
+      });
+      ctx.setLineDash([]);
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Pause, Play, StepForward, X } from 'lucide-react';
+import { BarReplay, REPLAY_SPEEDS } from '../../hooks/useBarReplay';
+import { MARKET_CLOSE, MARKET_OPEN, formatIstDate, formatIstTime } from '../../utils/marketTime';
+
+interface ReplayControlsProps {
+  replay: BarReplay;
+  onStart: (time: string) => void; // HH:MM IST on the chart's day
+  onClose: () => void;
+}
+
+// Start time, transport and speed for a bar replay
+export default function ReplayControls({ replay, onStart, onClose }: ReplayControlsProps) {
+  const [startTime, setStartTime] = useState(MARKET_OPEN);
+  const { clock, playing, finished, speed } = replay;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 px-3 py-2 rounded-lg bg-amber-50 dark:bg-gray-700 border border-amber-200 dark:border-gray-600 text-xs">
+      <span className="font-semibold text-amber-800 dark:text-amber-300">Replay</span>
+      {clock !== null && (
+        <span className="text-gray-700 dark:text-gray-300">
+          {formatIstDate(clock)} {formatIstTime(clock)} IST
+        </span>
+      )}
+
+      <div className="flex items-center space-x-1">
+        <input
+          type="time"
+          value={startTime}
+          min={MARKET_OPEN}
+          max={MARKET_CLOSE}
+          onChange={(e) => setStartTime(e.target.value)}
+          className="px-1 py-0.5 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600"
+          title="Replay from"
+        />
+        <button
+          onClick={() => onStart(startTime)}
+          className="px-2 py-0.5 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-gray-50"
+        >
+          {clock === null ? 'Start' : 'Restart'}
+        </button>
+      </div>
+
+      {clock !== null && (
+        <>
+          <button
+            onClick={playing ? replay.pause : replay.play}
+            disabled={finished}
+            className="p-1 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+            title={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          </button>
+          <button
+            onClick={replay.step}
+            disabled={playing || finished}
+            className="p-1 rounded text-gray-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-gray-600 disabled:opacity-50"
+            title="Next bar"
+          >
+            <StepForward className="w-3 h-3" />
+          </button>
+          <select
+            value={speed}
+            onChange={(e) => replay.setSpeed(Number(e.target.value))}
+            className="px-1 py-0.5 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600"
+            title="Replay speed"
+          >
+            {REPLAY_SPEEDS.map(value => (
+              <option key={value} value={value}>{value}x</option>
+            ))}
+          </select>
+          {finished && <span className="text-gray-500 dark:text-gray-400">End of data</span>}
+        </>
+      )}
+
+      <button
+        onClick={onClose}
+        className="ml-auto p-1 rounded text-gray-500 hover:text-gray-700 dark:hover:text-gray-200"
+        title="Exit replay"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
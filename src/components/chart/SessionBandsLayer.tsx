@@ -0,0 +1,114 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { MouseEventParams } from 'lightweight-charts';
+import { useChart } from './ChartContext';
+import { SessionBand, SessionBandsPrimitive } from './SessionBandsPrimitive';
+import { useTradingSessions } from '../../hooks/useTradingSessions';
+import { useChartSignals } from '../../hooks/useChartSignals';
+import { TradingSession } from '../../types';
+import { isIntraday, withLiveCandle } from '../../utils/candles';
+import { logicalToTime } from '../../utils/drawings';
+import { istDate, istTime } from '../../utils/marketTime';
+import { sessionCandles } from '../../utils/profile';
+
+const TOOLTIP_WIDTH = 180;
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// A past day's sessions have all completed; in a replay the session around the
+// replay time is the active one
+function sessionStatus(
+  session: TradingSession,
+  day: string,
+  date: string | null,
+  replayTime: number | null
+): 'active' | 'completed' | 'upcoming' {
+  if (replayTime !== null) {
+    if (istTime(day, session.end_time) <= replayTime) return 'completed';
+    return istTime(day, session.start_time) <= replayTime ? 'active' : 'upcoming';
+  }
+  if (date) return 'completed';
+  if (session.is_active) return 'active';
+  return session.is_completed ? 'completed' : 'upcoming';
+}
+
+// Trading sessions of the chart's day as shaded bands; hovering one shows its
+// high, low and signal count so far
+export default function SessionBandsLayer() {
+  const { chart, series, symbol, timeframe, date, candles, liveCandle, replayTime, isRemoved } = useChart();
+  const sessions = useTradingSessions(date);
+  const signals = useChartSignals(symbol, timeframe, date);
+  const [hover, setHover] = useState<{ name: string; x: number } | null>(null);
+  const primitiveRef = useRef<SessionBandsPrimitive | null>(null);
+  const intraday = isIntraday(timeframe);
+
+  const all = useMemo(() => withLiveCandle(candles, liveCandle), [candles, liveCandle]);
+  const times = useMemo(() => all.map(candle => candle.time), [all]);
+  const day = all.length ? istDate(all[all.length - 1].time) : null;
+
+  const bands = useMemo<SessionBand[]>(() => intraday && day ? sessions.map(session => ({
+    name: session.name,
+    start: istTime(day, session.start_time),
+    end: istTime(day, session.end_time),
+    active: sessionStatus(session, day, date, replayTime) === 'active',
+  })) : [], [intraday, day, sessions, replayTime, date]);
+
+  useEffect(() => {
+    const primitive = new SessionBandsPrimitive();
+    series.attachPrimitive(primitive);
+    primitiveRef.current = primitive;
+
+    return () => {
+      primitiveRef.current = null;
+      if (!isRemoved()) series.detachPrimitive(primitive);
+    };
+  }, [series, isRemoved]);
+
+  useEffect(() => {
+    primitiveRef.current?.setState({ bands, hovered: hover?.name ?? null, times });
+  }, [series, bands, hover, times]);
+
+  useEffect(() => {
+    const handleMove = (param: MouseEventParams) => {
+      const time = param.point && param.logical !== undefined ? logicalToTime(times, param.logical) : null;
+      const band = time === null ? undefined : bands.find(b => time >= b.start && time < b.end);
+      setHover(band && param.point ? { name: band.name, x: param.point.x } : null);
+    };
+
+    chart.subscribeCrosshairMove(handleMove);
+    return () => {
+      if (!isRemoved()) chart.unsubscribeCrosshairMove(handleMove);
+    };
+  }, [chart, times, bands, isRemoved]);
+
+  const session = hover && day ? sessions.find(s => s.name === hover.name) : undefined;
+  if (!hover || !session || !day) return null;
+
+  const traded = sessionCandles(all, session, day);
+  const count = signals.filter(signal => signal.session_name === session.name
+    && (replayTime === null || signal.time < replayTime)).length;
+  const { width } = chart.paneSize();
+  const left = Math.max(0, Math.min(hover.x + 12, width - TOOLTIP_WIDTH));
+
+  return (
+    <div
+      className="absolute z-20 pointer-events-none px-3 py-2 rounded-md shadow-lg text-xs text-white bg-gray-900/95 border border-white/10"
+      style={{ left, top: 8, width: TOOLTIP_WIDTH }}
+    >
+      <div className="flex items-center justify-between font-semibold mb-1">
+        <span>{session.name}</span>
+        <span className="font-normal text-gray-400 capitalize">{sessionStatus(session, day, date, replayTime)}</span>
+      </div>
+      <div className="text-gray-400 mb-1.5">{session.start_time} - {session.end_time} IST</div>
+      {traded.length > 0 && (
+        <div className="grid grid-cols-2 gap-x-2">
+          <div><span className="text-gray-400">H:</span> <span className="text-green-400">{formatPrice(Math.max(...traded.map(c => c.high)))}</span></div>
+          <div><span className="text-gray-400">L:</span> <span className="text-red-400">{formatPrice(Math.min(...traded.map(c => c.low)))}</span></div>
+        </div>
+      )}
+      <div className="mt-1">
+        <span className="text-gray-400">Signals:</span> {count}
+      </div>
+    </div>
+  );
+}
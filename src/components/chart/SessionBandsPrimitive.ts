@@ -0,0 +1,121 @@
+import {
+  IChartApiBase,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  Logical,
+  SeriesAttachedParameter,
+  Time,
+} from 'lightweight-charts';
+import { timeToLogical } from '../../utils/drawings';
+
+type RenderingTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+export interface SessionBand {
+  name: string;
+  start: number;
+  end: number;
+  active: boolean;
+}
+
+export interface SessionBandsState {
+  bands: SessionBand[];
+  hovered: string | null; // Name of the band under the crosshair
+  times: number[]; // Bar times of the series
+}
+
+// Alternating band colors, as RGB for varying the alpha
+const BAND_COLORS = ['59, 130, 246', '139, 92, 246'];
+const BAND_ALPHA = 0.05;
+const HOVER_ALPHA = 0.12;
+const PULSE_ALPHA = 0.1; // Added at the peak of the active band's pulse
+const PULSE_PERIOD_MS = 2000;
+const PULSE_FRAME_MS = 100;
+const FONT = '11px -apple-system, BlinkMacSystemFont, sans-serif';
+
+// Shades each trading session as a vertical band behind the bars, named along
+// the bottom of the pane. The active session's band pulses, repainted on a
+// timer while one is shown.
+export class SessionBandsPrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApiBase<Time> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private state: SessionBandsState = { bands: [], hovered: null, times: [] };
+  private pulse: ReturnType<typeof setInterval> | null = null;
+  private views: ISeriesPrimitivePaneView[] = [{
+    zOrder: () => 'bottom',
+    renderer: () => ({ draw: target => this.draw(target) }),
+  }];
+
+  attached({ chart, requestUpdate }: SeriesAttachedParameter<Time>): void {
+    this.chart = chart;
+    this.requestUpdate = requestUpdate;
+    this.syncPulse();
+  }
+
+  detached(): void {
+    this.chart = null;
+    this.requestUpdate = null;
+    this.syncPulse();
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setState(state: SessionBandsState): void {
+    this.state = state;
+    this.syncPulse();
+    this.requestUpdate?.();
+  }
+
+  private syncPulse(): void {
+    const pulsing = !!this.requestUpdate && this.state.bands.some(band => band.active);
+    if (pulsing && !this.pulse) {
+      this.pulse = setInterval(() => this.requestUpdate?.(), PULSE_FRAME_MS);
+    } else if (!pulsing && this.pulse) {
+      clearInterval(this.pulse);
+      this.pulse = null;
+    }
+  }
+
+  private x(time: number): number | null {
+    const logical = timeToLogical(this.state.times, time);
+    if (logical === null || !this.chart) return null;
+    return this.chart.timeScale().logicalToCoordinate(logical as Logical);
+  }
+
+  private draw(target: RenderingTarget): void {
+    target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+      const phase = (1 - Math.cos((2 * Math.PI * Date.now()) / PULSE_PERIOD_MS)) / 2;
+      ctx.font = FONT;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'bottom';
+
+      this.state.bands.forEach((band, index) => {
+        const left = this.x(band.start);
+        const right = this.x(band.end);
+        if (left === null || right === null || right < 0 || left > mediaSize.width) return;
+
+        const color = BAND_COLORS[index % BAND_COLORS.length];
+        const alpha = (band.name === this.state.hovered ? HOVER_ALPHA : BAND_ALPHA)
+          + (band.active ? PULSE_ALPHA * phase : 0);
+        ctx.fillStyle = `rgba(${color}, ${alpha})`;
+        ctx.fillRect(left, 0, right - left, mediaSize.height);
+
+        ctx.strokeStyle = `rgba(${color}, 0.4)`;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(left, 0);
+        ctx.lineTo(left, mediaSize.height);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        if (ctx.measureText(band.name).width + 8 <= right - left) {
+          ctx.fillStyle = `rgba(${color}, 0.9)`;
+          ctx.fillText(band.name, Math.max(left, 0) + 4, mediaSize.height - 4);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { useEffect, useMemo } from 'react';
+import { useChart } from './ChartContext';
+import { TradingSession } from '../../types';
+import { useTradingSessions } from '../../hooks/useTradingSessions';
+import { istDate, istTime } from '../../utils/marketTime';
+import { sessionProfile } from '../../utils/profile';
+
+// High and low of the most recent completed session, the levels breakouts are
+// measured against, with its profile's point of control and value area
+export default function SessionLevelsLayer() {
+  const { series, symbol, date, candles, replayTime, isRemoved } = useChart();
+  const sessions = useTradingSessions(date);
+
+  // In a replay, only sessions that had ended by the replay time count
+  const completed = (session: TradingSession) => replayTime !== null && date
+    ? istTime(date, session.end_time) <= replayTime
+    : session.is_completed;
+  const session = [...sessions].reverse().find(s => completed(s) && s.session_data?.[symbol]);
+  const levels = session?.session_data?.[symbol];
+  const name = session?.name;
+  const high = levels?.high ?? null;
+  const low = levels?.low ?? null;
+
+  const latest = candles[candles.length - 1];
+  const profile = useMemo(
+    () => session && latest ? sessionProfile(candles, session, istDate(latest.time)) : null,
+    [candles, session, latest]
+  );
+  const poc = profile?.poc ?? null;
+  const vah = profile?.vah ?? null;
+  const val = profile?.val ?? null;
+
+  useEffect(() => {
+    if (!name) return;
+
+    const lines = [
+      high !== null && series.createPriceLine({ price: high, color: '#f59e0b', lineWidth: 1, lineStyle: 2, title: `${name} High` }),
+      low !== null && series.createPriceLine({ price: low, color: '#06b6d4', lineWidth: 1, lineStyle: 2, title: `${name} Low` }),
+      poc !== null && series.createPriceLine({ price: poc, color: '#e11d48', lineWidth: 1, lineStyle: 0, title: `${name} POC` }),
+      vah !== null && series.createPriceLine({ price: vah, color: '#3b82f6', lineWidth: 1, lineStyle: 1, title: `${name} VAH` }),
+      val !== null && series.createPriceLine({ price: val, color: '#3b82f6', lineWidth: 1, lineStyle: 1, title: `${name} VAL` }),
+    ];
+
+    return () => {
+      if (isRemoved()) return;
+      lines.forEach(line => {
+        if (line) series.removePriceLine(line);
+      });
+    };
+  }, [series, isRemoved, name, high, low, poc, vah, val]);
+
+  return null;
+}
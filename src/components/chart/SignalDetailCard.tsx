@@ -0,0 +1,90 @@
+import { Target, X } from 'lucide-react';
+import { ChartSignal } from '../../types';
+import { formatIstTime } from '../../utils/marketTime';
+import { riskReward } from '../../utils/signals';
+import { cn } from '../../utils/cn';
+
+interface SignalDetailCardProps {
+  signal: ChartSignal;
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<ChartSignal['status'], string> = {
+  ACTIVE: 'bg-blue-100 text-blue-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  EXPIRED: 'bg-gray-100 text-gray-600',
+};
+
+const formatPrice = (price?: number) => price === undefined
+  ? '-'
+  : price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function Field({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <div className="text-gray-500 dark:text-gray-400">{label}</div>
+      <div className={cn('font-semibold text-gray-900 dark:text-white', className)}>{value}</div>
+    </div>
+  );
+}
+
+// Trade levels and breakout summary of the signal whose marker was clicked
+export default function SignalDetailCard({ signal, onClose }: SignalDetailCardProps) {
+  const summary = signal.breakout_summary;
+  const ratio = signal.entry_price === undefined
+    ? null
+    : riskReward(signal.entry_price, signal.stop_loss, signal.target_1);
+
+  return (
+    <div className="absolute left-14 top-10 z-20 w-72 p-3 rounded-lg shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-xs">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Target className={cn('w-4 h-4', signal.type === 'BUY_CALL' ? 'text-green-600' : 'text-red-600')} />
+          <span className="font-semibold text-sm text-gray-900 dark:text-white">
+            {signal.type.replace('BUY_', '')} {signal.confidence}%
+          </span>
+          <span className={cn('px-1.5 py-0.5 rounded font-medium', STATUS_CLASSES[signal.status])}>{signal.status}</span>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      <div className="mt-1 text-gray-500 dark:text-gray-400">
+        {signal.session_name} • {formatIstTime(signal.time)} IST • ₹{formatPrice(signal.price)}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        <Field label="Entry" value={formatPrice(signal.entry_price)} />
+        <Field label="Stop loss" value={formatPrice(signal.stop_loss)} className="text-red-600" />
+        <Field label="R:R" value={ratio === null ? '-' : `1:${ratio.toFixed(2)}`} />
+        <Field label="Target 1" value={formatPrice(signal.target_1)} className="text-green-600" />
+        <Field label="Target 2" value={formatPrice(signal.target_2)} className="text-green-600" />
+      </div>
+
+      {summary && (
+        <div className="mt-3 pt-2 border-t border-gray-100 dark:border-gray-700">
+          <div className="font-medium text-gray-900 dark:text-white">{summary.display_text}</div>
+          <div className="mt-1 text-gray-500 dark:text-gray-400">
+            {summary.breakout_type} • NIFTY {summary.nifty_status} • Future {summary.future_status}
+          </div>
+          <div className="grid grid-cols-3 gap-2 mt-2">
+            <span />
+            <span className="text-gray-500 dark:text-gray-400">NIFTY</span>
+            <span className="text-gray-500 dark:text-gray-400">Future</span>
+            <span className="text-gray-500 dark:text-gray-400">High</span>
+            <span>{formatPrice(summary.levels.nifty_session_high)}</span>
+            <span>{formatPrice(summary.levels.future_session_high)}</span>
+            <span className="text-gray-500 dark:text-gray-400">Low</span>
+            <span>{formatPrice(summary.levels.nifty_session_low)}</span>
+            <span>{formatPrice(summary.levels.future_session_low)}</span>
+            <span className="text-gray-500 dark:text-gray-400">At signal</span>
+            <span>{formatPrice(summary.levels.nifty_price_at_signal)}</span>
+            <span>{formatPrice(summary.levels.future_price_at_signal)}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-2 text-gray-500 dark:text-gray-400">{signal.reason}</div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Target } from 'lucide-react';
+import { MouseEventParams, Time } from 'lightweight-charts';
+import { useChart } from './ChartContext';
+import { SignalLevelsPrimitive } from './SignalLevelsPrimitive';
+import SignalDetailCard from './SignalDetailCard';
+import { useChartSignals } from '../../hooks/useChartSignals';
+import { ChartSignal } from '../../types';
+import { candleTime } from '../../utils/candles';
+import { signalStatusAt } from '../../utils/signals';
+
+const ALERT_DURATION = 10000;
+
+const SIGNAL_COLORS: Record<ChartSignal['type'], string> = {
+  BUY_CALL: '#10b981',
+  BUY_PUT: '#ef4444',
+};
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Breakout signal markers for the chart's day with their entry, stop-loss and
+// target lines, a banner for signals arriving live, and a detail card for the
+// marker clicked
+export default function SignalLayer() {
+  const { chart, series, symbol, timeframe, date, candles, liveCandle, replayTime, isRemoved } = useChart();
+  const [activeSignal, setActiveSignal] = useState<ChartSignal | null>(null);
+  const signals = useChartSignals(symbol, timeframe, date, setActiveSignal);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const lastReplayTimeRef = useRef<number | null>(null);
+  const primitiveRef = useRef<SignalLevelsPrimitive | null>(null);
+
+  // A replay shows each signal from the moment it was generated, and resolves
+  // it from the bars shown rather than by its final status
+  const visibleSignals = useMemo(
+    () => replayTime === null ? signals : signals
+      .filter(signal => signal.time < replayTime)
+      .map(signal => ({ ...signal, status: signalStatusAt(signal, candles) })),
+    [signals, replayTime, candles]
+  );
+  const selectedSignal = visibleSignals.find(signal => signal.id === selectedId) ?? null;
+
+  const times = useMemo(() => {
+    const result = candles.map(candle => candle.time);
+    if (liveCandle && liveCandle.time > (result[result.length - 1] ?? 0)) result.push(liveCandle.time);
+    return result;
+  }, [candles, liveCandle]);
+
+  useEffect(() => {
+    setSelectedId(null);
+  }, [symbol, timeframe, date]);
+
+  // Announce signals the replay reaches as if they had just arrived
+  useEffect(() => {
+    const previous = lastReplayTimeRef.current;
+    lastReplayTimeRef.current = replayTime;
+    if (replayTime === null || previous === null || replayTime <= previous) return;
+
+    const reached = visibleSignals.filter(signal => signal.time >= previous);
+    if (reached.length) setActiveSignal(reached[reached.length - 1]);
+  }, [visibleSignals, replayTime]);
+
+  useEffect(() => {
+    if (!activeSignal) return;
+    const timer = setTimeout(() => setActiveSignal(null), ALERT_DURATION);
+    return () => clearTimeout(timer);
+  }, [activeSignal]);
+
+  // Markers sit on the bar containing the signal
+  useEffect(() => {
+    const markers = visibleSignals
+      .map(signal => ({
+        time: candleTime(signal.time, timeframe) as Time,
+        position: signal.breakout_type === 'HIGH' ? 'aboveBar' as const : 'belowBar' as const,
+        color: SIGNAL_COLORS[signal.type],
+        shape: signal.type === 'BUY_CALL' ? 'arrowUp' as const : 'arrowDown' as const,
+        text: `${signal.type.replace('BUY_', '')} ${signal.confidence}%`,
+        id: signal.id,
+      }))
+      .sort((a, b) => (a.time as number) - (b.time as number));
+    series.setMarkers(markers);
+
+    return () => {
+      if (!isRemoved()) series.setMarkers([]);
+    };
+  }, [series, visibleSignals, timeframe, isRemoved]);
+
+  useEffect(() => {
+    const primitive = new SignalLevelsPrimitive();
+    series.attachPrimitive(primitive);
+    primitiveRef.current = primitive;
+
+    return () => {
+      primitiveRef.current = null;
+      if (!isRemoved()) series.detachPrimitive(primitive);
+    };
+  }, [series, isRemoved]);
+
+  useEffect(() => {
+    const levels = visibleSignals.flatMap(signal => signal.entry_price === undefined ? [] : [{
+      id: signal.id,
+      time: candleTime(signal.time, timeframe),
+      status: signal.status,
+      entry: signal.entry_price,
+      stop: signal.stop_loss,
+      target1: signal.target_1,
+      target2: signal.target_2,
+    }]);
+    primitiveRef.current?.setState({ signals: levels, selectedId, times });
+  }, [series, visibleSignals, timeframe, selectedId, times]);
+
+  // Markers carry their signal's id, reported back for the marker clicked
+  useEffect(() => {
+    const handleClick = (param: MouseEventParams) => {
+      const id = param.hoveredObjectId;
+      if (typeof id === 'string' && signals.some(signal => signal.id === id)) setSelectedId(id);
+    };
+
+    chart.subscribeClick(handleClick);
+    return () => {
+      if (!isRemoved()) chart.unsubscribeClick(handleClick);
+    };
+  }, [chart, signals, isRemoved]);
+
+  return (
+    <>
+      {activeSignal && <SignalBanner signal={activeSignal} />}
+      {selectedSignal && <SignalDetailCard signal={selectedSignal} onClose={() => setSelectedId(null)} />}
+    </>
+  );
+}
+
+function SignalBanner({ signal }: { signal: ChartSignal }) {
+  return (
+    <div className={`absolute left-1/2 top-2 z-10 -translate-x-1/2 px-3 py-2 rounded-lg border-l-4 shadow text-sm ${
+      signal.type === 'BUY_CALL'
+        ? 'bg-green-50 border-green-400 text-green-800'
+        : 'bg-red-50 border-red-400 text-red-800'
+    }`}>
+      <div className="flex items-center space-x-2">
+        <Target className="w-4 h-4" />
+        <span className="font-semibold">
+          {signal.type.replace('BUY_', '')} Signal - {signal.confidence}% Confidence
+        </span>
+        <span>{signal.session_name} • ₹{formatPrice(signal.price)}</span>
+      </div>
+      <div className="mt-1 opacity-80">{signal.reason}</div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import {
+  IChartApiBase,
+  ISeriesApi,
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time,
+} from 'lightweight-charts';
+import { ChartSignal } from '../../types';
+import { timeToLogical } from '../../utils/drawings';
+import { riskReward } from '../../utils/signals';
+
+type RenderingTarget = Parameters<ISeriesPrimitivePaneRenderer['draw']>[0];
+
+export interface SignalLevels {
+  id: string;
+  time: number; // Bar the signal fired on
+  status: ChartSignal['status'];
+  entry: number;
+  stop?: number;
+  target1?: number;
+  target2?: number;
+}
+
+export interface SignalLevelsState {
+  signals: SignalLevels[];
+  selectedId: string | null;
+  times: number[]; // Bar times of the series
+}
+
+const FONT = '10px -apple-system, BlinkMacSystemFont, sans-serif';
+
+// Active signals dashed over shaded zones, completed ones solid, expired ones greyed out
+const STYLES: Record<ChartSignal['status'], {
+  entry: string;
+  stop: string;
+  target: string;
+  dash: number[];
+  zoneAlpha: number;
+}> = {
+  ACTIVE: { entry: '#3b82f6', stop: '#ef4444', target: '#10b981', dash: [6, 4], zoneAlpha: 0.12 },
+  COMPLETED: { entry: '#3b82f6', stop: '#ef4444', target: '#10b981', dash: [], zoneAlpha: 0.06 },
+  EXPIRED: { entry: '#9ca3af', stop: '#9ca3af', target: '#9ca3af', dash: [2, 3], zoneAlpha: 0.05 },
+};
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Paints each breakout signal's entry, stop-loss and targets from the bar it
+// fired on to the right edge, with the risk and reward zones between them shaded
+export class SignalLevelsPrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApiBase<Time> | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private state: SignalLevelsState = { signals: [], selectedId: null, times: [] };
+  private views: ISeriesPrimitivePaneView[] = [{ renderer: () => ({ draw: target => this.draw(target) }) }];
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time>): void {
+    this.chart = chart;
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+  }
+
+  detached(): void {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  setState(state: SignalLevelsState): void {
+    this.state = state;
+    this.requestUpdate?.();
+  }
+
+  private draw(target: RenderingTarget): void {
+    const { chart, series } = this;
+    if (!chart || !series) return;
+
+    target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+      const right = mediaSize.width;
+      ctx.font = FONT;
+
+      this.state.signals.forEach(signal => {
+        const logical = timeToLogical(this.state.times, signal.time);
+        const left = logical === null ? null : chart.timeScale().logicalToCoordinate(logical as Logical);
+        const entryY = series.priceToCoordinate(signal.entry);
+        if (left === null || entryY === null || left >= right) return;
+
+        const style = STYLES[signal.status];
+        const selected = signal.id === this.state.selectedId;
+        const y = (price?: number) => price === undefined ? null : series.priceToCoordinate(price);
+        const stopY = y(signal.stop);
+        const target1Y = y(signal.target1);
+        const target2Y = y(signal.target2);
+
+        const zone = (from: number | null, to: number | null, color: string, alpha: number) => {
+          if (from === null || to === null) return;
+          ctx.globalAlpha = alpha;
+          ctx.fillStyle = color;
+          ctx.fillRect(left, Math.min(from, to), right - left, Math.abs(to - from));
+          ctx.globalAlpha = 1;
+        };
+        zone(entryY, stopY, style.stop, style.zoneAlpha);
+        zone(entryY, target1Y, style.target, style.zoneAlpha);
+        zone(target1Y, target2Y, style.target, style.zoneAlpha / 2);
+
+        const line = (lineY: number | null, color: string, label: string) => {
+          if (lineY === null) return;
+          ctx.strokeStyle = color;
+          ctx.fillStyle = color;
+          ctx.lineWidth = selected ? 2 : 1;
+          ctx.setLineDash(style.dash);
+          ctx.beginPath();
+          ctx.moveTo(left, lineY);
+          ctx.lineTo(right, lineY);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.textAlign = 'right';
+          ctx.textBaseline = 'bottom';
+          ctx.fillText(label, right - 4, lineY - 2);
+        };
+        line(entryY, style.entry, `Entry ${formatPrice(signal.entry)}`);
+        if (signal.stop !== undefined) line(stopY, style.stop, `SL ${formatPrice(signal.stop)}`);
+        if (signal.target1 !== undefined) line(target1Y, style.target, `T1 ${formatPrice(signal.target1)}`);
+        if (signal.target2 !== undefined) line(target2Y, style.target, `T2 ${formatPrice(signal.target2)}`);
+
+        const ratio = riskReward(signal.entry, signal.stop, signal.target1);
+        if (ratio !== null && target1Y !== null) {
+          ctx.fillStyle = style.target;
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(`R:R 1:${ratio.toFixed(2)}`, left + 4, (entryY + target1Y) / 2);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,540 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AlertTriangle, BarChart3, Clock, History, Loader2, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+import { createChart, ColorType, IChartApi, ISeriesApi, LogicalRange, TickMarkType, Time } from 'lightweight-charts';
+import { ChartCandle, ChartConfig, ChartLayerId } from '../../types';
+import { useChartData } from '../../hooks/useChartData';
+import { useBarReplay } from '../../hooks/useBarReplay';
+import { useChartLink } from '../../hooks/useChartLink';
+import { ChartContext, ChartContextType } from './ChartContext';
+import { CHART_LAYERS, LAYER_IDS } from './layers';
+import ChartTooltip from './ChartTooltip';
+import ChartPanes from './ChartPanes';
+import PaneMenu from './PaneMenu';
+import CompareMenu from './CompareMenu';
+import CompareLayer from './CompareLayer';
+import LinkMenu from './LinkMenu';
+import DateNavigator from './DateNavigator';
+import ReplayControls from './ReplayControls';
+import { TIMEFRAMES, Timeframe, isIntraday, withLiveCandle } from '../../utils/candles';
+import { BarBuilder, CHART_TYPES, CHART_TYPE_IDS } from '../../utils/chartTypes';
+import { currentTradingDay, formatIstDate, formatIstTime, istDate, istTime, previousTradingDay } from '../../utils/marketTime';
+import { PRICE_SCALE_WIDTH, PaneId, isPaneId } from '../../utils/panes';
+import { cn } from '../../utils/cn';
+
+interface TradingChartProps {
+  symbol: string;
+  displayName?: string;
+  config: ChartConfig;
+  onConfigChange: (changes: Partial<ChartConfig>) => void;
+  autoRefresh?: boolean;
+  refreshInterval?: number;
+  height?: string; // CSS height of the price pane
+}
+
+const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  '1m': '1M',
+  '5m': '5M',
+  '15m': '15M',
+  '1h': '1H',
+  '1d': '1D',
+  '1w': '1W',
+  '1M': '1MO',
+};
+
+// Older bars are fetched once fewer than this many remain left of the view
+const HISTORY_PREFETCH_BARS = 10;
+
+const formatPrice = (price: number) =>
+  price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function toggle<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter(other => other !== item) : [...items, item];
+}
+
+function seriesPoint(bar: ChartCandle, line: boolean) {
+  return line
+    ? { time: bar.time as Time, value: bar.close }
+    : { time: bar.time as Time, open: bar.open, high: bar.high, low: bar.low, close: bar.close };
+}
+
+// Renko brick and range bar size; committed on blur or Enter, empty sizes from the ATR
+function BoxSizeInput({ value, atrSize, onChange }: {
+  value: number | null;
+  atrSize: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  useEffect(() => {
+    setDraft(value?.toString() ?? '');
+  }, [value]);
+
+  const commit = () => {
+    const size = Number(draft);
+    onChange(draft.trim() && size > 0 ? size : null);
+    if (!(size > 0)) setDraft('');
+  };
+
+  return (
+    <input
+      type="number"
+      min="0"
+      step="0.05"
+      value={draft}
+      placeholder={atrSize ? `ATR ${atrSize}` : 'ATR'}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className="w-20 px-1 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+      title="Box size (empty for ATR)"
+    />
+  );
+}
+
+// Axis labels in IST: dates at day boundaries and above, times within a day
+const tickMarkFormatter = (time: Time, type: TickMarkType) => {
+  const epoch = time as number;
+  switch (type) {
+    case TickMarkType.Year:
+      return formatIstDate(epoch).split(' ').pop() || '';
+    case TickMarkType.Month:
+    case TickMarkType.DayOfMonth:
+      return formatIstDate(epoch).split(' ').slice(0, 2).join(' ');
+    default:
+      return formatIstTime(epoch, type === TickMarkType.TimeWithSeconds);
+  }
+};
+
+// The one chart used across the app. Candles come from useChartData and are
+// updated bar by bar from the live feed; overlays are pluggable layers (see
+// ./layers) and oscillators open in sub-panes, both chosen by ChartConfig.
+export default function TradingChart({
+  symbol,
+  displayName,
+  config,
+  onConfigChange,
+  autoRefresh = true,
+  refreshInterval = 30000,
+  height = '500px',
+}: TradingChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const removedRef = useRef(false);
+  const fittedRef = useRef<string | null>(null);
+  const [chart, setChart] = useState<IChartApi | null>(null);
+  const [series, setSeries] = useState<ISeriesApi<'Candlestick' | 'Line'> | null>(null);
+  // A past trading day under review; null follows today live
+  const [date, setDate] = useState<string | null>(null);
+  const [replayOpen, setReplayOpen] = useState(false);
+  const { timeframe } = config;
+  const lineSeries = config.type === 'line';
+  const timeBased = CHART_TYPES[config.type].timeBased;
+
+  const {
+    data: loaded,
+    liveCandle,
+    loading,
+    error,
+    lastUpdate,
+    refresh,
+    loadOlder,
+    loadingHistory,
+    isRealTime,
+    dataSource,
+  } = useChartData(symbol, timeframe, {
+    autoRefresh,
+    refreshInterval,
+    enabled: !!symbol,
+    date,
+  });
+
+  // Replay hides every bar after its clock from the chart, layers and panes
+  const replay = useBarReplay(loaded, timeframe);
+  const data = replay.candles;
+  const replayActive = replay.active;
+
+  // Bars of the chart type, derived from the candles; live updates go through the same builder
+  const builder = useMemo(() => new BarBuilder(config.type, config.boxSize), [config.type, config.boxSize]);
+  const plotted = useMemo(() => builder.reset(data), [builder, data]);
+  const plottedCountRef = useRef(0);
+  // Renko, line break and range bars revised by the live feed, for layers and panes
+  const [live, setLive] = useState<{ base: ChartCandle[]; bars: ChartCandle[] } | null>(null);
+  const bars = live && live.base === plotted ? live.bars : plotted;
+
+  const isRemoved = useCallback(() => removedRef.current, []);
+
+  // Create the chart once; series and layers attach to it
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const instance = createChart(containerRef.current, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: '#374151',
+      },
+      grid: {
+        vertLines: { color: '#e5e7eb' },
+        horzLines: { color: '#e5e7eb' },
+      },
+      crosshair: {
+        mode: 1,
+        vertLine: { color: '#3b82f6', width: 1, style: 2 },
+        horzLine: { color: '#3b82f6', width: 1, style: 2 },
+      },
+      rightPriceScale: {
+        borderColor: '#e5e7eb',
+        minimumWidth: PRICE_SCALE_WIDTH,
+        scaleMargins: { top: 0.1, bottom: 0.1 },
+      },
+      timeScale: {
+        borderColor: '#e5e7eb',
+        timeVisible: true,
+        secondsVisible: false,
+        rightOffset: 12,
+        barSpacing: 12,
+        minBarSpacing: 2,
+        borderVisible: false,
+        tickMarkFormatter,
+      },
+      watermark: { visible: false },
+    });
+
+    removedRef.current = false;
+    setChart(instance);
+
+    return () => {
+      removedRef.current = true;
+      setChart(null);
+      instance.remove();
+    };
+  }, []);
+
+  // Crosshair labels show the date for daily and longer bars, the time within a day otherwise
+  useEffect(() => {
+    if (!chart) return;
+    const intraday = isIntraday(timeframe);
+    chart.applyOptions({
+      localization: {
+        timeFormatter: (time: Time) => intraday
+          ? `${formatIstDate(time as number)} ${formatIstTime(time as number)}`
+          : formatIstDate(time as number),
+      },
+    });
+  }, [chart, timeframe]);
+
+  // Main series; switching between line and bars replaces it
+  useEffect(() => {
+    if (!chart) return;
+
+    const main = lineSeries
+      ? chart.addLineSeries({ color: '#3b82f6', lineWidth: 2 })
+      : chart.addCandlestickSeries({
+          upColor: '#10b981',
+          downColor: '#ef4444',
+          borderDownColor: '#ef4444',
+          borderUpColor: '#10b981',
+          wickDownColor: '#ef4444',
+          wickUpColor: '#10b981',
+        });
+    fittedRef.current = null;
+    setSeries(main);
+
+    return () => {
+      setSeries(null);
+      if (!removedRef.current) chart.removeSeries(main);
+    };
+  }, [chart, lineSeries]);
+
+  useEffect(() => {
+    if (!chart || !series) return;
+
+    series.setData(plotted.map(bar => seriesPoint(bar, lineSeries)));
+    plottedCountRef.current = plotted.length;
+
+    // Refreshes keep the user's zoom; a new symbol, timeframe, day or chart
+    // type starts fitted, except in replay where the bars would stretch as they arrive
+    const key = `${symbol}:${timeframe}:${date}:${config.type}:${config.boxSize}`;
+    if (plotted.length && fittedRef.current !== key) {
+      if (replayActive) chart.timeScale().scrollToRealTime();
+      else chart.timeScale().fitContent();
+      fittedRef.current = key;
+    }
+  }, [chart, series, plotted, lineSeries, symbol, timeframe, date, config.type, config.boxSize, replayActive]);
+
+  // A replay runs on one day at intraday bars; moving off either ends it
+  const { clock: replayClock, stop: stopReplay } = replay;
+  useEffect(() => {
+    if (replayClock !== null && (date !== istDate(replayClock) || !isIntraday(timeframe))) stopReplay();
+  }, [date, timeframe, replayClock, stopReplay]);
+
+  // Scrolling back to the oldest bar prepends the day before. The time scale
+  // keeps its offset from the latest bar, so the view stays where it was.
+  useEffect(() => {
+    if (!chart) return;
+
+    const handleRange = (range: LogicalRange | null) => {
+      if (range && range.from < HISTORY_PREFETCH_BARS) loadOlder();
+    };
+
+    chart.timeScale().subscribeVisibleLogicalRangeChange(handleRange);
+    return () => {
+      if (!removedRef.current) chart.timeScale().unsubscribeVisibleLogicalRangeChange(handleRange);
+    };
+  }, [chart, loadOlder]);
+
+  // Apply live bars incrementally instead of re-setting the whole series. A
+  // revised candle can take back bricks or range bars it printed, which only
+  // a full reset removes.
+  useEffect(() => {
+    if (!series || !liveCandle) return;
+
+    const update = builder.update(liveCandle);
+    if (update.from < plottedCountRef.current - 1 || update.bars.length < plottedCountRef.current) {
+      series.setData(update.bars.map(bar => seriesPoint(bar, lineSeries)));
+    } else {
+      update.bars.slice(update.from).forEach(bar => series.update(seriesPoint(bar, lineSeries)));
+    }
+    plottedCountRef.current = update.bars.length;
+    if (!timeBased) setLive({ base: plotted, bars: update.bars });
+  }, [series, liveCandle, builder, plotted, lineSeries, timeBased]);
+
+  // Layers and panes read candles on time-based charts; the other types' bars
+  // have times of their own, so they get those bars instead
+  const context = useMemo<ChartContextType | null>(() => chart && series ? {
+    chart,
+    series,
+    symbol,
+    timeframe,
+    date,
+    candles: timeBased ? data : bars,
+    liveCandle: timeBased ? liveCandle : null,
+    replayTime: replay.clock,
+    isRemoved,
+  } : null, [chart, series, symbol, timeframe, date, timeBased, data, bars, liveCandle, replay.clock, isRemoved]);
+
+  // Linked charts place their crosshair on the bar holding the other chart's time
+  const linkedBars = useMemo(
+    () => timeBased ? withLiveCandle(bars, liveCandle) : bars,
+    [timeBased, bars, liveCandle]
+  );
+  useChartLink(config.linkGroup, chart, series, linkedBars, timeframe, (tf) => {
+    if (tf !== timeframe) onConfigChange({ timeframe: tf });
+  }, isRemoved);
+
+  const main = useMemo(() => chart && series ? { chart, series } : null, [chart, series]);
+  const panes = config.indicators.filter(isPaneId);
+  const compare = config.compare.filter(other => other !== symbol);
+  const hasData = data.length > 0;
+
+  // Header and summary figures cover the day of the latest bar on intraday charts
+  const latest = liveCandle ?? data[data.length - 1];
+  const day = latest && isIntraday(timeframe)
+    ? data.filter(candle => istDate(candle.time) === istDate(latest.time))
+    : data;
+  const change = latest && day.length ? latest.close - day[0].open : 0;
+  const changePercent = latest && day.length ? (change / day[0].open) * 100 : 0;
+
+  const startReplay = (time: string) => {
+    const replayDate = date ?? previousTradingDay(currentTradingDay());
+    setDate(replayDate);
+    replay.start(istTime(replayDate, time));
+  };
+
+  const closeReplay = () => {
+    replay.stop();
+    setReplayOpen(false);
+  };
+
+  const toggleLayer = (layer: ChartLayerId) => onConfigChange({ layers: toggle(config.layers, layer) });
+  const togglePane = (pane: PaneId) => onConfigChange({ indicators: toggle(config.indicators, pane) });
+
+  return (
+    <div className="w-full bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center space-x-3">
+          <BarChart3 className="w-5 h-5 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {displayName || symbol}
+            </h3>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {latest ? formatPrice(latest.close) : 'N/A'}
+              </span>
+              {hasData && (
+                <div className={cn(
+                  'flex items-center space-x-1 text-sm',
+                  change >= 0 ? 'text-green-600' : 'text-red-600'
+                )}>
+                  {change >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                  <span>{formatPrice(Math.abs(change))} ({Math.abs(changePercent).toFixed(2)}%)</span>
+                </div>
+              )}
+              {(isRealTime || liveCandle) && (
+                <div className="flex items-center space-x-1 text-xs text-green-600">
+                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                  <span>Live</span>
+                </div>
+              )}
+              {dataSource && <span className="text-xs text-blue-600">{dataSource}</span>}
+            </div>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center gap-2">
+          {LAYER_IDS.map(layer => (
+            <button
+              key={layer}
+              onClick={() => toggleLayer(layer)}
+              className={cn(
+                'px-2 py-1 text-xs rounded',
+                config.layers.includes(layer) ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-600'
+              )}
+            >
+              {CHART_LAYERS[layer].label}
+            </button>
+          ))}
+          <PaneMenu panes={panes} onToggle={togglePane} />
+          <CompareMenu symbol={symbol} compare={config.compare} scale={config.compareScale} onChange={onConfigChange} />
+          <LinkMenu group={config.linkGroup} onChange={linkGroup => onConfigChange({ linkGroup })} />
+          <DateNavigator date={date} onChange={setDate} />
+          <button
+            onClick={() => (replayOpen ? closeReplay() : setReplayOpen(true))}
+            disabled={!isIntraday(timeframe)}
+            className={cn(
+              'p-1 rounded disabled:opacity-50',
+              replayOpen ? 'bg-amber-100 text-amber-700' : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+            )}
+            title={isIntraday(timeframe) ? 'Bar replay' : 'Replay needs an intraday timeframe'}
+          >
+            <History className="w-4 h-4" />
+          </button>
+          <select
+            value={config.type}
+            onChange={(e) => onConfigChange({ type: e.target.value as ChartConfig['type'] })}
+            className="px-1 py-1 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+            title="Chart type"
+          >
+            {CHART_TYPE_IDS.map(type => (
+              <option key={type} value={type}>{CHART_TYPES[type].label}</option>
+            ))}
+          </select>
+          {CHART_TYPES[config.type].sized && (
+            <BoxSizeInput
+              value={config.boxSize}
+              atrSize={config.boxSize === null ? builder.boxSizeUsed() : null}
+              onChange={boxSize => onConfigChange({ boxSize })}
+            />
+          )}
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+            title="Refresh data"
+          >
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+          </button>
+          <Clock className="w-4 h-4 text-gray-500" />
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+            {TIMEFRAMES.map(tf => (
+              <button
+                key={tf}
+                onClick={() => onConfigChange({ timeframe: tf })}
+                className={cn(
+                  'px-2 py-1 text-xs font-medium rounded-md transition-colors',
+                  timeframe === tf
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                )}
+              >
+                {TIMEFRAME_LABELS[tf]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {replayOpen && <ReplayControls replay={replay} onStart={startReplay} onClose={closeReplay} />}
+
+      {/* Price pane */}
+      <div className="relative w-full" style={{ height }}>
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white dark:bg-gray-800 bg-opacity-75 z-30">
+            <div className="flex items-center space-x-2">
+              <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">Loading chart data...</span>
+            </div>
+          </div>
+        )}
+
+        {loadingHistory && (
+          <div className="absolute left-2 bottom-8 z-20 flex items-center space-x-1 px-2 py-1 rounded bg-white/90 dark:bg-gray-800/90 shadow text-xs text-gray-600 dark:text-gray-400">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            <span>Loading older bars...</span>
+          </div>
+        )}
+
+        <div ref={containerRef} className="w-full h-full border border-gray-200 dark:border-gray-700 rounded-lg" />
+
+        {context && (
+          <ChartContext.Provider value={context}>
+            <ChartTooltip />
+            {config.layers.map(layer => {
+              const Layer = CHART_LAYERS[layer]?.component;
+              return Layer ? <Layer key={layer} /> : null;
+            })}
+            {compare.length > 0 && (
+              <CompareLayer
+                symbols={compare}
+                scale={config.compareScale}
+                onRemove={other => onConfigChange({ compare: config.compare.filter(s => s !== other) })}
+              />
+            )}
+          </ChartContext.Provider>
+        )}
+      </div>
+
+      <ChartPanes
+        main={main}
+        candles={timeBased ? data : bars}
+        liveCandle={timeBased ? liveCandle : null}
+        panes={panes}
+        onRemove={togglePane}
+      />
+
+      {/* Chart Info */}
+      {hasData && (
+        <div className="mt-3 grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+          {[
+            { label: 'Open', value: formatPrice(day[0].open), className: 'text-gray-900 dark:text-white' },
+            { label: 'High', value: formatPrice(Math.max(...day.map(d => d.high))), className: 'text-green-600' },
+            { label: 'Low', value: formatPrice(Math.min(...day.map(d => d.low))), className: 'text-red-600' },
+            { label: 'Close', value: formatPrice(latest.close), className: 'text-gray-900 dark:text-white' },
+            {
+              label: 'Last Update',
+              value: lastUpdate ? formatIstTime(lastUpdate.getTime() / 1000, true) : 'N/A',
+              className: 'text-gray-900 dark:text-white',
+            },
+          ].map(({ label, value, className }) => (
+            <div key={label} className="text-center">
+              <div className="text-gray-500 dark:text-gray-400 text-xs">{label}</div>
+              <div className={cn('font-semibold text-sm', className)}>{value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md">
+          <div className="flex items-center space-x-2 text-red-800">
+            <AlertTriangle className="w-4 h-4" />
+            <span className="text-sm font-medium">Error loading chart data</span>
+          </div>
+          <p className="text-sm text-red-600 mt-1">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useRef } from 'react';
+import { ISeriesApi, Time } from 'lightweight-charts';
+import { useChart } from './ChartContext';
+import { useTradingSessions } from '../../hooks/useTradingSessions';
+import { VwapValue, computeSeries, dailyAnchor, vwap } from '../../utils/indicators';
+import { isIntraday } from '../../utils/candles';
+import { MARKET_OPEN } from '../../utils/marketTime';
+
+type VwapLine = keyof VwapValue;
+
+// VWAP solid, bands dashed at ±1σ and dotted at ±2σ
+const LINES: { key: VwapLine; color: string; lineWidth: 1 | 2; lineStyle: number }[] = [
+  { key: 'vwap', color: '#8b5cf6', lineWidth: 2, lineStyle: 0 },
+  { key: 'upper1', color: '#c4b5fd', lineWidth: 1, lineStyle: 2 },
+  { key: 'lower1', color: '#c4b5fd', lineWidth: 1, lineStyle: 2 },
+  { key: 'upper2', color: '#c4b5fd', lineWidth: 1, lineStyle: 1 },
+  { key: 'lower2', color: '#c4b5fd', lineWidth: 1, lineStyle: 1 },
+];
+
+// Session-anchored VWAP with standard-deviation bands; daily and longer bars have no session to anchor to
+export default function VwapLayer() {
+  const { chart, timeframe, date, candles, liveCandle, isRemoved } = useChart();
+  const sessions = useTradingSessions(date);
+  const [anchor, setAnchor] = useState(MARKET_OPEN);
+  const linesRef = useRef<Record<VwapLine, ISeriesApi<'Line'>> | null>(null);
+  const indicatorRef = useRef<ReturnType<typeof vwap> | null>(null);
+  const intraday = isIntraday(timeframe);
+
+  useEffect(() => {
+    const lines = {} as Record<VwapLine, ISeriesApi<'Line'>>;
+    LINES.forEach(({ key, color, lineWidth, lineStyle }) => {
+      lines[key] = chart.addLineSeries({
+        color,
+        lineWidth,
+        lineStyle,
+        title: key === 'vwap' ? 'VWAP' : '',
+        lastValueVisible: key === 'vwap',
+        priceLineVisible: false,
+        crosshairMarkerVisible: key === 'vwap',
+      });
+    });
+    linesRef.current = lines;
+
+    return () => {
+      linesRef.current = null;
+      if (!isRemoved()) Object.values(lines).forEach(line => chart.removeSeries(line));
+    };
+  }, [chart, isRemoved]);
+
+  useEffect(() => {
+    const lines = linesRef.current;
+    if (!lines) return;
+
+    const indicator = vwap(dailyAnchor(anchor));
+    indicatorRef.current = indicator;
+    const points = intraday ? computeSeries(indicator, candles) : [];
+    LINES.forEach(({ key }) => {
+      lines[key].setData(points.map(({ time, value }) => ({ time: time as Time, value: value[key] })));
+    });
+  }, [chart, candles, intraday, anchor]);
+
+  // Extend with the forming bar
+  useEffect(() => {
+    const lines = linesRef.current;
+    if (!liveCandle || !lines || !indicatorRef.current || !intraday) return;
+
+    const value = indicatorRef.current.update(liveCandle);
+    if (!value) return;
+    LINES.forEach(({ key }) => lines[key].update({ time: liveCandle.time as Time, value: value[key] }));
+  }, [liveCandle, intraday]);
+
+  if (!intraday) return null;
+
+  return (
+    <div className="absolute left-2 top-2 z-10 flex items-center space-x-1 text-xs">
+      <span className="font-medium text-purple-700">VWAP</span>
+      <select
+        value={anchor}
+        onChange={(e) => setAnchor(e.target.value)}
+        className="px-1 py-0.5 text-xs rounded bg-white/80 dark:bg-gray-700/80 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600"
+        title="Anchor VWAP at"
+      >
+        <option value={MARKET_OPEN}>Day open</option>
+        {sessions.filter(session => session.start_time !== MARKET_OPEN).map(session => (
+          <option key={session.name} value={session.start_time}>{session.name} ({session.start_time})</option>
+        ))}
+      </select>
+    </div>
+  );
+}
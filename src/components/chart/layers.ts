@@ -0,0 +1,28 @@
+import { ComponentType } from 'react';
+import { ChartLayerId } from '../../types';
+import VwapLayer from './VwapLayer';
+import SessionLevelsLayer from './SessionLevelsLayer';
+import SignalLayer from './SignalLayer';
+import MovingAverageLayer from './MovingAverageLayer';
+import DrawingLayer from './DrawingLayer';
+import ProfileLayer from './ProfileLayer';
+import SessionBandsLayer from './SessionBandsLayer';
+
+// Overlays a TradingChart can draw on its price pane, toggled through ChartConfig.layers.
+// A layer is a component that reads the chart from useChart() and renders any overlay UI.
+export interface ChartLayer {
+  label: string;
+  component: ComponentType;
+}
+
+export const CHART_LAYERS: Record<ChartLayerId, ChartLayer> = {
+  vwap: { label: 'VWAP', component: VwapLayer },
+  sessionLevels: { label: 'Levels', component: SessionLevelsLayer },
+  sessionBands: { label: 'Sessions', component: SessionBandsLayer },
+  signals: { label: 'Signals', component: SignalLayer },
+  movingAverages: { label: 'SMA', component: MovingAverageLayer },
+  drawings: { label: 'Draw', component: DrawingLayer },
+  profile: { label: 'Profile', component: ProfileLayer },
+};
+
+export const LAYER_IDS = Object.keys(CHART_LAYERS) as ChartLayerId[];
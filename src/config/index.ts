@@ -0,0 +1,106 @@
+// Runtime configuration shared by the API and WebSocket services.
+//
+// Values are resolved in order from:
+//   1. window.__APP_CONFIG__, set by public/config.js at deploy time
+//   2. VITE_* variables baked in at build time
+//   3. Defaults that work behind the Vite dev proxy
+// so the same bundle can be deployed to staging and production by swapping
+// config.js only.
+
+export interface FeatureFlags {
+  mockBackend: boolean;
+  realtime: boolean; // Open the WebSocket connection for live updates
+}
+
+export interface AppConfig {
+  apiBaseUrl: string;
+  wsUrl: string;
+  requestTimeout: number; // ms
+  chartDataTimeout: number; // ms
+  features: FeatureFlags;
+  mock: {
+    seed: string;
+    clock?: string;
+  };
+}
+
+export interface RuntimeConfig {
+  apiBaseUrl?: string;
+  wsUrl?: string;
+  requestTimeout?: number;
+  chartDataTimeout?: number;
+  features?: Partial<FeatureFlags>;
+  mock?: Partial<AppConfig['mock']>;
+}
+
+declare global {
+  interface Window {
+    __APP_CONFIG__?: RuntimeConfig;
+  }
+}
+
+const DEFAULT_API_BASE_URL = '/api/v1';
+const DEFAULT_WS_PATH = '/ws';
+
+function envString(value: string | undefined): string | undefined {
+  return value && value.trim() ? value.trim() : undefined;
+}
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function envBoolean(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === '') return fallback;
+  return value === 'true' || value === '1';
+}
+
+// Turns a relative or http(s) URL into an absolute ws(s) URL. Relative URLs
+// follow the page, so an https deployment automatically gets wss.
+export function toWebSocketUrl(url: string, base: string = window.location.href): string {
+  const resolved = new URL(url, base);
+  if (resolved.protocol === 'https:') resolved.protocol = 'wss:';
+  if (resolved.protocol === 'http:') resolved.protocol = 'ws:';
+  return resolved.toString();
+}
+
+// Without an explicit WS URL, connect to /ws on the API's origin
+function deriveWsUrl(apiBaseUrl: string): string {
+  const apiOrigin = new URL(apiBaseUrl, window.location.href).origin;
+  return toWebSocketUrl(DEFAULT_WS_PATH, apiOrigin);
+}
+
+function resolveConfig(): AppConfig {
+  const env = import.meta.env;
+  const runtime = (typeof window !== 'undefined' && window.__APP_CONFIG__) || {};
+
+  const apiBaseUrl = runtime.apiBaseUrl || envString(env.VITE_API_BASE_URL) || DEFAULT_API_BASE_URL;
+  const wsUrl = runtime.wsUrl || envString(env.VITE_WS_URL);
+
+  return {
+    apiBaseUrl: apiBaseUrl.replace(/\/+$/, ''),
+    wsUrl: wsUrl ? toWebSocketUrl(wsUrl) : deriveWsUrl(apiBaseUrl),
+    requestTimeout: runtime.requestTimeout || envNumber(env.VITE_API_TIMEOUT_MS, 30000),
+    chartDataTimeout: runtime.chartDataTimeout || envNumber(env.VITE_CHART_TIMEOUT_MS, 45000),
+    features: {
+      mockBackend: runtime.features?.mockBackend ?? envBoolean(env.VITE_MOCK_BACKEND, false),
+      realtime: runtime.features?.realtime ?? envBoolean(env.VITE_REALTIME, true),
+    },
+    mock: {
+      seed: runtime.mock?.seed || envString(env.VITE_MOCK_SEED) || 'traderx',
+      clock: runtime.mock?.clock || envString(env.VITE_MOCK_CLOCK),
+    },
+  };
+}
+
+export const config: Readonly<AppConfig> = Object.freeze(resolveConfig());
+
+// WebSocket URL for a connection, with the auth token as a query parameter
+export function buildWsUrl(token?: string | null): string {
+  const url = new URL(config.wsUrl);
+  if (token) url.searchParams.set('token', token);
+  return url.toString();
+}
+
+export default config;
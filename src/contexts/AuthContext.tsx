@@ -0,0 +1,122 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { LoginCredentials, User } from '../types';
+import { apiService } from '../services/api';
+import { tokenStore } from '../services/tokenStore';
+import { drawingStore } from '../services/drawingStore';
+import { workspaceStore } from '../services/workspaceStore';
+
+export type AuthStatus = 'loading' | 'authenticated' | 'anonymous';
+
+interface AuthContextType {
+  user: User | null;
+  status: AuthStatus;
+  login: (credentials: LoginCredentials) => Promise<User>;
+  register: (data: { email: string; password: string; name: string }) => Promise<User>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [status, setStatus] = useState<AuthStatus>(() =>
+    tokenStore.getAccessToken() ? 'loading' : 'anonymous'
+  );
+
+  // Chart drawings and workspaces follow the account across devices, and stay
+  // with it when someone else signs in on this browser. The stores switch
+  // before the user is set, so pages never read them for the previous account.
+  const changeUser = useCallback((nextUser: User | null) => {
+    drawingStore.setUser(nextUser?.id ?? null);
+    workspaceStore.setUser(nextUser?.id ?? null);
+    if (nextUser) {
+      drawingStore.merge(nextUser.preferences.drawings);
+      workspaceStore.merge(nextUser.preferences.workspaces);
+    }
+    setUser(nextUser);
+  }, []);
+
+  // Hydrate the user from a stored session on boot
+  useEffect(() => {
+    if (!tokenStore.getAccessToken()) return;
+
+    let cancelled = false;
+    apiService.getCurrentUser()
+      .then((currentUser) => {
+        if (cancelled) return;
+        changeUser(currentUser);
+        setStatus('authenticated');
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn('⚠️ Could not restore the stored session:', error);
+        // A rejected token ends the session; network errors keep it for the next load
+        if (error.response?.status === 401) {
+          tokenStore.clear('expired');
+        }
+        changeUser(null);
+        setStatus('anonymous');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [changeUser]);
+
+  // Sign out here when the session ends elsewhere (failed refresh, another tab)
+  useEffect(() => {
+    return tokenStore.subscribe((tokens) => {
+      if (!tokens) {
+        changeUser(null);
+        setStatus('anonymous');
+      }
+    });
+  }, [changeUser]);
+
+  const login = useCallback(async (credentials: LoginCredentials) => {
+    const response = await apiService.login(credentials);
+    const currentUser = response.user ?? await apiService.getCurrentUser();
+    changeUser(currentUser);
+    setStatus('authenticated');
+    return currentUser;
+  }, [changeUser]);
+
+  const register = useCallback(async (data: { email: string; password: string; name: string }) => {
+    await apiService.register(data);
+    return login({ email: data.email, password: data.password });
+  }, [login]);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiService.logout();
+    } catch (error) {
+      console.warn('⚠️ Logout request failed, clearing the local session anyway:', error);
+    }
+  }, []);
+
+  const value: AuthContextType = {
+    user,
+    status,
+    login,
+    register,
+    logout,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { ChartCandle } from '../types';
+import { Timeframe, timeframeSeconds } from '../utils/candles';
+import { MARKET_CLOSE, istDate, istTime } from '../utils/marketTime';
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+export interface BarReplay {
+  active: boolean;
+  playing: boolean;
+  finished: boolean;
+  speed: number;
+  clock: number | null; // Replay time; bars closing after it and later signals are hidden
+  candles: ChartCandle[]; // The bars shown, all of them outside replay
+  start: (from: number) => void;
+  stop: () => void;
+  play: () => void;
+  pause: () => void;
+  step: () => void;
+  setSpeed: (speed: number) => void;
+}
+
+// Plays intraday bars forward one at a time from a chosen moment. At 1x a bar
+// takes as long as it covers in the market, so 60x shows a 1m bar per second.
+// The clock only moves to bar closes, so switching timeframes mid-replay keeps
+// the same moment.
+export function useBarReplay(candles: ChartCandle[], timeframe: Timeframe): BarReplay {
+  const [clock, setClock] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(10);
+  const size = timeframeSeconds(timeframe);
+
+  // The short last bar of the day closes with the market
+  const closeOf = useCallback((time: number) => Math.min(
+    time + (size ?? 0),
+    istTime(istDate(time), MARKET_CLOSE)
+  ), [size]);
+
+  const shown = useMemo(
+    () => clock === null ? candles : candles.filter(candle => closeOf(candle.time) <= clock),
+    [candles, clock, closeOf]
+  );
+  const next = clock === null ? undefined : candles.find(candle => closeOf(candle.time) > clock);
+
+  const step = useCallback(() => {
+    if (next) setClock(closeOf(next.time));
+  }, [next, closeOf]);
+
+  useEffect(() => {
+    if (!playing || !size) return;
+    if (!next) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(step, (size * 1000) / speed);
+    return () => clearTimeout(timer);
+  }, [playing, next, size, speed, step]);
+
+  const start = useCallback((from: number) => {
+    setClock(from);
+    setPlaying(false);
+  }, []);
+
+  const stop = useCallback(() => {
+    setClock(null);
+    setPlaying(false);
+  }, []);
+
+  const play = useCallback(() => setPlaying(true), []);
+  const pause = useCallback(() => setPlaying(false), []);
+
+  return {
+    active: clock !== null,
+    playing,
+    finished: clock !== null && !next,
+    speed,
+    clock,
+    candles: shown,
+    start,
+    stop,
+    play,
+    pause,
+    step,
+    setSpeed,
+  };
+}
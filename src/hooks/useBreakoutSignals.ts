@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { BreakoutSignal, SessionSignals } from '../types';
+import { BreakoutSignal, SessionSignals, TradingSession } from '../types';
 import { apiService } from '../services/api';
 
 interface UseBreakoutSignalsOptions {
@@ -28,25 +28,14 @@ export function useBreakoutSignals(options: UseBreakoutSignalsOptions = {}) {
     
     try {
       // Use today-only endpoint which pre-filters current day data
-      const todayResponse = await apiService.getTodaySignals();
-      const todaySignals = todayResponse.all_signals || todayResponse.signals || [];
+      const { signals: todaySignals } = await apiService.getTodaySignals();
       
-      // Convert to proper format
-      const formattedSignals: BreakoutSignal[] = todaySignals.map((signal: any) => ({
-        ...signal,
-        id: signal.id || signal._id,
-        session_name: signal.session_name || 'Unknown Session',
-        signal_type: signal.signal_type || 'BUY',
-        timestamp: signal.timestamp || signal.created_at,
-        status: signal.status || 'ACTIVE'
-      }));
-      
-      setSignals(formattedSignals);
+      setSignals(todaySignals);
 
       if (viewMode === 'sessions') {
         // Group by sessions
         const grouped: SessionSignals = {};
-        formattedSignals.forEach((signal: BreakoutSignal) => {
+        todaySignals.forEach((signal: BreakoutSignal) => {
           const sessionName = signal.session_name || 'Unknown Session';
           if (!grouped[sessionName]) {
             grouped[sessionName] = [];
@@ -57,7 +46,7 @@ export function useBreakoutSignals(options: UseBreakoutSignalsOptions = {}) {
       } else {
         // Group by sessions for convenience even in list mode
         const grouped: SessionSignals = {};
-        formattedSignals.forEach((signal: BreakoutSignal) => {
+        todaySignals.forEach((signal: BreakoutSignal) => {
           const sessionName = signal.session_name || 'Unknown Session';
           if (!grouped[sessionName]) {
             grouped[sessionName] = [];
@@ -74,10 +63,10 @@ export function useBreakoutSignals(options: UseBreakoutSignalsOptions = {}) {
     }
   }, [viewMode, symbol]);
 
-  const fetchActiveSignals = useCallback(async () => {
+  const fetchActiveSignals = useCallback(async (): Promise<BreakoutSignal[]> => {
     try {
       const response = await apiService.getActiveSignals();
-      return response.signals || [];
+      return response.signals;
     } catch (err: any) {
       console.error('Error fetching active signals:', err);
       return [];
@@ -101,10 +90,10 @@ export function useBreakoutSignals(options: UseBreakoutSignalsOptions = {}) {
     }
   }, []);
 
-  const getSessionStatus = useCallback(async () => {
+  const getSessionStatus = useCallback(async (): Promise<TradingSession[]> => {
     try {
       const response = await apiService.getSessionStatus();
-      return response.sessions || [];
+      return response.sessions;
     } catch (err: any) {
       console.error('Error fetching session status:', err);
       return [];
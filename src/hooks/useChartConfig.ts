@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react';
+import { ChartConfig } from '../types';
+import { storage } from '../utils';
+
+const STORAGE_PREFIX = 'chart-config';
+
+export const DEFAULT_CHART_CONFIG: ChartConfig = {
+  type: 'candlestick',
+  boxSize: null,
+  timeframe: '5m',
+  indicators: ['volume'],
+  layers: ['vwap', 'sessionLevels', 'sessionBands', 'signals', 'drawings'],
+  compare: [],
+  compareScale: 'percent',
+  linkGroup: null,
+};
+
+// Chart settings that survive reloads, kept separately per page (`scope`).
+// `indicators` lists the open sub-panes in display order.
+export function useChartConfig(scope: string = 'default', defaults: Partial<ChartConfig> = {}) {
+  const key = `${STORAGE_PREFIX}.${scope}`;
+  const [config, setConfig] = useState<ChartConfig>(() => ({
+    ...DEFAULT_CHART_CONFIG,
+    ...defaults,
+    ...storage.get(key),
+  }));
+
+  const updateConfig = useCallback((changes: Partial<ChartConfig>) => {
+    setConfig(prev => {
+      const next = { ...prev, ...changes };
+      storage.set(key, next);
+      return next;
+    });
+  }, [key]);
+
+  return {
+    config,
+    updateConfig,
+  };
+}
@@ -1,33 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import apiService from '../services/api';
-
-interface ChartDataPoint {
-  time: number; // Unix timestamp in seconds
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-  symbol: string;
-  exchange: string;
-}
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import apiService, { ApiValidationError } from '../services/api';
+import { ChartCandle, ChartDataResponse } from '../types';
+import { config } from '../config';
+import { wsService } from '../services/websocket';
+import { chartHistory } from '../services/chartHistory';
+import { CandleAggregator, isTimeframe, tickFromStockData } from '../utils/candles';
+import { useConnectionState } from './useConnectionState';
+import { istDate, previousTradingDay } from '../utils/marketTime';
+
+const CHART_TIMEOUT_MESSAGE = 'Chart data request timeout';
+// Days without bars tried in a row before history is treated as exhausted
+const MAX_EMPTY_DAYS = 5;
 
-interface ChartDataResponse {
-  symbol: string;
-  timeframe: string;
-  date: string;
-  data: ChartDataPoint[];
-  count: number;
-  data_source: string;
-  latest_price: number;
-  real_time: boolean;
-  tick_count: number;
+// Puts a closed bar at the end of the series, replacing the forming version of it
+function foldCandle(candles: ChartCandle[], candle: ChartCandle): ChartCandle[] {
+  const last = candles[candles.length - 1];
+  if (last?.time === candle.time) candles[candles.length - 1] = candle;
+  else if (!last || last.time < candle.time) candles.push(candle);
+  return candles;
 }
 
 interface UseChartDataOptions {
   autoRefresh?: boolean;
   refreshInterval?: number;
   enabled?: boolean;
+  date?: string | null; // A past IST trading day to review; null follows today live
 }
 
 export function useChartData(
@@ -38,13 +35,22 @@ export function useChartData(
   const {
     autoRefresh = true,
     refreshInterval = 15000, // 15 seconds - faster updates since backend now uses caching
-    enabled = true
+    enabled = true,
+    date = null
   } = options;
+  const live = date === null;
 
-  const [data, setData] = useState<ChartDataPoint[]>([]);
+  const [data, setData] = useState<ChartCandle[]>([]);
+  // Latest bar built from live ticks; apply it with series.update(). Bars it
+  // leaves behind are appended to the returned series when the next one opens.
+  const [liveCandle, setLiveCandle] = useState<ChartCandle | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  // Older bars prepended while scrolling back, oldest first
+  const [history, setHistory] = useState<ChartCandle[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [historyExhausted, setHistoryExhausted] = useState(false);
   const [chartInfo, setChartInfo] = useState<{
     dataSource: string;
     latestPrice: number;
@@ -54,6 +60,24 @@ export function useChartData(
 
   const intervalRef = useRef<number | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const aggregatorRef = useRef<CandleAggregator | null>(null);
+  // Bars the live feed closed since the last snapshot
+  const closedRef = useRef<ChartCandle[]>([]);
+  const candlesRef = useRef<ChartCandle[]>([]);
+  const historyKeyRef = useRef('');
+  const loadingHistoryRef = useRef(false);
+  const { status: connectionStatus } = useConnectionState();
+
+  // Starts live aggregation from a fresh snapshot of the whole series
+  const resetCandles = useCallback((candles: ChartCandle[]) => {
+    if (isTimeframe(timeframe)) {
+      aggregatorRef.current = new CandleAggregator(symbol, timeframe);
+      aggregatorRef.current.reset(candles);
+    }
+    closedRef.current = [];
+    setData(candles);
+    setLiveCandle(null);
+  }, [symbol, timeframe]);
 
   const fetchData = useCallback(async (isRefresh: boolean = false) => {
     if (!symbol || !enabled) return;
@@ -68,24 +92,26 @@ export function useChartData(
 
       if (!isRefresh) {
         setLoading(true);
+        // Ticks for the previous symbol or timeframe must not land on the new series
+        aggregatorRef.current = null;
       }
       setError(null);
 
-      console.log(`📊 Fetching chart data for ${symbol} (${timeframe})`);
+      console.log(`📊 Fetching chart data for ${symbol} (${timeframe}${date ? `, ${date}` : ''})`);
       
       // Add timeout handling for chart data specifically
       const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Chart data request timeout (45s)')), 45000);
+        setTimeout(() => reject(new Error(CHART_TIMEOUT_MESSAGE)), config.chartDataTimeout);
       });
 
-      const fetchPromise = apiService.getChartData(symbol, timeframe);
+      const fetchPromise = apiService.getChartData(symbol, timeframe, date ?? undefined);
       
       const response: ChartDataResponse = await Promise.race([fetchPromise, timeoutPromise]) as ChartDataResponse;
       
       // Handle empty data gracefully
-      if (!response || !response.data) {
+      if (!response.data.length) {
         console.warn(`⚠️ No chart data returned for ${symbol}`);
-        setData([]);
+        resetCandles([]);
         setChartInfo({
           dataSource: 'no_data',
           latestPrice: 0,
@@ -96,7 +122,7 @@ export function useChartData(
         return;
       }
       
-      setData(response.data);
+      resetCandles(response.data);
       setChartInfo({
         dataSource: response.data_source,
         latestPrice: response.latest_price,
@@ -117,8 +143,10 @@ export function useChartData(
       
       // Set more specific error messages
       let errorMessage = 'Failed to fetch chart data';
-      if (err.message === 'Chart data request timeout (45s)') {
+      if (err.message === CHART_TIMEOUT_MESSAGE) {
         errorMessage = 'Chart data is loading slowly, please wait...';
+      } else if (err instanceof ApiValidationError) {
+        errorMessage = 'Chart data has an unexpected format';
       } else if (err.response?.status === 404) {
         errorMessage = 'No data available for this symbol';
       } else if (err.response?.status >= 500) {
@@ -131,25 +159,116 @@ export function useChartData(
       
       // Don't clear existing data on refresh errors
       if (!isRefresh) {
-        setData([]);
+        resetCandles([]);
       }
     } finally {
       if (!isRefresh) {
         setLoading(false);
       }
     }
-  }, [symbol, timeframe, enabled]);
+  }, [symbol, timeframe, enabled, date, resetCandles]);
 
   // Initial fetch
   useEffect(() => {
+    historyKeyRef.current = `${symbol}:${timeframe}:${date}`;
+    loadingHistoryRef.current = false;
+    setHistory([]);
+    setLoadingHistory(false);
+    setHistoryExhausted(false);
+
     if (symbol && enabled) {
       fetchData();
     }
-  }, [symbol, timeframe, enabled, fetchData]);
+  }, [symbol, timeframe, enabled, date, fetchData]);
+
+  // Prepends the trading day before the oldest bar, skipping days that come back empty
+  const loadOlder = useCallback(async () => {
+    const oldest = history[0] ?? data[0];
+    if (!oldest || historyExhausted || loadingHistoryRef.current) return;
+
+    const key = historyKeyRef.current;
+    loadingHistoryRef.current = true;
+    setLoadingHistory(true);
+
+    try {
+      let day = istDate(oldest.time);
+      let older: ChartCandle[] = [];
+      for (let attempt = 0; attempt < MAX_EMPTY_DAYS && !older.length; attempt++) {
+        day = previousTradingDay(day);
+        const candles = await chartHistory.load(symbol, timeframe, day);
+        older = candles.filter(candle => candle.time < oldest.time);
+      }
+      if (historyKeyRef.current !== key) return;
+
+      if (older.length) {
+        console.log(`📜 Loaded ${older.length} older bars for ${symbol} (${timeframe}) from ${day}`);
+        setHistory(prev => [...older, ...prev]);
+      } else {
+        setHistoryExhausted(true);
+      }
+    } catch (err) {
+      console.error('❌ Error loading older chart data:', err);
+    } finally {
+      if (historyKeyRef.current === key) {
+        loadingHistoryRef.current = false;
+        setLoadingHistory(false);
+      }
+    }
+  }, [symbol, timeframe, data, history, historyExhausted]);
+
+  // The series, oldest first. Bars the live feed closes are appended in place
+  // rather than by replacing it: the chart and its layers have already applied
+  // them as the live bar, and only rebuild when the series itself is replaced.
+  const candles = useMemo(
+    () => closedRef.current.reduce(foldCandle, [...history, ...data]),
+    [history, data]
+  );
+  useEffect(() => {
+    candlesRef.current = candles;
+  }, [candles]);
+
+  // Replace the series after the live feed resyncs so a network blip can't leave holes
+  useEffect(() => {
+    if (!symbol || !enabled || !live) return;
+
+    return wsService.subscribeToSnapshots(symbol, (snapshot) => {
+      if (timeframe === '1m' && snapshot.candles?.length) {
+        console.log(`🔄 Chart data for ${symbol} replaced from ${snapshot.reason} snapshot`);
+        resetCandles(snapshot.candles);
+        setLastUpdate(new Date());
+      } else {
+        fetchData(true);
+      }
+    }, { candles: timeframe === '1m' });
+  }, [symbol, timeframe, enabled, live, fetchData, resetCandles]);
 
-  // Auto-refresh setup
+  // Fold live ticks into the bars instead of re-fetching the series
   useEffect(() => {
-    if (!autoRefresh || !enabled || !symbol) {
+    if (!symbol || !enabled || !live) return;
+
+    return wsService.subscribeToStockUpdates(symbol, (stock) => {
+      const aggregator = aggregatorRef.current;
+      const tick = tickFromStockData(stock);
+      const count = aggregator?.getCandles().length ?? 0;
+      const candle = tick && aggregator?.applyTick(tick);
+      if (aggregator && candle) {
+        // A new bar closes the previous one, which stays in the series once
+        // the live bar has moved past it
+        const bars = aggregator.getCandles();
+        if (bars.length > count && count > 0) {
+          closedRef.current.push(bars[count - 1]);
+          foldCandle(candlesRef.current, bars[count - 1]);
+        }
+        setLiveCandle(candle);
+        setLastUpdate(new Date());
+      }
+    });
+  }, [symbol, enabled, live]);
+
+  // Auto-refresh setup; only needed while the live feed is down, and never for a past day
+  const isLive = connectionStatus === 'open';
+  useEffect(() => {
+    if (!autoRefresh || !enabled || !symbol || isLive || !live) {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
         intervalRef.current = null;
@@ -163,7 +282,7 @@ export function useChartData(
     }
 
     // Set up new interval
-    intervalRef.current = setInterval(() => {
+    intervalRef.current = window.setInterval(() => {
       fetchData(true); // Pass true to indicate this is a refresh
     }, refreshInterval);
 
@@ -175,7 +294,7 @@ export function useChartData(
         intervalRef.current = null;
       }
     };
-  }, [symbol, timeframe, autoRefresh, refreshInterval, enabled, fetchData]);
+  }, [symbol, timeframe, autoRefresh, refreshInterval, enabled, isLive, live, fetchData]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -196,18 +315,21 @@ export function useChartData(
 
   // Get latest price
   const getLatestPrice = useCallback(() => {
+    if (liveCandle) {
+      return liveCandle.close;
+    }
     if (data.length > 0) {
       return data[data.length - 1].close;
     }
     return chartInfo?.latestPrice || 0;
-  }, [data, chartInfo]);
+  }, [data, liveCandle, chartInfo]);
 
   // Get price change
   const getPriceChange = useCallback(() => {
     if (data.length < 2) return { change: 0, percent: 0, isPositive: true };
     
     const firstPrice = data[0].open;
-    const lastPrice = data[data.length - 1].close;
+    const lastPrice = liveCandle ? liveCandle.close : data[data.length - 1].close;
     const change = lastPrice - firstPrice;
     const percent = (change / firstPrice) * 100;
     
@@ -216,16 +338,20 @@ export function useChartData(
       percent: Math.abs(percent),
       isPositive: change >= 0
     };
-  }, [data]);
+  }, [data, liveCandle]);
 
   return {
-    data,
+    data: candles,
+    liveCandle,
     loading,
     error,
     lastUpdate,
     chartInfo,
     fetchData,
     refresh,
+    loadOlder,
+    loadingHistory,
+    historyExhausted,
     getLatestPrice,
     getPriceChange,
     isRealTime: chartInfo?.realTime || false,
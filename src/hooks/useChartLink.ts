@@ -0,0 +1,95 @@
+import { useEffect, useRef } from 'react';
+import { IChartApi, ISeriesApi, MouseEventParams, Range, SeriesType, Time } from 'lightweight-charts';
+import { ChartCandle, ChartLinkGroup } from '../types';
+import { LinkEvent, LinkListener, chartLinks } from '../services/chartLinks';
+import { Timeframe } from '../utils/candles';
+
+// The last bar opening at or before `time`
+function barAt(bars: ChartCandle[], time: number): ChartCandle | null {
+  let low = 0;
+  let high = bars.length - 1;
+  let found: ChartCandle | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (bars[mid].time <= time) {
+      found = bars[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Joins a chart to a link group: its crosshair, visible time range and
+// timeframe are shared with the group, and theirs applied to it. The
+// crosshair lands on the bar containing the other chart's time.
+export function useChartLink(
+  group: ChartLinkGroup | null,
+  chart: IChartApi | null,
+  series: ISeriesApi<SeriesType> | null,
+  bars: ChartCandle[],
+  timeframe: Timeframe,
+  onTimeframe: (timeframe: Timeframe) => void,
+  isRemoved: () => boolean
+): void {
+  const barsRef = useRef(bars);
+  barsRef.current = bars;
+  const onTimeframeRef = useRef(onTimeframe);
+  onTimeframeRef.current = onTimeframe;
+  const listenerRef = useRef<LinkListener | null>(null);
+
+  useEffect(() => {
+    if (!group || !chart || !series) return;
+
+    const listener: LinkListener = (event: LinkEvent) => {
+      switch (event.kind) {
+        case 'crosshair': {
+          const bar = event.time === null ? null : barAt(barsRef.current, event.time);
+          if (bar) chart.setCrosshairPosition(bar.close, bar.time as Time, series);
+          else chart.clearCrosshairPosition();
+          break;
+        }
+        case 'range':
+          if (barsRef.current.length) {
+            chart.timeScale().setVisibleRange({ from: event.from as Time, to: event.to as Time });
+          }
+          break;
+        case 'timeframe':
+          onTimeframeRef.current(event.timeframe);
+          break;
+      }
+    };
+
+    // Programmatic crosshair moves carry no source event and are not passed on
+    const handleCrosshair = (param: MouseEventParams) => {
+      if (!param.point) chartLinks.publish(group, listener, { kind: 'crosshair', time: null });
+      else if (param.sourceEvent && param.time !== undefined) {
+        chartLinks.publish(group, listener, { kind: 'crosshair', time: param.time as number });
+      }
+    };
+
+    const handleRange = (range: Range<Time> | null) => {
+      if (range) chartLinks.publish(group, listener, { kind: 'range', from: range.from as number, to: range.to as number });
+    };
+
+    listenerRef.current = listener;
+    const leave = chartLinks.join(group, listener);
+    chart.subscribeCrosshairMove(handleCrosshair);
+    chart.timeScale().subscribeVisibleTimeRangeChange(handleRange);
+
+    return () => {
+      listenerRef.current = null;
+      leave();
+      if (isRemoved()) return;
+      chart.unsubscribeCrosshairMove(handleCrosshair);
+      chart.timeScale().unsubscribeVisibleTimeRangeChange(handleRange);
+    };
+  }, [group, chart, series, isRemoved]);
+
+  // A chart joining or switching timeframe moves the group to its timeframe
+  useEffect(() => {
+    const listener = listenerRef.current;
+    if (group && listener) chartLinks.publish(group, listener, { kind: 'timeframe', timeframe });
+  }, [group, chart, series, timeframe]);
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChartSignal } from '../types';
+import apiService from '../services/api';
+import { wsService } from '../services/websocket';
+import { Timeframe } from '../utils/candles';
+import { currentTradingDay } from '../utils/marketTime';
+import { toChartSignal } from '../utils/signals';
+
+// Breakout signals for a chart of `symbol` on a past day, or today's kept
+// current from the WebSocket; `onLive` hears each signal as it arrives
+export function useChartSignals(
+  symbol: string,
+  timeframe: Timeframe,
+  date: string | null,
+  onLive?: (signal: ChartSignal) => void
+): ChartSignal[] {
+  const [signals, setSignals] = useState<ChartSignal[]>([]);
+  const onLiveRef = useRef(onLive);
+  onLiveRef.current = onLive;
+
+  useEffect(() => {
+    let cancelled = false;
+    setSignals([]);
+
+    apiService.getChartSignals(symbol, { date: date ?? currentTradingDay(), timeframe })
+      .then(response => {
+        if (!cancelled) setSignals(response.signals);
+      })
+      .catch(error => console.error('❌ Failed to load chart signals:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, timeframe, date]);
+
+  // A signal's status changes arrive as repeat messages for it; a past day gets none
+  useEffect(() => {
+    if (date) return;
+    return wsService.subscribeToSignalUpdates(update => {
+      const signal = toChartSignal(update, symbol);
+      if (!signal) return;
+      setSignals(prev => [...prev.filter(s => s.id !== signal.id), signal]);
+      onLiveRef.current?.(signal);
+    });
+  }, [symbol, date]);
+
+  return signals;
+}
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { ConnectionState } from '../types';
+import { wsService } from '../services/websocket';
+
+// Live WebSocket connection state: status, reconnect attempt, last error and latency
+export function useConnectionState(): ConnectionState {
+  const [state, setState] = useState<ConnectionState>(() => wsService.getConnectionState());
+
+  useEffect(() => {
+    // Pick up any change between the first render and subscribing
+    setState(wsService.getConnectionState());
+    return wsService.subscribeToConnectionState(setState);
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Drawing } from '../types';
+import { drawingStore } from '../services/drawingStore';
+
+// Drawings saved for a symbol and timeframe, and a setter that persists and syncs them
+export function useDrawings(symbol: string, timeframe: string): [Drawing[], (drawings: Drawing[]) => void] {
+  const [drawings, setDrawings] = useState<Drawing[]>(() => drawingStore.get(symbol, timeframe));
+
+  useEffect(() => {
+    setDrawings(drawingStore.get(symbol, timeframe));
+    return drawingStore.subscribe(() => setDrawings(drawingStore.get(symbol, timeframe)));
+  }, [symbol, timeframe]);
+
+  const save = useCallback(
+    (next: Drawing[]) => drawingStore.set(symbol, timeframe, next),
+    [symbol, timeframe]
+  );
+
+  return [drawings, save];
+}
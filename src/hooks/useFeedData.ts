@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { apiService } from '../services/api';
+import { FeedTick } from '../types';
 
 interface FeedData {
   tk: string;
@@ -20,23 +21,6 @@ interface FeedData {
   received_at: string;
 }
 
-interface ApiFeedData {
-  _id: string;
-  symbol: string;
-  price: number;
-  timestamp: string;
-  token: string;
-  exchange: string;
-  high: number | null;
-  low: number | null;
-  volume: number | null;
-  change: number | null;
-  change_percent: number | null;
-  source: string;
-  market_status: string;
-  received_at: string;
-}
-
 interface UseFeedDataOptions {
   symbol?: string;
   autoRefresh?: boolean;
@@ -45,7 +29,7 @@ interface UseFeedDataOptions {
 }
 
 // Helper function to map API data to frontend format
-const mapApiDataToFeedData = (apiData: ApiFeedData): FeedData => {
+const mapApiDataToFeedData = (apiData: FeedTick): FeedData => {
   return {
     tk: apiData.symbol,
     ltpc: apiData.price,
@@ -93,7 +77,7 @@ export function useFeedData(options: UseFeedDataOptions = {}) {
       console.log('📡 API Response:', response);
       
       if (response.status === 'success') {
-        const mappedData = (response.data || []).map(mapApiDataToFeedData);
+        const mappedData = response.data.map(mapApiDataToFeedData);
         console.log('🔄 Mapped data:', mappedData);
         setData(mappedData);
         setLastUpdate(new Date());
@@ -123,7 +107,7 @@ export function useFeedData(options: UseFeedDataOptions = {}) {
       console.log('📡 API Response:', response);
       
       if (response.status === 'success') {
-        const mappedData = (response.data || []).map(mapApiDataToFeedData);
+        const mappedData = response.data.map(mapApiDataToFeedData);
         console.log('🔄 Mapped data:', mappedData);
         setData(mappedData);
         setLastUpdate(new Date());
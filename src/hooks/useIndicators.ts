@@ -0,0 +1,26 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChartCandle, TechnicalIndicators } from '../types';
+import { IndicatorSet } from '../utils/indicators';
+
+// Latest indicator values over a candle series, revised as live bars arrive
+export function useIndicators(candles: ChartCandle[], liveCandle: ChartCandle | null = null): TechnicalIndicators | null {
+  const indicatorsRef = useRef(new IndicatorSet());
+  const [snapshot, setSnapshot] = useState<TechnicalIndicators | null>(null);
+
+  useEffect(() => {
+    if (!candles.length) {
+      setSnapshot(null);
+      return;
+    }
+    indicatorsRef.current.reset(candles);
+    setSnapshot(indicatorsRef.current.snapshot());
+  }, [candles]);
+
+  useEffect(() => {
+    if (!liveCandle) return;
+    indicatorsRef.current.update(liveCandle);
+    setSnapshot(indicatorsRef.current.snapshot());
+  }, [liveCandle]);
+
+  return snapshot;
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { TradingSignal } from '../types';
 import { apiService } from '../services/api';
 import { wsService } from '../services/websocket';
+import { toTradingSignal } from '../services/schemas';
 
 interface UseSignalsOptions {
   symbol?: string;
@@ -64,7 +65,8 @@ export function useSignals(options: UseSignalsOptions = {}) {
 
   // WebSocket real-time updates
   useEffect(() => {
-    const unsubscribe = wsService.subscribeToSignalUpdates((signal) => {
+    const unsubscribe = wsService.subscribeToSignalUpdates((breakoutSignal) => {
+      const signal = toTradingSignal(breakoutSignal);
       setSignals(prev => {
         const existingIndex = prev.findIndex(s => s.symbol === signal.symbol);
         if (existingIndex >= 0) {
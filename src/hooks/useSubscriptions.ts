@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import { SymbolSubscription } from '../types';
+import { wsService } from '../services/websocket';
+
+// Live list of symbol subscriptions and their consumers, for debugging
+export function useSubscriptions(): SymbolSubscription[] {
+  const [subscriptions, setSubscriptions] = useState<SymbolSubscription[]>(() => wsService.getSubscriptions());
+
+  useEffect(() => {
+    setSubscriptions(wsService.getSubscriptions());
+    return wsService.subscribeToSubscriptions(setSubscriptions);
+  }, []);
+
+  return subscriptions;
+}
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { TradingSession } from '../types';
+import apiService from '../services/api';
+
+const SESSION_REFRESH_INTERVAL = 60000;
+
+// Trading sessions of a past day, or today's re-fetched every minute as sessions open and complete
+export function useTradingSessions(date: string | null = null): TradingSession[] {
+  const [sessions, setSessions] = useState<TradingSession[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await apiService.getSessionStatus(date ?? undefined);
+        if (!cancelled) setSessions(response.sessions);
+      } catch (error) {
+        console.error('❌ Failed to load trading sessions:', error);
+      }
+    };
+
+    setSessions([]);
+    load();
+    // A past day's sessions are final
+    const interval = date ? null : setInterval(load, SESSION_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [date]);
+
+  return sessions;
+}
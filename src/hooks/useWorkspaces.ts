@@ -0,0 +1,12 @@
+import { useState, useEffect } from 'react';
+import { Workspace } from '../types';
+import { workspaceStore } from '../services/workspaceStore';
+
+// Saved workspaces by name, kept current as they change in this or another tab
+export function useWorkspaces(): Workspace[] {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => workspaceStore.list());
+
+  useEffect(() => workspaceStore.subscribe(() => setWorkspaces(workspaceStore.list())), []);
+
+  return workspaces;
+}
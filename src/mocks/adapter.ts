@@ -0,0 +1,54 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { MockServer } from './handlers';
+
+const LATENCY_MS = 60;
+
+function toQuery(params: unknown): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (params && typeof params === 'object') {
+    Object.entries(params as Record<string, unknown>).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) query[key] = String(value);
+    });
+  }
+  return query;
+}
+
+// Axios adapter that answers requests from the in-memory mock server instead
+// of the network, so interceptors and schema validation still run unchanged.
+export function createMockAdapter(server: MockServer): AxiosAdapter {
+  return (config: InternalAxiosRequestConfig) => {
+    const url = new URL(config.url || '/', 'http://mock.local');
+    const path = url.pathname.replace(/^.*\/api\/v1/, '');
+    const query = { ...Object.fromEntries(url.searchParams.entries()), ...toQuery(config.params) };
+    const body = typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data;
+    const headers = Object.fromEntries(
+      Object.entries(config.headers.toJSON()).map(([key, value]) => [key.toLowerCase(), String(value)])
+    );
+
+    const result = server.handle({ method: config.method || 'get', path, query, body, headers });
+    const response: AxiosResponse = {
+      data: JSON.stringify(result.data),
+      status: result.status,
+      statusText: result.status < 400 ? 'OK' : 'Error',
+      headers: { 'content-type': 'application/json' },
+      config,
+      request: {},
+    };
+
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        const validateStatus = config.validateStatus || ((status: number) => status >= 200 && status < 300);
+        if (validateStatus(result.status)) {
+          resolve(response);
+        } else {
+          const code = result.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE;
+          // Parse the body here since axios skips response transforms on rejection
+          reject(new AxiosError(`Request failed with status code ${result.status}`, code, config, {}, {
+            ...response,
+            data: result.data,
+          }));
+        }
+      }, LATENCY_MS);
+    });
+  };
+}
@@ -0,0 +1,428 @@
+import { BreakoutSignal, StockData, TradingSignal, User } from '../types';
+import { MockMarket, MOCK_INSTRUMENTS, STEP_SECONDS, istDate, previousTradingDay } from './market';
+
+// In-memory implementation of every REST route used by ApiService. Responses
+// mirror the backend's shapes, including which routes wrap their payload in
+// the { success, data } envelope and which return it directly.
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+  headers: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  data: unknown;
+}
+
+type RouteParams = Record<string, string>;
+type RouteHandler = (request: MockRequest, params: RouteParams) => MockResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+interface MockAccount {
+  user: User;
+  password: string;
+  favorites: string[];
+  watchlist: string[];
+}
+
+const HISTORY_DAYS = 5;
+const ACCESS_TOKEN_TTL = 15 * 60; // Seconds
+
+const ok = (data: unknown): MockResponse => ({ status: 200, data });
+const envelope = (data: unknown): MockResponse => ok({ success: true, data });
+const fail = (status: number, detail: string): MockResponse => ({ status, data: { detail } });
+
+export class MockServer {
+  private readonly routes: Route[] = [];
+  private readonly accounts = new Map<string, MockAccount>();
+  private readonly tokens = new Map<string, { email: string; expiresAt: number }>();
+  private readonly refreshTokens = new Map<string, string>();
+  private monitoringActive = true;
+  private nextUserId = 1;
+
+  constructor(private readonly market: MockMarket) {
+    this.createAccount('demo@traderx.dev', 'demo1234', 'Demo Trader');
+    this.registerRoutes();
+  }
+
+  handle(request: MockRequest): MockResponse {
+    const method = request.method.toUpperCase();
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(request.path);
+      if (!match) continue;
+      const params: RouteParams = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+      return route.handler(request, params);
+    }
+    return fail(404, `No mock route for ${method} ${request.path}`);
+  }
+
+  // Resolves a bearer token to its user; also used by the mock WebSocket
+  userForToken(token: string | null | undefined): User | null {
+    const session = token ? this.tokens.get(token) : undefined;
+    if (!session || session.expiresAt <= Date.now()) return null;
+    return this.accounts.get(session.email)!.user;
+  }
+
+  private on(method: string, path: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+
+  private createAccount(email: string, password: string, name: string): MockAccount {
+    const account: MockAccount = {
+      user: {
+        id: String(this.nextUserId++),
+        email,
+        name,
+        preferences: {
+          theme: 'light',
+          defaultTimeframe: '1m',
+          favoriteStocks: [],
+          notifications: { priceAlerts: true, signalAlerts: true, email: false },
+        },
+      },
+      password,
+      favorites: ['NIFTY', 'BANKNIFTY'],
+      watchlist: ['NIFTY', 'BANKNIFTY', 'FINNIFTY'],
+    };
+    this.accounts.set(email.toLowerCase(), account);
+    return account;
+  }
+
+  // Issues a short-lived access token and a rotating refresh token
+  private issueTokens(account: MockAccount) {
+    const email = account.user.email.toLowerCase();
+    const random = () => Math.random().toString(36).slice(2);
+    const accessToken = `mock.${account.user.id}.${random()}`;
+    const refreshToken = `mock-refresh.${account.user.id}.${random()}`;
+    this.tokens.set(accessToken, { email, expiresAt: Date.now() + ACCESS_TOKEN_TTL * 1000 });
+    this.refreshTokens.set(refreshToken, email);
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      token_type: 'bearer',
+      expires_in: ACCESS_TOKEN_TTL,
+      user: account.user,
+    };
+  }
+
+  private account(request: MockRequest): MockAccount | null {
+    const token = (request.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const user = this.userForToken(token);
+    return user ? this.accounts.get(user.email.toLowerCase()) || null : null;
+  }
+
+  // Wraps a handler that requires a valid bearer token
+  private authed(handler: (request: MockRequest, params: RouteParams, account: MockAccount) => MockResponse): RouteHandler {
+    return (request, params) => {
+      const account = this.account(request);
+      return account ? handler(request, params, account) : fail(401, 'Not authenticated');
+    };
+  }
+
+  private stock(symbol: string): StockData | null {
+    return this.market.stockData(symbol);
+  }
+
+  private allStocks(): StockData[] {
+    return MOCK_INSTRUMENTS
+      .map((instrument) => this.stock(instrument.symbol))
+      .filter((stock): stock is StockData => stock !== null);
+  }
+
+  private monitoringStatus() {
+    const signals = this.market.breakoutSignals();
+    const now = new Date(this.market.now() * 1000);
+    return {
+      monitoring_active: this.monitoringActive,
+      market_hours: this.market.isMarketOpen(),
+      current_time_ist: now.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }),
+      service_status: this.monitoringActive ? 'running' : 'stopped',
+      latest_signal: signals.length ? signals[signals.length - 1] : null,
+    };
+  }
+
+  private recentSignals(): BreakoutSignal[] {
+    const signals: BreakoutSignal[] = [];
+    let day = this.market.today();
+    for (let i = 0; i < HISTORY_DAYS; i++) {
+      signals.unshift(...this.market.breakoutSignals(day));
+      day = previousTradingDay(day);
+    }
+    return signals;
+  }
+
+  private registerRoutes(): void {
+    // Authentication
+    this.on('POST', '/auth/login', (request) => {
+      const { email = '', password = '' } = request.body || {};
+      if (!email || !password) return fail(422, 'email and password are required');
+      // Unknown emails sign up on first login so any credentials work locally
+      const account = this.accounts.get(String(email).toLowerCase())
+        || this.createAccount(email, password, String(email).split('@')[0]);
+      if (account.password !== password) {
+        return fail(401, 'Incorrect email or password');
+      }
+      return ok(this.issueTokens(account));
+    });
+
+    this.on('POST', '/auth/refresh', (request) => {
+      const refreshToken = String((request.body && request.body.refresh_token) || '');
+      const email = this.refreshTokens.get(refreshToken);
+      if (!email) return fail(401, 'Invalid refresh token');
+      this.refreshTokens.delete(refreshToken);
+      return ok(this.issueTokens(this.accounts.get(email)!));
+    });
+
+    this.on('POST', '/auth/register', (request) => {
+      const { email, password, name } = request.body || {};
+      if (!email || !password || !name) return fail(422, 'email, password and name are required');
+      if (this.accounts.has(String(email).toLowerCase())) return fail(400, 'Email already registered');
+      return ok(this.createAccount(email, password, name).user);
+    });
+
+    this.on('POST', '/auth/logout', (request) => {
+      this.tokens.delete((request.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+      this.refreshTokens.delete(String((request.body && request.body.refresh_token) || ''));
+      return ok({ message: 'Logged out' });
+    });
+
+    this.on('GET', '/auth/me', this.authed((_, __, account) => ok(account.user)));
+
+    // Feed
+    this.on('GET', '/feed/latest', (request) => {
+      const limit = Number(request.query.limit) || 100;
+      const now = this.market.now();
+      // A single symbol returns its recent ticks newest first, otherwise the latest tick per symbol
+      const ticks = request.query.symbol
+        ? Array.from({ length: limit }, (_, step) => this.market.feedTick(request.query.symbol, now - step * STEP_SECONDS))
+        : MOCK_INSTRUMENTS.map((instrument) => this.market.feedTick(instrument.symbol, now)).slice(0, limit);
+      const data = ticks.filter((tick) => tick !== null);
+      return ok({ status: 'success', data, count: data.length });
+    });
+
+    this.on('GET', '/feed/summary', () => {
+      const ticks = MOCK_INSTRUMENTS
+        .map((instrument) => this.market.feedTick(instrument.symbol))
+        .filter((tick) => tick !== null);
+      return ok({ status: 'success', data: ticks, count: ticks.length });
+    });
+
+    this.on('GET', '/feed/health', () => ok({
+      status: 'healthy',
+      message: 'Mock feed is running',
+      last_update: new Date(this.market.now() * 1000).toISOString(),
+    }));
+
+    // Stocks
+    this.on('GET', '/stocks/search', (request) => {
+      const query = (request.query.q || '').toUpperCase();
+      const stocks = MOCK_INSTRUMENTS
+        .filter((instrument) => instrument.symbol.includes(query) || instrument.name.toUpperCase().includes(query))
+        .map(({ symbol, name, exchange }) => ({ symbol, name, exchange }));
+      return envelope({ stocks });
+    });
+
+    this.on('POST', '/stocks/batch', (request) => {
+      const symbols: string[] = (request.body && request.body.symbols) || [];
+      return envelope(symbols.map((symbol) => this.stock(symbol)).filter(Boolean));
+    });
+
+    this.on('GET', '/stocks/:symbol/historical', (request, { symbol }) => {
+      if (!this.market.instrument(symbol)) return fail(404, `Unknown symbol ${symbol}`);
+      const timeframe = request.query.timeframe || '1d';
+      const data = this.market.candles(symbol, timeframe).map(({ time, open, high, low, close, volume }) => ({
+        time, open, high, low, close, volume,
+      }));
+      return envelope({ symbol: symbol.toUpperCase(), data, timeframe });
+    });
+
+    this.on('GET', '/stocks/:symbol', (_, { symbol }) => {
+      const stock = this.stock(symbol);
+      return stock ? envelope(stock) : fail(404, `Unknown symbol ${symbol}`);
+    });
+
+    // Market
+    this.on('GET', '/market/overview', () => {
+      const stocks = this.allStocks();
+      const byChange = [...stocks].sort((a, b) => (b.changePercent || 0) - (a.changePercent || 0));
+      return envelope({
+        gainers: byChange.filter((stock) => (stock.changePercent || 0) > 0).slice(0, 5),
+        losers: byChange.filter((stock) => (stock.changePercent || 0) < 0).reverse().slice(0, 5),
+        mostActive: [...stocks].sort((a, b) => b.volume - a.volume).slice(0, 5),
+      });
+    });
+
+    // User
+    this.on('PUT', '/user/preferences', this.authed((request, _, account) => {
+      account.user = { ...account.user, preferences: { ...account.user.preferences, ...(request.body || {}) } };
+      return envelope(account.user);
+    }));
+
+    (['favorites', 'watchlist'] as const).forEach((list) => {
+      this.on('GET', `/user/${list}`, this.authed((_, __, account) => envelope(
+        list === 'favorites'
+          ? account.favorites
+          : account.watchlist.map((symbol) => this.stock(symbol)).filter(Boolean)
+      )));
+
+      this.on('POST', `/user/${list}`, this.authed((request, _, account) => {
+        const symbol = String((request.body && request.body.symbol) || '').toUpperCase();
+        if (!this.market.instrument(symbol)) return fail(404, `Unknown symbol ${symbol}`);
+        if (!account[list].includes(symbol)) account[list].push(symbol);
+        return envelope(account[list]);
+      }));
+
+      this.on('DELETE', `/user/${list}/:symbol`, this.authed((_, { symbol }, account) => {
+        account[list] = account[list].filter((entry) => entry !== symbol.toUpperCase());
+        return envelope(account[list]);
+      }));
+    });
+
+    // Charts
+    this.on('GET', '/chart-data/:symbol', (request, { symbol }) => {
+      const instrument = this.market.instrument(symbol);
+      if (!instrument) return fail(404, `Unknown symbol ${symbol}`);
+      const timeframe = request.query.timeframe || '1m';
+      const date = request.query.date || this.market.today();
+      const data = this.market.candles(instrument.symbol, timeframe, date);
+      const isToday = date === istDate(this.market.now());
+      return ok({
+        symbol: instrument.symbol,
+        timeframe,
+        date,
+        data,
+        count: data.length,
+        data_source: 'mock',
+        latest_price: data.length ? data[data.length - 1].close : 0,
+        real_time: isToday && this.market.isMarketOpen(),
+        tick_count: data.length * 12,
+      });
+    });
+
+    this.on('GET', '/available-symbols', () => {
+      const symbols = MOCK_INSTRUMENTS.map(({ symbol, name, exchange }) => ({ symbol, name, exchange }));
+      return ok({ symbols, count: symbols.length });
+    });
+
+    // Signals
+    this.on('GET', '/signals/direct', () => ok({ signals: this.market.breakoutSignals() }));
+
+    this.on('POST', '/signals/generate', (request) => {
+      const symbol = String((request.body && request.body.symbol) || 'NIFTY').toUpperCase();
+      const stock = this.stock(symbol);
+      if (!stock) return fail(404, `Unknown symbol ${symbol}`);
+      const price = stock.price || 0;
+      const change = stock.changePercent || 0;
+      const signal: TradingSignal = {
+        symbol,
+        signal: change > 0.25 ? 'BUY' : change < -0.25 ? 'SELL' : 'HOLD',
+        confidence: Math.min(95, Math.round(50 + Math.abs(change) * 20)),
+        targetPrice: Math.round(price * (change >= 0 ? 1.01 : 0.99) * 100) / 100,
+        stopLoss: Math.round(price * (change >= 0 ? 0.995 : 1.005) * 100) / 100,
+        reasoning: [`Day change of ${change.toFixed(2)}%`],
+        timestamp: new Date(this.market.now() * 1000).toISOString(),
+        indicators: { rsi: 'N/A', macd: 'N/A', sma: 'N/A', volume: 'N/A' },
+      };
+      return envelope(signal);
+    });
+
+    this.on('POST', '/signals/start-monitoring', () => {
+      this.monitoringActive = true;
+      return ok({ status: 'started', message: 'Signal monitoring started' });
+    });
+
+    this.on('POST', '/signals/stop-monitoring', () => {
+      this.monitoringActive = false;
+      return ok({ status: 'stopped', message: 'Signal monitoring stopped' });
+    });
+
+    this.on('GET', '/signals/active', () => ok({
+      signals: this.market.breakoutSignals().filter((signal) => signal.status === 'ACTIVE'),
+    }));
+
+    this.on('GET', '/signals/history', (request) => {
+      const { symbol, signal_type, session_name, group_by_session } = request.query;
+      const limit = Number(request.query.limit) || 50;
+      const signals = this.recentSignals()
+        .filter((signal) => !symbol || signal.future_symbol === symbol || symbol === 'NIFTY')
+        .filter((signal) => !signal_type || signal.signal_type === signal_type)
+        .filter((signal) => !session_name || signal.session_name === session_name)
+        .reverse()
+        .slice(0, limit);
+      const response: Record<string, unknown> = { signals, total: signals.length };
+      if (group_by_session === 'true') {
+        const sessions: Record<string, BreakoutSignal[]> = {};
+        signals.forEach((signal) => {
+          (sessions[signal.session_name] = sessions[signal.session_name] || []).push(signal);
+        });
+        response.sessions = sessions;
+      }
+      return ok(response);
+    });
+
+    this.on('GET', '/signals/sessions', (request) => ok({
+      sessions: this.market.sessions(request.query.date || this.market.today()),
+    }));
+
+    this.on('GET', '/signals/technical/:symbol', (_, { symbol }) => {
+      const instrument = this.market.instrument(symbol);
+      if (!instrument) return fail(404, `Unknown symbol ${symbol}`);
+      return ok({
+        symbol: instrument.symbol,
+        technical_data: {
+          vwap: this.market.vwap(instrument.symbol, this.market.today()),
+          price: this.market.priceAt(instrument.symbol),
+        },
+      });
+    });
+
+    this.on('GET', '/signals/today', () => ok({
+      ...this.monitoringStatus(),
+      signals: this.market.breakoutSignals(),
+    }));
+
+    this.on('GET', '/signals/monitoring-status', () => ok({
+      ...this.monitoringStatus(),
+      all_signals: this.market.breakoutSignals(),
+    }));
+
+    this.on('GET', '/signals/chart-signals/:symbol', (request, { symbol }) => ok({
+      signals: this.market.chartSignals(symbol, request.query.date || this.market.today()),
+    }));
+
+    this.on('GET', '/signals/performance', () => {
+      const signals = this.recentSignals();
+      const count = (status: BreakoutSignal['status']) => signals.filter((signal) => signal.status === status).length;
+      const completed = count('COMPLETED');
+      const expired = count('EXPIRED');
+      const confidence = signals.reduce((sum, signal) => sum + signal.confidence, 0);
+      return ok({
+        total_signals: signals.length,
+        active_signals: count('ACTIVE'),
+        completed_signals: completed,
+        expired_signals: expired,
+        win_rate: completed + expired ? Math.round((completed / (completed + expired)) * 1000) / 10 : null,
+        average_confidence: signals.length ? Math.round(confidence / signals.length) : null,
+      });
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { AxiosAdapter } from 'axios';
+import { config } from '../config';
+import { MockMarket } from './market';
+import { MockServer } from './handlers';
+import { createMockAdapter } from './adapter';
+import { MockWebSocket } from './socket';
+
+// Local mock backend, enabled by the mockBackend feature flag. The services
+// import this module dynamically behind the flag, so it is split out of the
+// main bundle and only downloaded when enabled. The mock seed selects the
+// generated market and the mock clock pins the starting time.
+
+let backend: { market: MockMarket; server: MockServer } | null = null;
+
+function getBackend() {
+  if (!backend) {
+    const market = new MockMarket(config.mock.seed, config.mock.clock);
+    backend = { market, server: new MockServer(market) };
+    console.log('🧪 Mock backend enabled, market clock at', new Date(market.now() * 1000).toISOString());
+  }
+  return backend;
+}
+
+export function mockAdapter(): AxiosAdapter {
+  return createMockAdapter(getBackend().server);
+}
+
+export function createMockWebSocket(url: string): WebSocket {
+  const { market, server } = getBackend();
+  return new MockWebSocket(url, market, server) as unknown as WebSocket;
+}
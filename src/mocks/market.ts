@@ -0,0 +1,557 @@
+import {
+  ChartCandle,
+  StockData,
+  FeedTick,
+  TradingSession,
+  BreakoutSignal,
+  ChartSignal,
+} from '../types';
+import { createRandom } from './random';
+import { DAY_SECONDS, IST_OFFSET_SECONDS, istDate, istTime, isTradingDay, previousTradingDay } from '../utils/marketTime';
+import { candleTime, isTimeframe } from '../utils/candles';
+
+export { IST_OFFSET_SECONDS, istDate, istTime, isTradingDay, previousTradingDay } from '../utils/marketTime';
+
+// Deterministic synthetic market used by the mock backend. Every trading day
+// is generated from (seed, symbol, date) as a path of 5-second steps, so REST
+// snapshots and live ticks always agree with each other.
+
+const MARKET_OPEN_MINUTE = 9 * 60 + 15; // 09:15 IST
+const SESSION_MINUTES = 375; // 09:15 - 15:30 IST
+export const STEP_SECONDS = 5;
+const STEPS_PER_MINUTE = 60 / STEP_SECONDS;
+const PATH_CACHE_SIZE = 24;
+
+export interface MockInstrument {
+  symbol: string;
+  name: string;
+  exchange: string;
+  basePrice: number;
+  volatility: number; // Relative standard deviation per step
+  baseVolume: number; // Average volume per minute
+  tracks?: string; // Futures follow their underlying plus a premium
+  premium?: number;
+}
+
+export const MOCK_INSTRUMENTS: MockInstrument[] = [
+  { symbol: 'NIFTY', name: 'NIFTY 50', exchange: 'NSE', basePrice: 22450, volatility: 0.00015, baseVolume: 320000 },
+  { symbol: 'BANKNIFTY', name: 'NIFTY BANK', exchange: 'NSE', basePrice: 48500, volatility: 0.0002, baseVolume: 210000 },
+  { symbol: 'FINNIFTY', name: 'NIFTY FINANCIAL SERVICES', exchange: 'NSE', basePrice: 20150, volatility: 0.00017, baseVolume: 90000 },
+  { symbol: 'MIDCPNIFTY', name: 'MIDCPNIFTY', exchange: 'NSE', basePrice: 11400, volatility: 0.00019, baseVolume: 60000 },
+  { symbol: 'SENSEX', name: 'S&P BSE SENSEX', exchange: 'BSE', basePrice: 74500, volatility: 0.00015, baseVolume: 150000 },
+  { symbol: 'BANKEX', name: 'BANKEX', exchange: 'BSE', basePrice: 54000, volatility: 0.0002, baseVolume: 40000 },
+  { symbol: 'NIFTY_FUT1', name: 'NIFTY Futures 1', exchange: 'NFO', basePrice: 22450, volatility: 0.00004, baseVolume: 110000, tracks: 'NIFTY', premium: 0.0035 },
+  { symbol: 'NIFTY_FUT2', name: 'NIFTY Futures 2', exchange: 'NFO', basePrice: 22450, volatility: 0.00005, baseVolume: 45000, tracks: 'NIFTY', premium: 0.0078 },
+];
+
+export const MOCK_SESSIONS = [
+  { name: 'Opening Range', start: '09:15', end: '09:45' },
+  { name: 'Morning Session', start: '09:45', end: '11:15' },
+  { name: 'Midday Session', start: '11:15', end: '13:15' },
+  { name: 'Afternoon Session', start: '13:15', end: '15:30' },
+];
+
+// Breakout signals compare the index against this future
+export const SIGNAL_INDEX = 'NIFTY';
+export const SIGNAL_FUTURE = 'NIFTY_FUT1';
+
+interface DayPath {
+  steps: Float64Array; // Price at the end of every step
+  bars: ChartCandle[]; // Full-day 1m bars
+}
+
+interface SessionWindow {
+  name: string;
+  start: number; // Epoch seconds
+  end: number;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function timeframeMinutes(timeframe: string): number | null {
+  switch (timeframe) {
+    case '1m': return 1;
+    case '5m': return 5;
+    case '15m': return 15;
+    case '1h': return 60;
+    default: return null;
+  }
+}
+
+export class MockMarket {
+  private readonly seed: string;
+  private readonly clockStart: number;
+  private readonly bootTime = Date.now();
+  private readonly paths = new Map<string, DayPath>();
+  private readonly dailyBars = new Map<string, ChartCandle>();
+
+  constructor(seed: string | number, clock?: string) {
+    this.seed = String(seed);
+    this.clockStart = this.resolveClockStart(clock);
+  }
+
+  // A configured clock is used verbatim. Otherwise, outside market hours the
+  // clock starts at 11:00 IST on the latest trading day so ticks keep flowing.
+  private resolveClockStart(clock?: string): number {
+    const parsed = clock ? Date.parse(clock) : NaN;
+    if (!Number.isNaN(parsed)) return Math.floor(parsed / 1000);
+
+    const now = Math.floor(Date.now() / 1000);
+    const today = istDate(now);
+    if (isTradingDay(today) && now >= istTime(today, '09:15') && now < istTime(today, '15:30')) {
+      return now;
+    }
+    const day = isTradingDay(today) && now >= istTime(today, '15:30') ? today : previousTradingDay(today);
+    return istTime(day, '11:00');
+  }
+
+  now(): number {
+    return this.clockStart + Math.floor((Date.now() - this.bootTime) / 1000);
+  }
+
+  today(): string {
+    const today = istDate(this.now());
+    return isTradingDay(today) ? today : previousTradingDay(today);
+  }
+
+  isMarketOpen(at: number = this.now()): boolean {
+    const date = istDate(at);
+    return isTradingDay(date) && at >= istTime(date, '09:15') && at < istTime(date, '15:30');
+  }
+
+  instrument(symbol: string): MockInstrument | undefined {
+    return MOCK_INSTRUMENTS.find((instrument) => instrument.symbol === symbol.toUpperCase());
+  }
+
+  private dayOpen(instrument: MockInstrument, date: string): number {
+    const dayIndex = Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000 / DAY_SECONDS);
+    const random = createRandom(this.seed, instrument.symbol, date, 'open');
+    const phase = (createRandom(this.seed, instrument.symbol).next() * Math.PI * 2);
+    const drift = 0.04 * Math.sin(dayIndex / 17 + phase) + 0.008 * random.normal();
+    return instrument.basePrice * (1 + drift);
+  }
+
+  private path(symbol: string, date: string): DayPath | null {
+    const instrument = this.instrument(symbol);
+    if (!instrument || !isTradingDay(date)) return null;
+
+    const key = `${instrument.symbol}|${date}`;
+    const cached = this.paths.get(key);
+    if (cached) return cached;
+
+    const totalSteps = SESSION_MINUTES * STEPS_PER_MINUTE;
+    const steps = new Float64Array(totalSteps);
+    const random = createRandom(this.seed, instrument.symbol, date, 'steps');
+
+    if (instrument.tracks) {
+      const underlying = this.path(instrument.tracks, date)!;
+      let basis = 0;
+      for (let i = 0; i < totalSteps; i++) {
+        // Mean-reverting basis noise around a fixed premium
+        basis = basis * 0.97 + random.normal() * instrument.volatility;
+        steps[i] = underlying.steps[i] * (1 + (instrument.premium || 0) + basis);
+      }
+    } else {
+      let price = this.dayOpen(instrument, date);
+      for (let i = 0; i < totalSteps; i++) {
+        price *= 1 + random.normal() * instrument.volatility;
+        steps[i] = price;
+      }
+    }
+
+    const volumeRandom = createRandom(this.seed, instrument.symbol, date, 'volume');
+    const sessionStart = istTime(date, '09:15');
+    const bars: ChartCandle[] = [];
+    for (let minute = 0; minute < SESSION_MINUTES; minute++) {
+      const first = minute * STEPS_PER_MINUTE;
+      const open = minute === 0 ? this.dayOpen(instrument, date) : steps[first - 1];
+      let high = open;
+      let low = open;
+      for (let i = first; i < first + STEPS_PER_MINUTE; i++) {
+        high = Math.max(high, steps[i]);
+        low = Math.min(low, steps[i]);
+      }
+      // U-shaped intraday volume profile
+      const shape = 1.6 - Math.sin((Math.PI * minute) / SESSION_MINUTES);
+      bars.push({
+        time: sessionStart + minute * 60,
+        open: round2(open),
+        high: round2(high),
+        low: round2(low),
+        close: round2(steps[first + STEPS_PER_MINUTE - 1]),
+        volume: Math.round(instrument.baseVolume * shape * volumeRandom.between(0.6, 1.4)),
+        symbol: instrument.symbol,
+        exchange: instrument.exchange,
+      });
+    }
+
+    const path = { steps, bars };
+    this.paths.set(key, path);
+    if (this.paths.size > PATH_CACHE_SIZE) {
+      this.paths.delete(this.paths.keys().next().value as string);
+    }
+    return path;
+  }
+
+  // 1m bars for the day as of `at`; the bar in progress is partial
+  minuteBars(symbol: string, date: string, at: number = this.now()): ChartCandle[] {
+    const path = this.path(symbol, date);
+    if (!path) return [];
+
+    const sessionStart = istTime(date, '09:15');
+    const elapsedSteps = Math.floor((at - sessionStart) / STEP_SECONDS);
+    if (elapsedSteps < 0) return [];
+    if (elapsedSteps >= path.bars.length * STEPS_PER_MINUTE) return path.bars;
+
+    const completeMinutes = Math.floor(elapsedSteps / STEPS_PER_MINUTE);
+    const bars = path.bars.slice(0, completeMinutes);
+    const partialSteps = elapsedSteps % STEPS_PER_MINUTE;
+    const template = path.bars[completeMinutes];
+    const first = completeMinutes * STEPS_PER_MINUTE;
+    let { open } = template;
+    let high = open;
+    let low = open;
+    let close = open;
+    for (let i = first; i <= first + partialSteps; i++) {
+      high = Math.max(high, path.steps[i]);
+      low = Math.min(low, path.steps[i]);
+      close = path.steps[i];
+    }
+    bars.push({
+      ...template,
+      high: round2(high),
+      low: round2(low),
+      close: round2(close),
+      volume: Math.round((template.volume * (partialSteps + 1)) / STEPS_PER_MINUTE),
+    });
+    return bars;
+  }
+
+  private dailyBar(symbol: string, date: string): ChartCandle | null {
+    const isComplete = date < istDate(this.now());
+    const key = `${symbol}|${date}`;
+    if (isComplete && this.dailyBars.has(key)) return this.dailyBars.get(key)!;
+
+    const bars = this.minuteBars(symbol, date);
+    if (!bars.length) return null;
+    const bar = aggregate(bars, istTime(date, '00:00'));
+    if (isComplete) this.dailyBars.set(key, bar);
+    return bar;
+  }
+
+  candles(symbol: string, timeframe: string, date: string = this.today()): ChartCandle[] {
+    const minutes = timeframeMinutes(timeframe);
+    if (minutes) {
+      const bars = this.minuteBars(symbol, date);
+      return minutes === 1 ? bars : groupBars(bars, timeframe);
+    }
+
+    // Daily, weekly and monthly bars ending at the requested date
+    const dayCount = timeframe === '1w' ? 260 : timeframe === '1M' ? 500 : 60;
+    const days: string[] = [];
+    let day = isTradingDay(date) ? date : previousTradingDay(date);
+    while (days.length < dayCount) {
+      days.unshift(day);
+      day = previousTradingDay(day);
+    }
+    const daily = days
+      .map((d) => this.dailyBar(symbol, d))
+      .filter((bar): bar is ChartCandle => bar !== null);
+    return timeframe === '1w' || timeframe === '1M' ? groupBars(daily, timeframe) : daily;
+  }
+
+  // Last traded price as of `at` (falls back to the last close outside market hours)
+  priceAt(symbol: string, at: number = this.now()): number | null {
+    const date = istDate(at);
+    const day = isTradingDay(date) && at >= istTime(date, '09:15') ? date : previousTradingDay(date);
+    const bars = this.minuteBars(symbol, day, at);
+    return bars.length ? bars[bars.length - 1].close : null;
+  }
+
+  stockData(symbol: string, at: number = this.now()): StockData | null {
+    const instrument = this.instrument(symbol);
+    if (!instrument) return null;
+    const date = istDate(at);
+    const day = isTradingDay(date) && at >= istTime(date, '09:15') ? date : previousTradingDay(date);
+    const bars = this.minuteBars(instrument.symbol, day, at);
+    const previous = this.dailyBar(instrument.symbol, previousTradingDay(day));
+    if (!bars.length) return null;
+
+    const session = aggregate(bars, bars[0].time);
+    const previousClose = previous ? previous.close : session.open;
+    const change = round2(session.close - previousClose);
+    const changePercent = round2((change / previousClose) * 100);
+    return {
+      symbol: instrument.symbol,
+      name: instrument.name,
+      price: session.close,
+      ltpc: session.close,
+      ch: change,
+      chp: changePercent,
+      change,
+      changePercent,
+      volume: session.volume,
+      high: session.high,
+      low: session.low,
+      open: session.open,
+      close: session.close,
+      previousClose,
+      timestamp: new Date(at * 1000).toISOString(),
+      received_at: new Date(at * 1000).toISOString(),
+      exchange: instrument.exchange,
+    };
+  }
+
+  feedTick(symbol: string, at: number = this.now()): FeedTick | null {
+    const data = this.stockData(symbol, at);
+    if (!data) return null;
+    return {
+      _id: `${data.symbol}-${at}`,
+      symbol: data.symbol,
+      price: data.price!,
+      timestamp: data.timestamp!,
+      token: String(this.instrumentIndex(data.symbol) + 26000),
+      exchange: data.exchange!,
+      high: data.high ?? null,
+      low: data.low ?? null,
+      volume: data.volume,
+      change: data.change ?? null,
+      change_percent: data.changePercent ?? null,
+      source: 'mock',
+      market_status: this.isMarketOpen(at) ? 'open' : 'closed',
+      received_at: data.received_at!,
+    };
+  }
+
+  private instrumentIndex(symbol: string): number {
+    return MOCK_INSTRUMENTS.findIndex((instrument) => instrument.symbol === symbol);
+  }
+
+  private sessionWindows(date: string): SessionWindow[] {
+    return MOCK_SESSIONS.map((session) => ({
+      name: session.name,
+      start: istTime(date, session.start),
+      end: istTime(date, session.end),
+    }));
+  }
+
+  sessions(date: string = this.today()): TradingSession[] {
+    const now = this.now();
+    return this.sessionWindows(date).map((window) => {
+      const session_data: TradingSession['session_data'] = {};
+      MOCK_INSTRUMENTS.forEach((instrument) => {
+        const bars = this.minuteBars(instrument.symbol, date, Math.min(now, window.end - 1))
+          .filter((bar) => bar.time >= window.start && bar.time < window.end);
+        if (bars.length) {
+          const levels = aggregate(bars, window.start);
+          session_data[instrument.symbol] = { high: levels.high, low: levels.low };
+        }
+      });
+      const toIst = (epoch: number) => {
+        const d = new Date((epoch + IST_OFFSET_SECONDS) * 1000);
+        return `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+      };
+      return {
+        name: window.name,
+        start_time: toIst(window.start),
+        end_time: toIst(window.end),
+        is_active: now >= window.start && now < window.end,
+        is_completed: now >= window.end,
+        session_data,
+      };
+    });
+  }
+
+  // Session-anchored VWAP of the bars up to and including `at`
+  vwap(symbol: string, date: string, at: number = this.now()): number | null {
+    const bars = this.minuteBars(symbol, date, at).filter((bar) => bar.time <= at);
+    let volume = 0;
+    let value = 0;
+    bars.forEach((bar) => {
+      volume += bar.volume;
+      value += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    });
+    return volume ? round2(value / volume) : null;
+  }
+
+  // A session breakout fires when the index and its future both close beyond
+  // the previous session's high (BUY_CALL) or low (BUY_PUT).
+  breakoutSignals(date: string = this.today()): BreakoutSignal[] {
+    const now = this.now();
+    const index = this.minuteBars(SIGNAL_INDEX, date, now);
+    const future = this.minuteBars(SIGNAL_FUTURE, date, now);
+    const windows = this.sessionWindows(date);
+    const signals: BreakoutSignal[] = [];
+
+    for (let k = 0; k + 1 < windows.length; k++) {
+      const reference = windows[k];
+      const session = windows[k + 1];
+      if (now < reference.end) break;
+
+      const inReference = (bar: ChartCandle) => bar.time >= reference.start && bar.time < reference.end;
+      const indexLevels = aggregate(index.filter(inReference), reference.start);
+      const futureLevels = aggregate(future.filter(inReference), reference.start);
+
+      for (let i = 0; i < index.length && i < future.length; i++) {
+        const barClose = index[i].time + 60;
+        if (index[i].time < session.start || index[i].time >= session.end || barClose > now) continue;
+
+        const niftyHigh = index[i].close > indexLevels.high;
+        const niftyLow = index[i].close < indexLevels.low;
+        const futureHigh = future[i].close > futureLevels.high;
+        const futureLow = future[i].close < futureLevels.low;
+        if (!(niftyHigh && futureHigh) && !(niftyLow && futureLow)) continue;
+
+        const isCall = niftyHigh && futureHigh;
+        signals.push(this.buildSignal(date, session.name, isCall, i, index, future, indexLevels, futureLevels));
+        break;
+      }
+    }
+    return signals;
+  }
+
+  private buildSignal(
+    date: string,
+    sessionName: string,
+    isCall: boolean,
+    barIndex: number,
+    index: ChartCandle[],
+    future: ChartCandle[],
+    indexLevels: ChartCandle,
+    futureLevels: ChartCandle
+  ): BreakoutSignal {
+    const now = this.now();
+    const generatedAt = index[barIndex].time + 60;
+    const entry = future[barIndex].close;
+    const range = Math.max(futureLevels.high - futureLevels.low, entry * 0.001);
+    const direction = isCall ? 1 : -1;
+    const stopLoss = round2(entry - direction * range * 0.5);
+    const target1 = round2(entry + direction * range);
+    const target2 = round2(entry + direction * range * 2);
+    const niftyAmount = round2(isCall ? index[barIndex].close - indexLevels.high : indexLevels.low - index[barIndex].close);
+    const futureAmount = round2(isCall ? future[barIndex].close - futureLevels.high : futureLevels.low - future[barIndex].close);
+
+    // Resolve the outcome from the bars after the signal
+    let status: BreakoutSignal['status'] = 'ACTIVE';
+    for (let i = barIndex + 1; i < future.length; i++) {
+      const bar = future[i];
+      if (isCall ? bar.high >= target1 : bar.low <= target1) {
+        status = 'COMPLETED';
+        break;
+      }
+      if (isCall ? bar.low <= stopLoss : bar.high >= stopLoss) {
+        status = 'EXPIRED';
+        break;
+      }
+    }
+    if (status === 'ACTIVE' && now >= istTime(date, '15:30')) status = 'EXPIRED';
+
+    const statusText = isCall ? 'BROKE HIGH' as const : 'BROKE LOW' as const;
+    const side = isCall ? 'high' : 'low';
+    const displayText = `NIFTY & ${SIGNAL_FUTURE} broke ${sessionName} ${side}`;
+    return {
+      id: `${date}-${sessionName.toLowerCase().replace(/\s+/g, '-')}-${isCall ? 'call' : 'put'}`,
+      session_name: sessionName,
+      signal_type: isCall ? 'BUY_CALL' : 'BUY_PUT',
+      reason: `Both NIFTY and ${SIGNAL_FUTURE} closed ${isCall ? 'above' : 'below'} the ${sessionName} ${side}`,
+      timestamp: new Date(generatedAt * 1000).toISOString(),
+      nifty_price: index[barIndex].close,
+      future_price: entry,
+      future_symbol: SIGNAL_FUTURE,
+      entry_price: entry,
+      stop_loss: stopLoss,
+      target_1: target1,
+      target_2: target2,
+      confidence: Math.min(95, Math.round(60 + (Math.abs(futureAmount) / range) * 100)),
+      status,
+      session_high: indexLevels.high,
+      session_low: indexLevels.low,
+      future_session_high: futureLevels.high,
+      future_session_low: futureLevels.low,
+      vwap_nifty: this.vwap(SIGNAL_INDEX, date, index[barIndex].time) ?? undefined,
+      vwap_future: this.vwap(SIGNAL_FUTURE, date, index[barIndex].time) ?? undefined,
+      breakout_details: {
+        nifty_breaks_high: isCall,
+        nifty_breaks_low: !isCall,
+        future_breaks_high: isCall,
+        future_breaks_low: !isCall,
+        nifty_breakout_amount: niftyAmount,
+        future_breakout_amount: futureAmount,
+      },
+      breakout_summary: {
+        display_text: displayText,
+        nifty_status: statusText,
+        future_status: statusText,
+        breakout_type: isCall ? 'BULLISH' : 'BEARISH',
+        levels: {
+          nifty_session_high: indexLevels.high,
+          nifty_session_low: indexLevels.low,
+          future_session_high: futureLevels.high,
+          future_session_low: futureLevels.low,
+          nifty_price_at_signal: index[barIndex].close,
+          future_price_at_signal: entry,
+        },
+      },
+      display_text: displayText,
+    };
+  }
+
+  chartSignals(symbol: string, date: string = this.today()): ChartSignal[] {
+    const isIndex = symbol.toUpperCase() === SIGNAL_INDEX;
+    if (!isIndex && symbol.toUpperCase() !== SIGNAL_FUTURE) return [];
+    return this.breakoutSignals(date).map((signal) => {
+      const basis = isIndex ? signal.nifty_price - signal.future_price : 0;
+      const level = (price?: number) => (price === undefined ? undefined : round2(price + basis));
+      return {
+        id: signal.id,
+        time: Date.parse(signal.timestamp) / 1000 - 60,
+        type: signal.signal_type,
+        price: isIndex ? signal.nifty_price : signal.future_price,
+        confidence: signal.confidence,
+        session_name: signal.session_name,
+        reason: signal.reason,
+        breakout_type: signal.signal_type === 'BUY_CALL' ? 'HIGH' : 'LOW',
+        vwap: isIndex ? signal.vwap_nifty : signal.vwap_future,
+        session_high: isIndex ? signal.session_high : signal.future_session_high,
+        session_low: isIndex ? signal.session_low : signal.future_session_low,
+        status: signal.status,
+        entry_price: level(signal.entry_price),
+        stop_loss: level(signal.stop_loss),
+        target_1: level(signal.target_1),
+        target_2: level(signal.target_2),
+        breakout_summary: signal.breakout_summary,
+      };
+    });
+  }
+}
+
+// Buckets bars the same way the client's CandleAggregator does
+function groupBars(bars: ChartCandle[], timeframe: string): ChartCandle[] {
+  if (!isTimeframe(timeframe)) return bars;
+  const groups = new Map<number, ChartCandle[]>();
+  bars.forEach((bar) => {
+    const time = candleTime(bar.time, timeframe);
+    if (!groups.has(time)) groups.set(time, []);
+    groups.get(time)!.push(bar);
+  });
+  return Array.from(groups.entries()).map(([time, group]) => aggregate(group, time));
+}
+
+function aggregate(bars: ChartCandle[], time: number): ChartCandle {
+  return bars.reduce<ChartCandle>(
+    (acc, bar) => ({
+      ...acc,
+      high: Math.max(acc.high, bar.high),
+      low: Math.min(acc.low, bar.low),
+      close: bar.close,
+      volume: acc.volume + bar.volume,
+    }),
+    { ...bars[0], time, volume: 0 }
+  );
+}
@@ -0,0 +1,44 @@
+// Seedable pseudo-random helpers for the mock backend. The same seed and key
+// always produce the same sequence, which keeps screenshots and tests stable.
+
+// 32-bit FNV-1a hash, used to derive independent streams from string keys
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export interface Random {
+  next(): number; // Uniform in [0, 1)
+  normal(): number; // Standard normal
+  between(min: number, max: number): number;
+  int(min: number, max: number): number;
+}
+
+// mulberry32 generator
+export function createRandom(seed: number | string, ...keys: Array<string | number>): Random {
+  let state = hashString([seed, ...keys].join('|'));
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    normal: () => {
+      // Box-Muller transform
+      const u = Math.max(next(), Number.EPSILON);
+      const v = next();
+      return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    },
+    between: (min, max) => min + next() * (max - min),
+    int: (min, max) => Math.floor(min + next() * (max - min + 1)),
+  };
+}
@@ -0,0 +1,156 @@
+import { BreakoutSignal, WebSocketEventMap, WebSocketMessage, WebSocketMessageType } from '../types';
+import { MockMarket, STEP_SECONDS } from './market';
+import { MockServer } from './handlers';
+
+const HEARTBEAT_INTERVAL = 30000;
+const REPLY_DELAY_MS = 15;
+
+// Drop-in stand-in for the browser WebSocket that speaks the backend's
+// WebSocketMessage protocol: price_update and chart_update for subscribed
+// symbols every mock step, signal_update for new or changed breakout
+// signals, plus heartbeat, pong and subscription confirmations. Price and
+// chart frames carry a per-symbol sequence number that restarts with every
+// connection.
+export class MockWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readyState: number = MockWebSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private readonly symbols = new Set<string>();
+  private readonly signalStatus = new Map<string, BreakoutSignal['status']>();
+  private readonly sequences = new Map<string, number>();
+  private timers: number[] = [];
+
+  constructor(
+    readonly url: string,
+    private readonly market: MockMarket,
+    private readonly server: MockServer
+  ) {
+    super();
+    setTimeout(() => this.open(), 0);
+  }
+
+  send(raw: string): void {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new Error('MockWebSocket is not open');
+    }
+    // Reply asynchronously like a real server, after a short round trip
+    setTimeout(() => this.receive(raw), REPLY_DELAY_MS);
+  }
+
+  private receive(raw: string): void {
+    let message: { type?: string; symbol?: string };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.emit('error', { message: 'Invalid JSON' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'subscribe':
+        if (!message.symbol || !this.market.instrument(message.symbol)) {
+          this.emit('error', { message: `Unknown symbol ${message.symbol}` });
+          return;
+        }
+        this.symbols.add(message.symbol);
+        this.emit('subscription_confirmed', { symbol: message.symbol }, { symbol: message.symbol });
+        this.pushSymbol(message.symbol);
+        break;
+      case 'unsubscribe':
+        this.symbols.delete(message.symbol || '');
+        this.emit('unsubscription_confirmed', { symbol: message.symbol || '' }, { symbol: message.symbol });
+        break;
+      case 'ping':
+        this.emit('pong', {});
+        break;
+      default:
+        this.emit('error', { message: `Unsupported message type ${message.type}` });
+    }
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === MockWebSocket.CLOSED) return;
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+    this.readyState = MockWebSocket.CLOSED;
+    const event = new CloseEvent('close', { code, reason, wasClean: code === 1000 });
+    this.dispatchEvent(event);
+    this.onclose?.(event);
+  }
+
+  private open(): void {
+    if (this.readyState !== MockWebSocket.CONNECTING) return;
+
+    const token = new URL(this.url, window.location.href).searchParams.get('token');
+    if (token && !this.server.userForToken(token)) {
+      this.close(1008, 'Invalid token');
+      return;
+    }
+
+    this.readyState = MockWebSocket.OPEN;
+    const event = new Event('open');
+    this.dispatchEvent(event);
+    this.onopen?.(event);
+
+    // Existing signals are known to the client via REST; only report changes
+    this.market.breakoutSignals().forEach((signal) => this.signalStatus.set(signal.id, signal.status));
+
+    this.timers.push(
+      window.setInterval(() => this.step(), STEP_SECONDS * 1000),
+      window.setInterval(() => this.emit('heartbeat', { server_time: new Date(this.market.now() * 1000).toISOString() }), HEARTBEAT_INTERVAL)
+    );
+  }
+
+  private step(): void {
+    if (!this.market.isMarketOpen()) return;
+    this.symbols.forEach((symbol) => this.pushSymbol(symbol));
+
+    this.market.breakoutSignals().forEach((signal) => {
+      if (this.signalStatus.get(signal.id) !== signal.status) {
+        this.signalStatus.set(signal.id, signal.status);
+        this.emit('signal_update', signal);
+      }
+    });
+  }
+
+  private pushSymbol(symbol: string): void {
+    const stock = this.market.stockData(symbol);
+    if (stock) this.emit('price_update', stock, { symbol, seq: this.nextSeq(symbol) });
+
+    const bars = this.market.minuteBars(symbol, this.market.today());
+    if (bars.length) this.emit('chart_update', bars[bars.length - 1], { symbol, timeframe: '1m', seq: this.nextSeq(symbol) });
+  }
+
+  private nextSeq(symbol: string): number {
+    const seq = (this.sequences.get(symbol) ?? 0) + 1;
+    this.sequences.set(symbol, seq);
+    return seq;
+  }
+
+  private emit<K extends WebSocketMessageType>(
+    type: K,
+    data: WebSocketEventMap[K],
+    meta: { symbol?: string; timeframe?: string; seq?: number } = {}
+  ): void {
+    if (this.readyState !== MockWebSocket.OPEN) return;
+    const message = {
+      type,
+      data,
+      timestamp: new Date(this.market.now() * 1000).toISOString(),
+      ...(meta.symbol ? { symbol: meta.symbol } : {}),
+      ...(meta.timeframe ? { timeframe: meta.timeframe } : {}),
+      ...(meta.seq !== undefined ? { seq: meta.seq } : {}),
+    } as WebSocketMessage;
+    const event = new MessageEvent('message', { data: JSON.stringify(message) });
+    this.dispatchEvent(event);
+    this.onmessage?.(event);
+  }
+}
@@ -15,27 +15,11 @@ import {
 import SignalsPanel from '../components/SignalsPanel';
 import { useBreakoutSignals } from '../hooks/useBreakoutSignals';
 import apiService from '../services/api';
-
-interface MonitoringStatus {
-  monitoring_active: boolean;
-  market_hours: boolean;
-  current_time_ist: string;
-  service_status: string;
-  latest_signal?: any;
-}
-
-interface SessionStatus {
-  name: string;
-  start_time: string;
-  end_time: string;
-  is_active: boolean;
-  is_completed: boolean;
-  session_data?: any;
-}
+import { MonitoringStatus, TradingSession } from '../types';
 
 export default function BreakoutSignals() {
   const [monitoringStatus, setMonitoringStatus] = useState<MonitoringStatus | null>(null);
-  const [sessionStatus, setSessionStatus] = useState<SessionStatus[]>([]);
+  const [sessionStatus, setSessionStatus] = useState<TradingSession[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -59,7 +43,7 @@ export default function BreakoutSignals() {
       ]);
       
       setMonitoringStatus(monitoringResponse);
-      setSessionStatus(sessionResponse.sessions || []);
+      setSessionStatus(sessionResponse.sessions);
     } catch (err: any) {
       console.error('Error fetching status:', err);
       setError(err.response?.data?.detail || 'Failed to fetch status');
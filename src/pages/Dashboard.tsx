@@ -3,7 +3,6 @@ import { Link } from 'react-router-dom';
 import { 
   TrendingUp, 
   TrendingDown, 
-  BarChart3, 
   Clock, 
   Target, 
   AlertTriangle,
@@ -29,6 +28,9 @@ import { apiService } from '../services/api';
 import { useFeedData } from '../hooks/useFeedData';
 import { formatCurrency, formatPercentage, getChangeColor, getChangeBgColor } from '../utils';
 import StockSearch from '../components/StockSearch';
+import IndicatorSummary from '../components/IndicatorSummary';
+import TradingChart from '../components/chart/TradingChart';
+import { useChartConfig } from '../hooks/useChartConfig';
 
 interface DashboardProps {
   user?: User;
@@ -75,7 +77,8 @@ export default function Dashboard({ user }: DashboardProps) {
   const [signals, setSignals] = useState<Signal[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showAdvancedMetrics, setShowAdvancedMetrics] = useState(false);
-  const [timeframe, setTimeframe] = useState<'1m' | '5m' | '15m' | '1h' | '1d'>('1m');
+  const { config: chartConfig, updateConfig: updateChartConfig } = useChartConfig('dashboard', { timeframe: '1m' });
+  const { timeframe } = chartConfig;
   const [lastRefresh, setLastRefresh] = useState(new Date());
   const [marketOverview, setMarketOverview] = useState<{
     gainers: StockData[];
@@ -352,7 +355,7 @@ export default function Dashboard({ user }: DashboardProps) {
                 {(['1m', '5m', '15m', '1h', '1d'] as const).map((tf) => (
                   <button
                     key={tf}
-                    onClick={() => setTimeframe(tf)}
+                    onClick={() => updateChartConfig({ timeframe: tf })}
                     className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all duration-200 ${
                       timeframe === tf
                         ? 'bg-primary-600 text-white shadow-sm'
@@ -457,16 +460,15 @@ export default function Dashboard({ user }: DashboardProps) {
                 </div>
               </div>
               
-              {/* Chart Placeholder */}
-              <div className="h-96 bg-gradient-to-br from-slate-50 to-slate-100 rounded-lg border border-slate-200 flex items-center justify-center">
-                <div className="text-center">
-                  <BarChart3 className="w-16 h-16 text-slate-400 mx-auto mb-4" />
-                  <p className="text-slate-600 font-medium">Interactive Chart Coming Soon</p>
-                  <p className="text-sm text-slate-500 mt-1">
-                    Real-time candlestick chart with buy/sell signals
-                  </p>
-                </div>
-              </div>
+              {selectedIndex && (
+                <TradingChart
+                  symbol={selectedIndex.symbol}
+                  displayName={selectedIndex.name}
+                  config={chartConfig}
+                  onConfigChange={updateChartConfig}
+                  height="384px"
+                />
+              )}
             </div>
 
             {/* Advanced Metrics */}
@@ -481,24 +483,13 @@ export default function Dashboard({ user }: DashboardProps) {
                 </button>
               </div>
               
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div className="text-center p-4 bg-slate-50 rounded-lg">
-                  <div className="text-2xl font-bold text-slate-900">RSI</div>
-                  <div className="text-sm text-slate-600">65.4</div>
-                </div>
-                <div className="text-center p-4 bg-slate-50 rounded-lg">
-                  <div className="text-2xl font-bold text-slate-900">MACD</div>
-                  <div className="text-sm text-emerald-600">Bullish</div>
-                </div>
-                <div className="text-center p-4 bg-slate-50 rounded-lg">
-                  <div className="text-2xl font-bold text-slate-900">MA</div>
-                  <div className="text-sm text-slate-600">22,450</div>
-                </div>
-                <div className="text-center p-4 bg-slate-50 rounded-lg">
-                  <div className="text-2xl font-bold text-slate-900">Volume</div>
-                  <div className="text-sm text-slate-600">125M</div>
-                </div>
-              </div>
+              {selectedIndex && (
+                <IndicatorSummary
+                  symbol={selectedIndex.symbol}
+                  timeframe={timeframe}
+                  detailed={showAdvancedMetrics}
+                />
+              )}
             </div>
           </div>
 
@@ -1,13 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import { Eye, EyeOff, Mail, Lock, CheckCircle, AlertCircle, Loader2, X } from 'lucide-react';
-import { User } from '../types';
 import { isValidEmail } from '../utils';
-import { apiService } from '../services/api';
-
-interface LoginProps {
-  onLogin: (user: User) => void;
-}
+import { useAuth } from '../contexts/AuthContext';
 
 interface FieldState {
   value: string;
@@ -17,7 +12,9 @@ interface FieldState {
   isFocused: boolean;
 }
 
-export default function Login({ onLogin }: LoginProps) {
+export default function Login() {
+  const { login } = useAuth();
+  const location = useLocation();
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -185,24 +182,14 @@ export default function Login({ onLogin }: LoginProps) {
     setSuccess(false);
     
     try {
-      // Call the backend login API
-      const response = await apiService.login({
+      // Stores the session and loads the user; the router then returns to the page that sent here
+      await login({
         email: formData.email,
         password: formData.password
       });
       
-      // Store the JWT token
-      localStorage.setItem('authToken', response.access_token);
-      
       setSuccess(true);
       
-      // Get user details
-      const user = await apiService.getCurrentUser();
-      
-      setTimeout(() => {
-        onLogin(user);
-      }, 500);
-      
     } catch (err: any) {
       const newAttempts = attempts + 1;
       setAttempts(newAttempts);
@@ -450,6 +437,7 @@ export default function Login({ onLogin }: LoginProps) {
               Don't have an account?{' '}
               <Link
                 to="/register"
+                state={location.state}
                 className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
               >
                 Sign up here
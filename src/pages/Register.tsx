@@ -1,13 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import { Eye, EyeOff, Mail, Lock, User, CheckCircle, AlertCircle, Loader2, X, Shield } from 'lucide-react';
-import { User as UserType } from '../types';
 import { isValidEmail } from '../utils';
-import { apiService } from '../services/api';
-
-interface RegisterProps {
-  onRegister: (user: UserType) => void;
-}
+import { useAuth } from '../contexts/AuthContext';
 
 interface FieldState {
   value: string;
@@ -23,7 +18,9 @@ interface PasswordStrength {
   color: string;
 }
 
-export default function Register({ onRegister }: RegisterProps) {
+export default function Register() {
+  const { register } = useAuth();
+  const location = useLocation();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -292,8 +289,8 @@ export default function Register({ onRegister }: RegisterProps) {
     setSuccess(false);
 
     try {
-      // Call the backend register API
-      const user = await apiService.register({
+      // Creates the account and signs in with the new credentials
+      await register({
         email: formData.email,
         password: formData.password,
         name: formData.name
@@ -301,10 +298,6 @@ export default function Register({ onRegister }: RegisterProps) {
       
       setSuccess(true);
       
-      setTimeout(() => {
-        onRegister(user);
-      }, 500);
-      
     } catch (err: any) {
       setError(err.response?.data?.detail || 'Registration failed. Please try again.');
       triggerShake();
@@ -673,6 +666,7 @@ export default function Register({ onRegister }: RegisterProps) {
               Already have an account?{' '}
               <Link
                 to="/login"
+                state={location.state}
                 className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
               >
                 Sign in here
@@ -1,23 +1,21 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Search, 
-  BarChart3, 
   TrendingUp, 
   TrendingDown, 
   Loader2,
   AlertCircle,
   Calendar,
-  Clock,
   Filter,
   Grid,
   List,
   Activity,
   Zap,
-  Bell
+  Bell,
+  LayoutGrid
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import apiService from '../services/api';
-import Chart from '../components/Chart';
-import EnhancedChart from '../components/EnhancedChart';
 import ProfessionalSignalsPanel from '../components/ProfessionalSignalsPanel';
 
 interface Symbol {
@@ -53,7 +51,6 @@ const AVAILABLE_SYMBOLS: Symbol[] = [
 export default function Signals() {
   const [availableSymbols, setAvailableSymbols] = useState<Symbol[]>([]);
   const [selectedSymbol, setSelectedSymbol] = useState<Symbol | null>(null);
-  const [timeframe, setTimeframe] = useState('1m');
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredSymbols, setFilteredSymbols] = useState<Symbol[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -98,11 +95,6 @@ export default function Signals() {
     setSelectedSymbol(symbol);
   };
 
-  // Handle timeframe change
-  const handleTimeframeChange = (newTimeframe: string) => {
-    setTimeframe(newTimeframe);
-  };
-
   // Format price for display
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -143,6 +135,13 @@ export default function Signals() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <Link
+                to="/workspace"
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-xl shadow-sm text-white"
+              >
+                <LayoutGrid className="w-4 h-4" />
+                <span className="text-sm font-medium">Chart Workspace</span>
+              </Link>
               <div className="flex items-center space-x-2 px-4 py-2 bg-white/80 dark:bg-gray-800/80 rounded-xl shadow-sm backdrop-blur-sm border border-gray-200 dark:border-gray-700">
                 <Calendar className="w-4 h-4 text-blue-500" />
                 <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{getCurrentDate()}</span>
@@ -235,71 +234,11 @@ export default function Signals() {
             </div>
           </div>
           
-          {/* Chart Panel - Middle */}
-          <div className="col-span-5">
-            <div className="bg-white/90 dark:bg-gray-800/90 rounded-2xl shadow-xl backdrop-blur-md border border-gray-200/50 dark:border-gray-700/50 overflow-hidden">
-              {selectedSymbol ? (
-                <div className="h-full">
-                  {/* Chart Header */}
-                  <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-gray-50 to-blue-50 dark:from-gray-800 dark:to-gray-700">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <div className="p-2 bg-blue-500 rounded-lg">
-                          <BarChart3 className="w-5 h-5 text-white" />
-                        </div>
-                        <div>
-                          <h3 className="font-bold text-gray-900 dark:text-white">{selectedSymbol.name}</h3>
-                          <p className="text-sm text-gray-600 dark:text-gray-400">
-                            {selectedSymbol.symbol} • {selectedSymbol.exchange}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <div className="px-3 py-1 bg-green-100 dark:bg-green-900/30 rounded-lg">
-                          <span className="text-xs font-medium text-green-700 dark:text-green-300">Active</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className="p-1">
-                    <EnhancedChart
-                      symbol={selectedSymbol.symbol}
-                      displayName={selectedSymbol.name}
-                      timeframe={timeframe}
-                      onTimeframeChange={handleTimeframeChange}
-                      showSignals={true}
-                      showVWAP={true}
-                      showSessionLevels={true}
-                      refreshInterval={60000}
-                    />
-                  </div>
-                </div>
-              ) : (
-                <div className="h-96 flex items-center justify-center p-8">
-                  <div className="text-center">
-                    <div className="mx-auto w-20 h-20 bg-gradient-to-r from-blue-100 to-indigo-100 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-2xl flex items-center justify-center mb-6">
-                      <BarChart3 className="w-10 h-10 text-blue-500" />
-                    </div>
-                    <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
-                      Select Market Index
-                    </h3>
-                    <p className="text-gray-600 dark:text-gray-400 mb-4">
-                      Choose an index from the sidebar to view real-time charts and technical analysis
-                    </p>
-                    <div className="flex items-center justify-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
-                      <Clock className="w-4 h-4" />
-                      <span>Live market data available</span>
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-
-            
+          {/* Professional Signals Panel - Charts open in the workspace */}
+          <div className="col-span-10">
             {/* Enhanced Error Display */}
             {error && (
-              <div className="mt-4 bg-gradient-to-r from-red-50 to-pink-50 dark:from-red-900/20 dark:to-pink-900/20 border-2 border-red-200 dark:border-red-800 rounded-xl p-4 shadow-lg">
+              <div className="mb-4 bg-gradient-to-r from-red-50 to-pink-50 dark:from-red-900/20 dark:to-pink-900/20 border-2 border-red-200 dark:border-red-800 rounded-xl p-4 shadow-lg">
                 <div className="flex items-center space-x-3">
                   <div className="p-2 bg-red-100 dark:bg-red-900/30 rounded-lg">
                     <AlertCircle className="w-5 h-5 text-red-500" />
@@ -311,10 +250,6 @@ export default function Signals() {
                 </div>
               </div>
             )}
-          </div>
-
-          {/* Professional Signals Panel - Uses All Remaining Space */}
-          <div className="col-span-5">
             <ProfessionalSignalsPanel 
               symbol={selectedSymbol?.symbol}
               className="h-full max-h-[calc(100vh-140px)]"
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { MemoryRouter } from 'react-router-dom';
+import { User, Workspace } from '../types';
+import { apiService } from '../services/api';
+import { tokenStore } from '../services/tokenStore';
+import { AuthProvider, useAuth } from '../contexts/AuthContext';
+import { encodeWorkspace } from '../utils/workspaces';
+import WorkspacePage from './Workspace';
+
+vi.mock('../components/chart/TradingChart', () => ({ default: () => null }));
+
+// Lets act() flush effects and state updates as React expects in tests
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const USER: User = {
+  id: 'alice',
+  email: 'alice@example.com',
+  name: 'Alice',
+  preferences: {
+    theme: 'light',
+    defaultTimeframe: '5m',
+    favoriteStocks: [],
+    notifications: { priceAlerts: true, signalAlerts: true, email: false },
+  },
+};
+
+const SAVED: Workspace = {
+  id: 'ws1',
+  name: 'Opening range',
+  layout: '1x2',
+  cells: [
+    { symbol: 'NIFTY', timeframe: '1m', linkGroup: 'A' },
+    { symbol: 'BANKNIFTY', timeframe: '5m', linkGroup: 'A' },
+  ],
+  updatedAt: 1,
+};
+
+// Renders the page once the stored session is restored, as App does
+function SignedIn() {
+  const { user } = useAuth();
+  return user ? <WorkspacePage /> : null;
+}
+
+describe('WorkspacePage', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('chartWorkspaces.alice', JSON.stringify({ [SAVED.id]: SAVED }));
+    tokenStore.setFromResponse({ access_token: 'token', token_type: 'bearer' }, 'login');
+    vi.spyOn(apiService, 'getCurrentUser').mockResolvedValue(USER);
+    vi.spyOn(apiService, 'getAvailableSymbols').mockResolvedValue({ symbols: [] } as never);
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    tokenStore.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('reopens the saved workspace of the signed-in account on reload', async () => {
+    const params = encodeWorkspace(SAVED);
+    params.set('id', SAVED.id);
+
+    await act(async () => {
+      root.render(
+        <AuthProvider>
+          <MemoryRouter initialEntries={[`/workspace?${params}`]}>
+            <SignedIn />
+          </MemoryRouter>
+        </AuthProvider>
+      );
+    });
+
+    const select = container.querySelector('select')!;
+    expect(select.value).toBe(SAVED.id);
+    expect(container.textContent).not.toContain('Unsaved workspace');
+  });
+});
@@ -0,0 +1,245 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Check, LayoutGrid, Plus, Save, Share2, Trash2 } from 'lucide-react';
+import apiService from '../services/api';
+import { workspaceStore } from '../services/workspaceStore';
+import TradingChart from '../components/chart/TradingChart';
+import { useChartConfig } from '../hooks/useChartConfig';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { AvailableSymbol, ChartConfig, Workspace, WorkspaceCell, WorkspaceLayout } from '../types';
+import { WORKSPACE_LAYOUTS, createWorkspace, decodeWorkspace, encodeWorkspace, fitCells } from '../utils/workspaces';
+import { cn } from '../utils/cn';
+
+// Price pane height by number of grid rows
+const CHART_HEIGHTS: Record<number, string> = {
+  1: 'calc(100vh - 340px)',
+  2: '340px',
+  3: '240px',
+};
+
+const COPIED_MS = 2000;
+
+// A link opens the workspace it holds, keeping the id of the one saved here
+// it came from so saving updates that. Otherwise the saved workspace with the
+// link's id opens, or the first saved one, or a new one.
+function initialWorkspace(params: URLSearchParams): Workspace {
+  const linked = decodeWorkspace(params);
+  const id = params.get('id');
+  const saved = id ? workspaceStore.get(id) : null;
+  if (linked) return saved ? { ...linked, id: saved.id } : linked;
+  return saved ?? workspaceStore.list()[0] ?? createWorkspace('My workspace');
+}
+
+const sameLayout = (a: Workspace, b: Workspace) =>
+  a.name === b.name && a.layout === b.layout && JSON.stringify(a.cells) === JSON.stringify(b.cells);
+
+interface WorkspaceChartProps {
+  index: number;
+  cell: WorkspaceCell;
+  symbols: AvailableSymbol[];
+  height: string;
+  onChange: (changes: Partial<WorkspaceCell>) => void;
+}
+
+// One grid cell. Symbol, timeframe and link group belong to the workspace;
+// the chart's other settings are kept per cell position.
+function WorkspaceChart({ index, cell, symbols, height, onChange }: WorkspaceChartProps) {
+  const { config, updateConfig } = useChartConfig(`workspace.${index}`);
+  const chartConfig = useMemo<ChartConfig>(
+    () => ({ ...config, timeframe: cell.timeframe, linkGroup: cell.linkGroup }),
+    [config, cell.timeframe, cell.linkGroup]
+  );
+  const listed = symbols.some(s => s.symbol === cell.symbol);
+
+  const handleConfigChange = (changes: Partial<ChartConfig>) => {
+    const { timeframe, linkGroup, ...rest } = changes;
+    if (timeframe) onChange({ timeframe });
+    if (linkGroup !== undefined) onChange({ linkGroup });
+    if (Object.keys(rest).length) updateConfig(rest);
+  };
+
+  return (
+    <div className="min-w-0 space-y-1">
+      <select
+        value={cell.symbol}
+        onChange={(e) => onChange({ symbol: e.target.value })}
+        className="px-2 py-1 text-xs font-medium rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        title="Symbol"
+      >
+        {!listed && <option value={cell.symbol}>{cell.symbol}</option>}
+        {symbols.map(s => (
+          <option key={s.symbol} value={s.symbol}>{s.name} ({s.symbol})</option>
+        ))}
+      </select>
+      <TradingChart
+        symbol={cell.symbol}
+        displayName={symbols.find(s => s.symbol === cell.symbol)?.name}
+        config={chartConfig}
+        onConfigChange={handleConfigChange}
+        refreshInterval={60000}
+        height={height}
+      />
+    </div>
+  );
+}
+
+export default function WorkspacePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [workspace, setWorkspace] = useState<Workspace>(() => initialWorkspace(searchParams));
+  const [symbols, setSymbols] = useState<AvailableSymbol[]>([]);
+  const [copied, setCopied] = useState(false);
+  const workspaces = useWorkspaces();
+
+  const saved = workspaces.find(w => w.id === workspace.id) ?? null;
+  const modified = !saved || !sameLayout(saved, workspace);
+  const { rows, columns } = WORKSPACE_LAYOUTS[workspace.layout];
+
+  useEffect(() => {
+    apiService.getAvailableSymbols()
+      .then(response => setSymbols(response.symbols))
+      .catch(error => console.error('❌ Error loading available symbols:', error));
+  }, []);
+
+  // The address bar always holds a link to the workspace as shown
+  useEffect(() => {
+    const params = encodeWorkspace(workspace);
+    params.set('id', workspace.id);
+    setSearchParams(params, { replace: true });
+  }, [workspace, setSearchParams]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), COPIED_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const updateCell = (index: number, changes: Partial<WorkspaceCell>) => {
+    setWorkspace(prev => ({
+      ...prev,
+      cells: prev.cells.map((cell, i) => (i === index ? { ...cell, ...changes } : cell)),
+    }));
+  };
+
+  const setLayout = (layout: WorkspaceLayout) => {
+    setWorkspace(prev => ({ ...prev, layout, cells: fitCells(prev.cells, layout) }));
+  };
+
+  const open = (id: string) => {
+    const next = workspaceStore.get(id);
+    if (next) setWorkspace(next);
+  };
+
+  const save = () => {
+    const name = workspace.name.trim() || 'Untitled workspace';
+    setWorkspace(prev => ({ ...prev, name }));
+    workspaceStore.set({ ...workspace, name });
+  };
+
+  const remove = () => {
+    if (!saved || !window.confirm(`Delete the workspace "${saved.name}"?`)) return;
+    workspaceStore.remove(saved.id);
+    setWorkspace(workspaces.find(w => w.id !== saved.id) ?? createWorkspace('My workspace'));
+  };
+
+  const share = async () => {
+    const params = encodeWorkspace(workspace);
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/workspace?${params}`);
+      setCopied(true);
+    } catch (error) {
+      console.error('❌ Failed to copy workspace link:', error);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-white dark:bg-gray-800 rounded-lg shadow">
+        <LayoutGrid className="w-5 h-5 text-blue-600" />
+        <select
+          value={saved ? workspace.id : ''}
+          onChange={(e) => open(e.target.value)}
+          className="px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          title="Saved workspaces"
+        >
+          {!saved && <option value="">Unsaved workspace</option>}
+          {workspaces.map(w => (
+            <option key={w.id} value={w.id}>{w.name}</option>
+          ))}
+        </select>
+        <input
+          value={workspace.name}
+          onChange={(e) => setWorkspace(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Workspace name"
+          className="w-44 px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+          {(Object.keys(WORKSPACE_LAYOUTS) as WorkspaceLayout[]).map(layout => (
+            <button
+              key={layout}
+              onClick={() => setLayout(layout)}
+              className={cn(
+                'px-2 py-1 text-xs font-medium rounded-md transition-colors',
+                workspace.layout === layout
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+              )}
+            >
+              {WORKSPACE_LAYOUTS[layout].label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={save}
+          disabled={!modified}
+          className="flex items-center px-2 py-1 text-xs rounded bg-blue-100 text-blue-700 disabled:opacity-50"
+        >
+          <Save className="w-3 h-3 mr-1" />
+          {saved ? 'Save' : 'Save workspace'}
+        </button>
+        <button
+          onClick={() => setWorkspace(createWorkspace(`Workspace ${workspaces.length + 1}`, workspace.layout))}
+          className="flex items-center px-2 py-1 text-xs rounded bg-gray-100 text-gray-600"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          New
+        </button>
+        <button
+          onClick={share}
+          className="flex items-center px-2 py-1 text-xs rounded bg-gray-100 text-gray-600"
+          title="Copy a link that opens this workspace"
+        >
+          {copied ? <Check className="w-3 h-3 mr-1" /> : <Share2 className="w-3 h-3 mr-1" />}
+          {copied ? 'Link copied' : 'Share'}
+        </button>
+        {saved && (
+          <button
+            onClick={remove}
+            className="p-1 text-gray-500 hover:text-red-600"
+            title="Delete workspace"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        {saved && modified && <span className="text-xs text-amber-600">Unsaved changes</span>}
+      </div>
+
+      {/* Charts */}
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      >
+        {workspace.cells.map((cell, index) => (
+          <WorkspaceChart
+            key={index}
+            index={index}
+            cell={cell}
+            symbols={symbols}
+            height={CHART_HEIGHTS[rows]}
+            onChange={changes => updateCell(index, changes)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
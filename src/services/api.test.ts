@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ApiService } from './api';
+import { tokenStore } from './tokenStore';
+
+const USER = {
+  id: '1',
+  email: 'trader@example.com',
+  name: 'Trader',
+  preferences: {
+    theme: 'light',
+    defaultTimeframe: '5m',
+    favoriteStocks: [],
+    notifications: { priceAlerts: true, signalAlerts: true, email: false },
+  },
+};
+
+// A service whose backend answers /auth/refresh with a new token and other
+// requests with `status`, recording the path of every request it sees
+function stubService(status: (path: string, attempt: number) => number) {
+  const calls: string[] = [];
+  const adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const path = config.url || '';
+    calls.push(path);
+    const code = status(path, calls.filter(call => call === path).length);
+    const data = path === '/auth/refresh'
+      ? { access_token: 'renewed', token_type: 'bearer' }
+      : USER;
+    const response: AxiosResponse = { data, status: code, statusText: String(code), headers: {}, config };
+    if (code >= 400) {
+      throw new AxiosError(`Request failed with status code ${code}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+    }
+    return response;
+  };
+  return { apiService: new ApiService(adapter), calls };
+}
+
+describe('401 handling', () => {
+  beforeEach(() => {
+    tokenStore.setFromResponse({ access_token: 'expired', token_type: 'bearer', refresh_token: 'refresh' }, 'login');
+  });
+
+  it('refreshes the session and retries the request once', async () => {
+    const { apiService, calls } = stubService((path, attempt) => (path === '/auth/me' && attempt === 1 ? 401 : 200));
+
+    await expect(apiService.getCurrentUser()).resolves.toMatchObject({ id: '1' });
+    expect(calls).toEqual(['/auth/me', '/auth/refresh', '/auth/me']);
+    expect(tokenStore.getAccessToken()).toBe('renewed');
+  });
+
+  it('rejects on a second 401 after the refresh and ends the session', async () => {
+    const { apiService, calls } = stubService(path => (path === '/auth/refresh' ? 200 : 401));
+
+    await expect(apiService.getCurrentUser()).rejects.toMatchObject({ response: { status: 401 } });
+    expect(calls).toEqual(['/auth/me', '/auth/refresh', '/auth/me']);
+    expect(tokenStore.getTokens()).toBeNull();
+  });
+
+  it('does not refresh when the refresh itself is rejected', async () => {
+    const { apiService, calls } = stubService(() => 401);
+
+    await expect(apiService.getCurrentUser()).rejects.toMatchObject({ response: { status: 401 } });
+    expect(calls).toEqual(['/auth/me', '/auth/refresh']);
+    expect(tokenStore.getTokens()).toBeNull();
+  });
+});
@@ -1,238 +1,352 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { 
-  StockData, 
-  CandlestickData, 
-  TradingSignal, 
-  ApiResponse, 
-  StockSearchResponse, 
-  HistoricalDataResponse, 
-  SignalsResponse,
+import axios, { AxiosAdapter, AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import {
+  StockData,
+  TradingSignal,
+  StockSearchResponse,
+  HistoricalDataResponse,
   LoginCredentials,
   AuthResponse,
-  User
+  User,
+  FeedResponse,
+  FeedHealthResponse,
+  ChartDataResponse,
+  AvailableSymbolsResponse,
+  MarketOverview,
+  MonitoringStatus,
+  TodaySignalsResponse,
+  MonitoringToggleResponse,
+  SessionStatusResponse,
+  TechnicalAnalysisResponse,
+  SignalsListResponse,
+  SignalHistoryResponse,
+  ChartSignalsResponse,
+  SignalPerformance,
+  SessionSignals,
 } from '../types';
+import { Schema, SchemaValidationError, ValidationIssue, s } from '../utils/schema';
+import {
+  envelope,
+  authResponseSchema,
+  userSchema,
+  stockDataSchema,
+  stockSearchSchema,
+  historicalDataSchema,
+  marketOverviewSchema,
+  symbolListSchema,
+  feedResponseSchema,
+  feedHealthSchema,
+  chartDataSchema,
+  availableSymbolsSchema,
+  tradingSignalSchema,
+  toTradingSignal,
+  signalsListSchema,
+  monitoringSignalsSchema,
+  monitoringStatusSchema,
+  todaySignalsSchema,
+  monitoringToggleSchema,
+  sessionStatusSchema,
+  technicalAnalysisSchema,
+  signalHistorySchema,
+  chartSignalsSchema,
+  signalPerformanceSchema,
+} from './schemas';
+import { config } from '../config';
+import { tokenStore } from './tokenStore';
+
+// Raised when a response does not match its declared schema
+export class ApiValidationError extends SchemaValidationError {
+  readonly method: string;
+  readonly url: string;
+
+  constructor(method: string, url: string, issues: ValidationIssue[]) {
+    super(issues, `Unexpected response from ${method} ${url}: ${issues.length} validation issue(s)`);
+    this.name = 'ApiValidationError';
+    this.method = method;
+    this.url = url;
+  }
+}
+
+const emptySchema = s.unknown().transform((): void => undefined);
+
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60000;
+// Spread out refreshes so tabs sharing a session don't all refresh at once
+const REFRESH_JITTER_MS = 10000;
+// Endpoints that authenticate themselves and must never trigger a refresh
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+type RetriableConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// Loads the mock backend on first use, so it stays out of the main bundle
+const mockAdapter: AxiosAdapter = async (requestConfig) => (await import('../mocks')).mockAdapter()(requestConfig);
 
-class ApiService {
+export class ApiService {
   private api: AxiosInstance;
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTimer: number | null = null;
 
-  constructor() {
-    // Use full backend URL for development
-    const baseURL = window.location.hostname === 'localhost' 
-      ? 'http://localhost:8000/api/v1'
-      : '/api/v1';
-    
+  // Requests go through `adapter`, by default axios' own or the in-browser
+  // mock backend when enabled
+  constructor(adapter: AxiosAdapter | undefined = config.features.mockBackend ? mockAdapter : undefined) {
     this.api = axios.create({
-      baseURL,
-      timeout: 30000, // Increased timeout to 30 seconds for chart data
+      baseURL: config.apiBaseUrl,
+      timeout: config.requestTimeout,
       headers: {
         'Content-Type': 'application/json',
       },
+      adapter,
     });
 
     // Request interceptor to add auth token
     this.api.interceptors.request.use(
-      (config) => {
-        const token = localStorage.getItem('authToken');
-        if (token) {
-          config.headers.Authorization = `Bearer ${token}`;
+      async (requestConfig) => {
+        if (!AUTH_ENDPOINTS.includes(requestConfig.url || '')) {
+          // Requests issued while a refresh is in flight wait for the new token
+          const token = await this.getAccessToken();
+          if (token) {
+            requestConfig.headers.Authorization = `Bearer ${token}`;
+          }
         }
-        return config;
+        return requestConfig;
       },
       (error) => {
         return Promise.reject(error);
       }
     );
 
-    // Response interceptor for error handling
+    // Response interceptor: renew the session once on 401, then give up
     this.api.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          localStorage.removeItem('authToken');
-          window.location.href = '/login';
+      async (error) => {
+        const original: RetriableConfig | undefined = error.config;
+        if (error.response?.status !== 401 || !original || AUTH_ENDPOINTS.includes(original.url || '')) {
+          return Promise.reject(error);
         }
+
+        if (!original._retry && tokenStore.getRefreshToken()) {
+          // Marked on the config itself, which axios copies into the retried request
+          original._retry = true;
+          try {
+            await this.refreshSession();
+          } catch {
+            return Promise.reject(error);
+          }
+          return this.api.request(original);
+        }
+
+        // The session can't be renewed; AuthProvider reacts to the cleared store
+        tokenStore.clear('expired');
         return Promise.reject(error);
       }
     );
+
+    tokenStore.subscribe(() => this.scheduleRefresh());
+    this.scheduleRefresh();
+  }
+
+  private async getAccessToken(): Promise<string | null> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+    if (tokenStore.getRefreshToken() && tokenStore.isExpiring(5000)) {
+      return this.refreshSession();
+    }
+    return tokenStore.getAccessToken();
+  }
+
+  // Silent refresh shortly before the access token expires
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const tokens = tokenStore.getTokens();
+    if (!tokens?.refreshToken || !tokens.expiresAt) return;
+
+    const delay = tokens.expiresAt - REFRESH_MARGIN_MS - Date.now() + Math.random() * REFRESH_JITTER_MS;
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshSession().catch(() => undefined);
+    }, Math.max(delay, 0));
+  }
+
+  // Exchanges the refresh token for a new access token. Concurrent callers
+  // share one request; a rejected refresh token ends the session.
+  refreshSession(): Promise<string> {
+    if (!this.refreshPromise) {
+      const refreshToken = tokenStore.getRefreshToken();
+      this.refreshPromise = (async () => {
+        if (!refreshToken) {
+          throw new Error('No refresh token available');
+        }
+        try {
+          const response = await this.post('/auth/refresh', authResponseSchema, { refresh_token: refreshToken });
+          tokenStore.setFromResponse(response, 'refresh');
+          console.log('🔑 Access token refreshed');
+          return response.access_token;
+        } catch (error: any) {
+          console.error('❌ Token refresh failed:', error);
+          if (error.response && [400, 401, 403].includes(error.response.status)) {
+            tokenStore.clear('expired');
+          }
+          throw error;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  // Performs the request and validates the body against the endpoint schema
+  private async request<T>(schema: Schema<T>, config: AxiosRequestConfig): Promise<T> {
+    const response = await this.api.request(config);
+    const result = schema.safeParse(response.data);
+    if (!result.success) {
+      const method = (config.method || 'get').toUpperCase();
+      const error = new ApiValidationError(method, config.url || '', result.issues);
+      console.error('❌ API response validation failed:', error.message, error.issues);
+      throw error;
+    }
+    return result.data;
+  }
+
+  private get<T>(url: string, schema: Schema<T>, params?: Record<string, unknown>): Promise<T> {
+    return this.request(schema, { method: 'get', url, params });
+  }
+
+  private post<T>(url: string, schema: Schema<T>, data?: unknown): Promise<T> {
+    return this.request(schema, { method: 'post', url, data });
+  }
+
+  private put<T>(url: string, schema: Schema<T>, data?: unknown): Promise<T> {
+    return this.request(schema, { method: 'put', url, data });
+  }
+
+  private delete<T>(url: string, schema: Schema<T>): Promise<T> {
+    return this.request(schema, { method: 'delete', url });
   }
 
   // Authentication
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
-    const response: AxiosResponse<AuthResponse> = await this.api.post('/auth/login', credentials);
-    return response.data;
+    const response = await this.post('/auth/login', authResponseSchema, credentials);
+    tokenStore.setFromResponse(response, 'login');
+    return response;
   }
 
   async register(userData: { email: string; password: string; name: string }): Promise<User> {
-    const response: AxiosResponse<User> = await this.api.post('/auth/register', userData);
-    return response.data;
+    return this.post('/auth/register', userSchema, userData);
   }
 
   async logout(): Promise<void> {
-    await this.api.post('/auth/logout');
-    localStorage.removeItem('authToken');
+    try {
+      await this.post('/auth/logout', emptySchema, { refresh_token: tokenStore.getRefreshToken() || undefined });
+    } finally {
+      tokenStore.clear('logout');
+    }
   }
 
   async getCurrentUser(): Promise<User> {
-    const response: AxiosResponse<User> = await this.api.get('/auth/me');
-    return response.data;
+    return this.get('/auth/me', userSchema);
   }
 
   // Feed Endpoints
-  async getLatestMarketData(symbol?: string, limit: number = 100): Promise<any> {
-    const params = new URLSearchParams();
-    if (symbol) params.append('symbol', symbol);
-    if (limit) params.append('limit', limit.toString());
-    
-    const response: AxiosResponse<any> = await this.api.get(`/feed/latest?${params.toString()}`);
-    return response.data;
+  async getLatestMarketData(symbol?: string, limit: number = 100): Promise<FeedResponse> {
+    return this.get('/feed/latest', feedResponseSchema, { symbol, limit: limit || undefined });
   }
 
-  async getMarketSummary(): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.get('/feed/summary');
-    return response.data;
+  async getMarketSummary(): Promise<FeedResponse> {
+    return this.get('/feed/summary', feedResponseSchema);
   }
 
-  async getFeedHealth(): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.get('/feed/health');
-    return response.data;
+  async getFeedHealth(): Promise<FeedHealthResponse> {
+    return this.get('/feed/health', feedHealthSchema);
   }
 
   // Stock Data
   async searchStocks(query: string): Promise<StockSearchResponse> {
-    const response: AxiosResponse<ApiResponse<StockSearchResponse>> = await this.api.get(`/stocks/search?q=${query}`);
-    return response.data.data;
+    return this.get('/stocks/search', envelope(stockSearchSchema), { q: query });
   }
 
   async getStockData(symbol: string): Promise<StockData> {
-    const response: AxiosResponse<ApiResponse<StockData>> = await this.api.get(`/stocks/${symbol}`);
-    return response.data.data;
+    return this.get(`/stocks/${symbol}`, envelope(stockDataSchema));
   }
 
   async getHistoricalData(symbol: string, timeframe: string = '1d'): Promise<HistoricalDataResponse> {
-    const response: AxiosResponse<ApiResponse<HistoricalDataResponse>> = await this.api.get(
-      `/stocks/${symbol}/historical?timeframe=${timeframe}`
-    );
-    return response.data.data;
+    return this.get(`/stocks/${symbol}/historical`, envelope(historicalDataSchema), { timeframe });
   }
 
   async getMultipleStockData(symbols: string[]): Promise<StockData[]> {
-    const response: AxiosResponse<ApiResponse<StockData[]>> = await this.api.post('/stocks/batch', { symbols });
-    return response.data.data;
+    return this.post('/stocks/batch', envelope(s.array(stockDataSchema)), { symbols });
   }
 
   // Trading Signals
   async getSignals(symbol?: string): Promise<TradingSignal[]> {
     // Use the working direct endpoint
-    const response: AxiosResponse<any> = await this.api.get('/signals/direct');
-    return response.data.signals || [];
+    const response = await this.get('/signals/direct', signalsListSchema);
+    return response.signals.map(toTradingSignal);
   }
 
   async generateSignal(symbol: string): Promise<TradingSignal> {
-    const response: AxiosResponse<ApiResponse<TradingSignal>> = await this.api.post(`/signals/generate`, { symbol });
-    return response.data.data;
+    return this.post('/signals/generate', envelope(tradingSignalSchema), { symbol });
   }
 
   // User Preferences
   async updatePreferences(preferences: Partial<User['preferences']>): Promise<User> {
-    const response: AxiosResponse<ApiResponse<User>> = await this.api.put('/user/preferences', preferences);
-    return response.data.data;
+    return this.put('/user/preferences', envelope(userSchema), preferences);
   }
 
   async getFavorites(): Promise<string[]> {
-    const response: AxiosResponse<ApiResponse<string[]>> = await this.api.get('/user/favorites');
-    return response.data.data;
+    return this.get('/user/favorites', envelope(symbolListSchema));
   }
 
   async addToFavorites(symbol: string): Promise<void> {
-    await this.api.post('/user/favorites', { symbol });
+    await this.post('/user/favorites', emptySchema, { symbol });
   }
 
   async removeFromFavorites(symbol: string): Promise<void> {
-    await this.api.delete(`/user/favorites/${symbol}`);
+    await this.delete(`/user/favorites/${symbol}`, emptySchema);
   }
 
   // Market Data
-  async getMarketOverview(): Promise<{
-    gainers: StockData[];
-    losers: StockData[];
-    mostActive: StockData[];
-  }> {
-    const response: AxiosResponse<ApiResponse<any>> = await this.api.get('/market/overview');
-    return response.data.data;
+  async getMarketOverview(): Promise<MarketOverview> {
+    return this.get('/market/overview', envelope(marketOverviewSchema));
   }
 
   async getWatchlist(): Promise<StockData[]> {
-    const response: AxiosResponse<ApiResponse<StockData[]>> = await this.api.get('/user/watchlist');
-    return response.data.data;
+    return this.get('/user/watchlist', envelope(s.array(stockDataSchema)));
   }
 
   async addToWatchlist(symbol: string): Promise<void> {
-    await this.api.post('/user/watchlist', { symbol });
+    await this.post('/user/watchlist', emptySchema, { symbol });
   }
 
   async removeFromWatchlist(symbol: string): Promise<void> {
-    await this.api.delete(`/user/watchlist/${symbol}`);
+    await this.delete(`/user/watchlist/${symbol}`, emptySchema);
   }
 
   // Chart Data
-  async getChartData(symbol: string, timeframe: string = '1m', date?: string): Promise<{
-    symbol: string;
-    timeframe: string;
-    date: string;
-    data: Array<{
-      time: number; // Unix timestamp in seconds
-      open: number;
-      high: number;
-      low: number;
-      close: number;
-      volume: number;
-      symbol: string;
-      exchange: string;
-    }>;
-    count: number;
-    data_source: string;
-    latest_price: number;
-    real_time: boolean;
-    tick_count: number;
-  }> {
-    const params = new URLSearchParams();
-    params.append('timeframe', timeframe);
-    if (date) params.append('date', date);
-    
-    const response: AxiosResponse<any> = await this.api.get(
-      `/chart-data/${symbol}?${params.toString()}`
-    );
+  async getChartData(symbol: string, timeframe: string = '1m', date?: string): Promise<ChartDataResponse> {
     // The backend returns the data directly, not wrapped in a data property
-    return response.data;
-  }
-
-  async getAvailableSymbols(): Promise<{
-    symbols: Array<{
-      symbol: string;
-      name: string;
-      exchange: string;
-    }>;
-    count: number;
-  }> {
-    const response: AxiosResponse<any> = await this.api.get('/available-symbols');
+    return this.get(`/chart-data/${symbol}`, chartDataSchema, { timeframe, date });
+  }
+
+  async getAvailableSymbols(): Promise<AvailableSymbolsResponse> {
     // The backend returns the data directly, not wrapped in a data property
-    return response.data;
+    return this.get('/available-symbols', availableSymbolsSchema);
   }
 
   // Signal Detection API methods
-  async startSignalMonitoring(): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.post('/signals/start-monitoring');
-    return response.data;
+  async startSignalMonitoring(): Promise<MonitoringToggleResponse> {
+    return this.post('/signals/start-monitoring', monitoringToggleSchema);
   }
 
-  async stopSignalMonitoring(): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.post('/signals/stop-monitoring');
-    return response.data;
+  async stopSignalMonitoring(): Promise<MonitoringToggleResponse> {
+    return this.post('/signals/stop-monitoring', monitoringToggleSchema);
   }
 
-  async getActiveSignals(): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.get('/signals/active');
-    return response.data;
+  async getActiveSignals(): Promise<SignalsListResponse> {
+    return this.get('/signals/active', signalsListSchema);
   }
 
   async getSignalHistory(params?: {
@@ -240,82 +354,63 @@ class ApiService {
     symbol?: string;
     signal_type?: string;
     session_name?: string;
-  }): Promise<any> {
-    const queryParams = new URLSearchParams();
-    if (params?.limit) queryParams.append('limit', params.limit.toString());
-    if (params?.symbol) queryParams.append('symbol', params.symbol);
-    if (params?.signal_type) queryParams.append('signal_type', params.signal_type);
-    if (params?.session_name) queryParams.append('session_name', params.session_name);
-    
-    const response: AxiosResponse<any> = await this.api.get(`/signals/history?${queryParams.toString()}`);
-    return response.data;
+  }): Promise<SignalHistoryResponse> {
+    return this.get('/signals/history', signalHistorySchema, params);
   }
 
-  async getSessionStatus(): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.get('/signals/sessions');
-    return response.data;
+  // Sessions of a past IST trading day (YYYY-MM-DD), or today's when omitted
+  async getSessionStatus(date?: string): Promise<SessionStatusResponse> {
+    return this.get('/signals/sessions', sessionStatusSchema, { date });
   }
 
-  async getTechnicalAnalysis(symbol: string): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.get(`/signals/technical/${symbol}`);
-    return response.data;
+  async getTechnicalAnalysis(symbol: string): Promise<TechnicalAnalysisResponse> {
+    return this.get(`/signals/technical/${symbol}`, technicalAnalysisSchema);
   }
 
-  async getMonitoringStatus(): Promise<any> {
+  async getMonitoringStatus(): Promise<MonitoringStatus> {
     // Use the new today-only endpoint that properly filters current day data
-    const response: AxiosResponse<any> = await this.api.get('/signals/today');
-    return response.data;
+    return this.get('/signals/today', monitoringStatusSchema);
   }
 
-  async getTodaySignals(): Promise<any> {
+  async getTodaySignals(): Promise<TodaySignalsResponse> {
     // Use the new today-only endpoint that returns pre-filtered data
-    const response: AxiosResponse<any> = await this.api.get('/signals/today');
-    return response.data;
+    return this.get('/signals/today', todaySignalsSchema);
   }
 
   async getChartSignals(symbol: string, params?: {
     date?: string;
     timeframe?: string;
-  }): Promise<any> {
-    const queryParams = new URLSearchParams();
-    if (params?.date) queryParams.append('date', params.date);
-    if (params?.timeframe) queryParams.append('timeframe', params.timeframe);
-    
-    const response: AxiosResponse<any> = await this.api.get(`/signals/chart-signals/${symbol}?${queryParams.toString()}`);
-    return response.data;
+  }): Promise<ChartSignalsResponse> {
+    return this.get(`/signals/chart-signals/${symbol}`, chartSignalsSchema, params);
   }
 
-  async getSignalPerformance(): Promise<any> {
-    const response: AxiosResponse<any> = await this.api.get('/signals/performance');
-    return response.data;
+  async getSignalPerformance(): Promise<SignalPerformance> {
+    return this.get('/signals/performance', signalPerformanceSchema);
   }
 
   // New enhanced signal endpoints
   async getSignalsWithBreakoutDetails(params?: {
     limit?: number;
     session_name?: string;
-  }): Promise<any> {
+  }): Promise<SignalsListResponse> {
     // Use the working direct endpoint
-    const response: AxiosResponse<any> = await this.api.get('/signals/direct');
-    return { signals: response.data.signals || [] };
+    return this.get('/signals/direct', signalsListSchema);
   }
 
   async getSignalsBySession(params?: {
     date?: string;
     limit?: number;
-  }): Promise<any> {
+  }): Promise<{ sessions: SessionSignals }> {
     // Use the working monitoring-status endpoint which has all_signals
-    const response: AxiosResponse<any> = await this.api.get('/signals/monitoring-status');
-    const signals = response.data.all_signals || [];
+    const { signals } = await this.get('/signals/monitoring-status', monitoringSignalsSchema);
     
     // Group signals by session manually
-    const sessions: { [key: string]: any[] } = {};
-    signals.forEach((signal: any) => {
-      const sessionName = signal.session_name || 'Unknown Session';
-      if (!sessions[sessionName]) {
-        sessions[sessionName] = [];
+    const sessions: SessionSignals = {};
+    signals.forEach((signal) => {
+      if (!sessions[signal.session_name]) {
+        sessions[signal.session_name] = [];
       }
-      sessions[sessionName].push(signal);
+      sessions[signal.session_name].push(signal);
     });
     
     return { sessions };
@@ -327,32 +422,26 @@ class ApiService {
     signal_type?: string;
     session_name?: string;
     group_by_session?: boolean;
-  }): Promise<any> {
-    const queryParams = new URLSearchParams();
-    if (params?.limit) queryParams.append('limit', params.limit.toString());
-    if (params?.symbol) queryParams.append('symbol', params.symbol);
-    if (params?.signal_type) queryParams.append('signal_type', params.signal_type);
-    if (params?.session_name) queryParams.append('session_name', params.session_name);
-    if (params?.group_by_session) queryParams.append('group_by_session', 'true');
-    
-    const response: AxiosResponse<any> = await this.api.get(`/signals/history?${queryParams.toString()}`);
-    return response.data;
+  }): Promise<SignalHistoryResponse> {
+    const { group_by_session, ...query } = params || {};
+    return this.get('/signals/history', signalHistorySchema, {
+      ...query,
+      group_by_session: group_by_session ? 'true' : undefined,
+    });
   }
 
   async getChartSignalsGrouped(symbol: string, params?: {
     date?: string;
     timeframe?: string;
     group_by_session?: boolean;
-  }): Promise<any> {
-    const queryParams = new URLSearchParams();
-    if (params?.date) queryParams.append('date', params.date);
-    if (params?.timeframe) queryParams.append('timeframe', params.timeframe);
-    if (params?.group_by_session) queryParams.append('group_by_session', 'true');
-    
-    const response: AxiosResponse<any> = await this.api.get(`/signals/chart-signals/${symbol}?${queryParams.toString()}`);
-    return response.data;
+  }): Promise<ChartSignalsResponse> {
+    const { group_by_session, ...query } = params || {};
+    return this.get(`/signals/chart-signals/${symbol}`, chartSignalsSchema, {
+      ...query,
+      group_by_session: group_by_session ? 'true' : undefined,
+    });
   }
 }
 
 export const apiService = new ApiService();
-export default apiService; 
\ No newline at end of file
+export default apiService;
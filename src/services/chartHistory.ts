@@ -0,0 +1,28 @@
+import { ChartCandle } from '../types';
+import { apiService } from './api';
+import { currentTradingDay } from '../utils/marketTime';
+
+// Candles of past trading days, fetched as charts scroll back. A finished
+// day never changes, so each is requested once per symbol and timeframe for
+// the life of the page, and charts asking at the same time share the request.
+
+class ChartHistory {
+  private days: Map<string, Promise<ChartCandle[]>> = new Map();
+
+  load(symbol: string, timeframe: string, date: string): Promise<ChartCandle[]> {
+    const key = `${symbol}:${timeframe}:${date}`;
+    const cached = this.days.get(key);
+    if (cached) return cached;
+
+    const request = apiService.getChartData(symbol, timeframe, date).then((response) => response.data);
+    // Today is still forming, and failed days are retried on the next scroll
+    if (date < currentTradingDay()) {
+      this.days.set(key, request);
+      request.catch(() => this.days.delete(key));
+    }
+    return request;
+  }
+}
+
+export const chartHistory = new ChartHistory();
+export default chartHistory;
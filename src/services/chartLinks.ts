@@ -0,0 +1,70 @@
+import { ChartLinkGroup } from '../types';
+import { Timeframe } from '../utils/candles';
+
+// Link groups for charts: every chart in a group follows the crosshair time,
+// visible time range and timeframe of the others. Members are the charts
+// mounted in this tab plus those in other tabs, reached over a BroadcastChannel,
+// so two windows side by side stay in step too.
+
+export type LinkEvent =
+  | { kind: 'crosshair'; time: number | null }
+  | { kind: 'range'; from: number; to: number }
+  | { kind: 'timeframe'; timeframe: Timeframe };
+
+export type LinkListener = (event: LinkEvent) => void;
+
+interface LinkMessage {
+  group: ChartLinkGroup;
+  event: LinkEvent;
+}
+
+const CHANNEL_NAME = 'traderx-chart-links';
+
+class ChartLinks {
+  private groups: Map<ChartLinkGroup, Set<LinkListener>> = new Map();
+  private channel: BroadcastChannel | null = typeof BroadcastChannel === 'undefined'
+    ? null
+    : new BroadcastChannel(CHANNEL_NAME);
+  private delivering = false;
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<LinkMessage>) => this.deliver(event.data.group, event.data.event);
+    }
+  }
+
+  join(group: ChartLinkGroup, listener: LinkListener): () => void {
+    const members = this.groups.get(group) ?? new Set<LinkListener>();
+    members.add(listener);
+    this.groups.set(group, members);
+
+    return () => {
+      members.delete(listener);
+      if (!members.size) this.groups.delete(group);
+    };
+  }
+
+  // Events a member raises while applying one it received are its echo and dropped
+  publish(group: ChartLinkGroup, source: LinkListener, event: LinkEvent): void {
+    if (this.delivering) return;
+    this.deliver(group, event, source);
+    const message: LinkMessage = { group, event };
+    this.channel?.postMessage(message);
+  }
+
+  private deliver(group: ChartLinkGroup, event: LinkEvent, source?: LinkListener): void {
+    const members = this.groups.get(group);
+    if (!members) return;
+
+    this.delivering = true;
+    try {
+      members.forEach(listener => {
+        if (listener !== source) listener(event);
+      });
+    } finally {
+      this.delivering = false;
+    }
+  }
+}
+
+export const chartLinks = new ChartLinks();
@@ -0,0 +1,27 @@
+import { Drawing, DrawingSet } from '../types';
+import { PreferenceStore } from './preferenceStore';
+
+// Chart drawings per symbol and timeframe, kept per account and synced with
+// the user preferences (see PreferenceStore)
+
+export const drawingKey = (symbol: string, timeframe: string) => `${symbol}:${timeframe}`;
+
+const EMPTY: Drawing[] = [];
+
+class DrawingStore extends PreferenceStore<DrawingSet> {
+  constructor() {
+    super('chartDrawings', 'chart drawings', (drawings) => ({ drawings }));
+  }
+
+  get(symbol: string, timeframe: string): Drawing[] {
+    return this.read(drawingKey(symbol, timeframe))?.drawings ?? EMPTY;
+  }
+
+  // Cleared sets stay as empty entries so the deletion reaches the server
+  set(symbol: string, timeframe: string, drawings: Drawing[]): void {
+    this.write(drawingKey(symbol, timeframe), { drawings, updatedAt: Date.now() });
+  }
+}
+
+export const drawingStore = new DrawingStore();
+export default drawingStore;
@@ -0,0 +1,204 @@
+import { FeedResyncReason, FeedSnapshot, FeedTick, StockData, WebSocketMessage } from '../types';
+import { apiService } from './api';
+
+// Tracks per-symbol sequence numbers of the live feed. When a frame goes
+// missing, or the socket reconnects, deltas for the symbol are held back
+// while a REST snapshot is fetched; the snapshot is published first and the
+// buffered deltas that are newer than it are replayed after.
+
+type FeedMessage = Extract<WebSocketMessage, { type: 'price_update' | 'chart_update' }>;
+
+export interface FeedSyncHooks {
+  deliver: (message: WebSocketMessage) => void;
+  publishSnapshot: (snapshot: FeedSnapshot) => void;
+  wantsCandles: (symbol: string) => boolean;
+}
+
+interface SymbolSync {
+  lastSeq: number | null;
+  syncing: boolean;
+  generation: number; // Bumped per resync so superseded snapshots are dropped
+  buffer: FeedMessage[];
+  lastQuote: StockData | null;
+  retryTimer: number | null;
+}
+
+const MAX_BUFFERED = 500;
+const RESYNC_RETRY_DELAY = 5000;
+
+export function tickToStockData(tick: FeedTick): StockData {
+  return {
+    symbol: tick.symbol,
+    price: tick.price,
+    ltpc: tick.price,
+    ch: tick.change ?? undefined,
+    chp: tick.change_percent ?? undefined,
+    change: tick.change ?? undefined,
+    changePercent: tick.change_percent ?? undefined,
+    volume: tick.volume ?? 0,
+    high: tick.high ?? undefined,
+    low: tick.low ?? undefined,
+    timestamp: tick.timestamp,
+    received_at: tick.received_at,
+    exchange: tick.exchange,
+  };
+}
+
+function isFeedMessage(message: WebSocketMessage): message is FeedMessage {
+  return message.type === 'price_update' || message.type === 'chart_update';
+}
+
+export class FeedSynchronizer {
+  private symbols: Map<string, SymbolSync> = new Map();
+
+  constructor(private readonly hooks: FeedSyncHooks) {}
+
+  track(symbol: string): void {
+    if (this.symbols.has(symbol)) return;
+    this.symbols.set(symbol, {
+      lastSeq: null,
+      syncing: false,
+      generation: 0,
+      buffer: [],
+      lastQuote: null,
+      retryTimer: null,
+    });
+  }
+
+  untrack(symbol: string): void {
+    const state = this.symbols.get(symbol);
+    if (state?.retryTimer) {
+      clearTimeout(state.retryTimer);
+    }
+    this.symbols.delete(symbol);
+  }
+
+  clear(): void {
+    Array.from(this.symbols.keys()).forEach(symbol => this.untrack(symbol));
+  }
+
+  // Server sequence numbers restart with every connection, and anything sent
+  // while the socket was down is lost, so every tracked symbol resyncs
+  reconnected(): void {
+    this.symbols.forEach((state, symbol) => {
+      state.lastSeq = null;
+      this.resync(symbol, 'reconnect');
+    });
+  }
+
+  handle(message: WebSocketMessage): void {
+    if (!isFeedMessage(message)) {
+      this.hooks.deliver(message);
+      return;
+    }
+
+    const symbol = message.symbol ?? message.data.symbol;
+    const state = this.symbols.get(symbol);
+    if (!state) {
+      this.hooks.deliver(message);
+      return;
+    }
+
+    if (message.seq !== undefined) {
+      if (state.lastSeq !== null && message.seq <= state.lastSeq) {
+        console.log(`📡 Dropping duplicate ${message.type} for ${symbol} (seq ${message.seq})`);
+        return;
+      }
+
+      const expected = state.lastSeq === null ? null : state.lastSeq + 1;
+      state.lastSeq = message.seq;
+      if (expected !== null && message.seq > expected) {
+        console.warn(`⚠️ Feed gap for ${symbol}: expected seq ${expected}, got ${message.seq}`);
+        this.buffer(state, message);
+        this.resync(symbol, 'gap');
+        return;
+      }
+    }
+
+    if (state.syncing) {
+      this.buffer(state, message);
+      return;
+    }
+    this.deliver(state, message);
+  }
+
+  private deliver(state: SymbolSync, message: FeedMessage): void {
+    if (message.type === 'price_update') {
+      state.lastQuote = message.data;
+    }
+    this.hooks.deliver(message);
+  }
+
+  private buffer(state: SymbolSync, message: FeedMessage): void {
+    state.buffer.push(message);
+    if (state.buffer.length > MAX_BUFFERED) {
+      state.buffer.shift();
+    }
+  }
+
+  private async resync(symbol: string, reason: FeedResyncReason): Promise<void> {
+    const state = this.symbols.get(symbol);
+    if (!state) return;
+
+    if (state.retryTimer) {
+      clearTimeout(state.retryTimer);
+      state.retryTimer = null;
+    }
+    const generation = ++state.generation;
+    state.syncing = true;
+    console.log(`🔄 Resyncing ${symbol} from a REST snapshot (${reason})`);
+
+    const isCurrent = () => this.symbols.get(symbol) === state && state.generation === generation;
+
+    try {
+      const [feed, chart] = await Promise.all([
+        apiService.getLatestMarketData(symbol, 1),
+        this.hooks.wantsCandles(symbol) ? apiService.getChartData(symbol, '1m') : Promise.resolve(null),
+      ]);
+      if (!isCurrent()) return;
+
+      const tick = feed.data.find(item => item.symbol === symbol);
+      const snapshot: FeedSnapshot = {
+        symbol,
+        reason,
+        // Ticks carry fewer fields than price_update, so keep what we already know
+        quote: tick ? { ...state.lastQuote, ...tickToStockData(tick) } : null,
+        candles: chart ? chart.data : null,
+        fetchedAt: new Date().toISOString(),
+      };
+      if (snapshot.quote) {
+        state.lastQuote = snapshot.quote;
+      }
+      this.hooks.publishSnapshot(snapshot);
+      this.flush(state, snapshot);
+    } catch (error) {
+      if (!isCurrent()) return;
+      console.error(`❌ Snapshot resync failed for ${symbol}:`, error);
+      // Live deltas beat a frozen ticker; the retry fills in what was missed
+      this.flush(state, null);
+      state.retryTimer = window.setTimeout(() => {
+        state.retryTimer = null;
+        this.resync(symbol, reason);
+      }, RESYNC_RETRY_DELAY);
+    }
+  }
+
+  // Replays buffered deltas that are newer than the snapshot
+  private flush(state: SymbolSync, snapshot: FeedSnapshot | null): void {
+    const quoteTime = snapshot?.quote?.timestamp ? Date.parse(snapshot.quote.timestamp) : null;
+    const lastCandle = snapshot?.candles?.[snapshot.candles.length - 1];
+    const buffered = state.buffer;
+    state.buffer = [];
+    state.syncing = false;
+
+    buffered.forEach(message => {
+      if (message.type === 'price_update') {
+        const time = message.data.timestamp ? Date.parse(message.data.timestamp) : null;
+        if (quoteTime !== null && time !== null && time <= quoteTime) return;
+      } else if (lastCandle && message.data.time < lastCandle.time) {
+        return;
+      }
+      this.deliver(state, message);
+    });
+  }
+}
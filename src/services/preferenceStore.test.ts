@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi, SpyInstance } from 'vitest';
+import { DrawingSet, User, UserPreferences } from '../types';
+import { apiService } from './api';
+import { PreferenceStore } from './preferenceStore';
+import { tokenStore } from './tokenStore';
+
+// Exposes the protected accessors, with entries told apart by updatedAt
+class TestStore extends PreferenceStore<DrawingSet> {
+  constructor() {
+    super('testDrawings', 'test drawings', (drawings) => ({ drawings }));
+  }
+
+  get(key: string) {
+    return this.read(key)?.updatedAt;
+  }
+
+  set(key: string, updatedAt: number) {
+    this.write(key, { drawings: [], updatedAt });
+  }
+}
+
+const set = (updatedAt: number): DrawingSet => ({ drawings: [], updatedAt });
+
+describe('PreferenceStore', () => {
+  let update: SpyInstance<[Partial<UserPreferences>], Promise<User>>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    update = vi.spyOn(apiService, 'updatePreferences').mockResolvedValue({} as User);
+    tokenStore.setFromResponse({ access_token: 'token', token_type: 'bearer' }, 'login');
+  });
+
+  afterEach(() => {
+    tokenStore.clear();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps each account\'s entries apart', () => {
+    const store = new TestStore();
+    store.setUser('alice');
+    store.set('a', 1);
+
+    store.setUser('bob');
+    expect(store.get('a')).toBeUndefined();
+    // Alice's pending sync never runs under Bob's session
+    vi.runAllTimers();
+    expect(update).not.toHaveBeenCalled();
+
+    store.setUser('alice');
+    expect(store.get('a')).toBe(1);
+  });
+
+  it('keeps signed-out entries out of the next account', () => {
+    const store = new TestStore();
+    store.set('a', 1);
+    store.setUser('alice');
+    expect(store.get('a')).toBeUndefined();
+  });
+
+  it('merges the newer side of each entry and uploads local changes once', () => {
+    const store = new TestStore();
+    store.setUser('alice');
+    store.set('local', 20);
+    store.set('remote', 10);
+    vi.runAllTimers();
+    update.mockClear();
+
+    store.merge({ local: set(10), remote: set(30) });
+    expect(store.get('local')).toBe(20);
+    expect(store.get('remote')).toBe(30);
+
+    vi.runAllTimers();
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update.mock.calls[0][0]).toEqual({ drawings: { local: set(20), remote: set(30) } });
+  });
+});
@@ -0,0 +1,128 @@
+import { UserPreferences } from '../types';
+import { apiService } from './api';
+import { tokenStore } from './tokenStore';
+
+// Entries of a user preference that are also kept on this browser. They are
+// stored in localStorage so they survive reloads, shared across tabs through
+// the storage event, and pushed to the user preferences when signed in. Each
+// account has its own storage entry, so nothing carries over to the next user
+// of the browser. Every entry carries its own updatedAt, so merging with the
+// server copy keeps whichever side changed last.
+
+type PreferenceListener = () => void;
+
+const SYNC_DELAY = 1500;
+
+export class PreferenceStore<T extends { updatedAt: number }> {
+  private values: Record<string, T>;
+  private listeners: Set<PreferenceListener> = new Set();
+  private syncTimer: number | null = null;
+  private storageKey: string; // Signed out until setUser() names the account
+
+  constructor(
+    private readonly storagePrefix: string,
+    private readonly label: string, // For log messages
+    private readonly toPreferences: (values: Record<string, T>) => Partial<UserPreferences>
+  ) {
+    this.storageKey = storagePrefix;
+    this.values = this.load();
+
+    window.addEventListener('storage', (event) => {
+      if (event.key !== this.storageKey) return;
+      this.values = this.load();
+      this.notify();
+    });
+  }
+
+  private load(): Record<string, T> {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) return JSON.parse(stored);
+    } catch {
+      localStorage.removeItem(this.storageKey);
+    }
+    return {};
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.values));
+    } catch {
+      console.error(`Failed to save ${this.label} to localStorage`);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Batches edits into one preferences update; signed-out edits stay on this browser
+  private scheduleSync(): void {
+    if (!tokenStore.getAccessToken()) return;
+    if (this.syncTimer !== null) window.clearTimeout(this.syncTimer);
+
+    this.syncTimer = window.setTimeout(() => {
+      this.syncTimer = null;
+      apiService.updatePreferences(this.toPreferences(this.values))
+        .catch((error) => console.warn(`⚠️ Failed to sync ${this.label}:`, error));
+    }, SYNC_DELAY);
+  }
+
+  protected read(key: string): T | undefined {
+    return this.values[key];
+  }
+
+  protected readAll(): T[] {
+    return Object.values(this.values);
+  }
+
+  protected write(key: string, value: T): void {
+    this.values = { ...this.values, [key]: value };
+    this.save();
+    this.notify();
+    this.scheduleSync();
+  }
+
+  // Switches to the entries of the signed-in account, or the signed-out ones for null
+  setUser(userId: string | null): void {
+    const storageKey = userId ? `${this.storagePrefix}.${userId}` : this.storagePrefix;
+    if (storageKey === this.storageKey) return;
+
+    if (this.syncTimer !== null) window.clearTimeout(this.syncTimer);
+    this.syncTimer = null;
+    this.storageKey = storageKey;
+    this.values = this.load();
+    this.notify();
+  }
+
+  // Folds in the copy stored with the user preferences
+  merge(remote: Record<string, T> = {}): void {
+    let changed = false;
+    let localNewer = false;
+    const merged = { ...this.values };
+
+    Object.keys(remote).forEach((key) => {
+      if (!merged[key] || remote[key].updatedAt > merged[key].updatedAt) {
+        merged[key] = remote[key];
+        changed = true;
+      }
+    });
+    Object.keys(merged).forEach((key) => {
+      if (!remote[key] || merged[key].updatedAt > remote[key].updatedAt) localNewer = true;
+    });
+
+    if (changed) {
+      this.values = merged;
+      this.save();
+      this.notify();
+    }
+    if (localNewer) this.scheduleSync();
+  }
+
+  subscribe(listener: PreferenceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,432 @@
+import { s, Schema } from '../utils/schema';
+import {
+  StockData,
+  CandlestickData,
+  TradingSignal,
+  BreakoutSignal,
+  ChartSignal,
+  StockSearchResponse,
+  HistoricalDataResponse,
+  UserPreferences,
+  DrawingSet,
+  Workspace,
+  User,
+  AuthResponse,
+  FeedTick,
+  FeedResponse,
+  FeedHealthResponse,
+  ChartCandle,
+  ChartDataResponse,
+  AvailableSymbolsResponse,
+  MarketOverview,
+  MonitoringStatus,
+  TodaySignalsResponse,
+  MonitoringToggleResponse,
+  SessionLevels,
+  TradingSession,
+  SessionStatusResponse,
+  TechnicalAnalysisResponse,
+  SignalsListResponse,
+  SignalHistoryResponse,
+  ChartSignalsResponse,
+  SignalPerformance,
+} from '../types';
+
+// Response schemas for every backend endpoint. Each schema is annotated with
+// the interface from ../types so the compiler keeps the two in sync.
+
+const signalStatus = s.enum(['ACTIVE', 'COMPLETED', 'EXPIRED'] as const);
+const breakoutStatus = s.enum(['BROKE HIGH', 'BROKE LOW', 'HELD'] as const);
+
+// Wraps a payload schema in the { success, data } envelope and unwraps it
+export function envelope<T>(data: Schema<T>): Schema<T> {
+  return s
+    .object({
+      success: s.boolean(),
+      data: data as Schema<unknown>,
+      message: s.string().optional(),
+      error: s.string().optional(),
+    })
+    .transform((response) => response.data as T);
+}
+
+// Auth
+const drawingSetSchema: Schema<DrawingSet> = s.object({
+  drawings: s.array(s.object({
+    id: s.string(),
+    tool: s.enum(['trendline', 'horizontalRay', 'priceRange', 'fibonacci', 'note'] as const),
+    points: s.array(s.object({ time: s.number(), price: s.number() })),
+    color: s.string(),
+    text: s.string().optional(),
+  })),
+  updatedAt: s.number(),
+});
+
+const workspaceSchema: Schema<Workspace> = s.object({
+  id: s.string(),
+  name: s.string(),
+  layout: s.enum(['1x2', '2x2', '3x3'] as const),
+  cells: s.array(s.object({
+    symbol: s.string(),
+    timeframe: s.enum(['1m', '5m', '15m', '1h', '1d', '1w', '1M'] as const),
+    linkGroup: s.enum(['A', 'B', 'C'] as const).nullable(),
+  })),
+  updatedAt: s.number(),
+  deleted: s.boolean().optional(),
+});
+
+export const userPreferencesSchema: Schema<UserPreferences> = s.object({
+  theme: s.enum(['light', 'dark'] as const),
+  defaultTimeframe: s.string(),
+  favoriteStocks: s.array(s.string()),
+  notifications: s.object({
+    priceAlerts: s.boolean(),
+    signalAlerts: s.boolean(),
+    email: s.boolean(),
+  }),
+  drawings: s.record(drawingSetSchema).optional(),
+  workspaces: s.record(workspaceSchema).optional(),
+});
+
+export const userSchema: Schema<User> = s.object({
+  id: s.preprocess((value) => (typeof value === 'number' ? String(value) : value), s.string()),
+  email: s.string(),
+  name: s.string(),
+  preferences: userPreferencesSchema,
+});
+
+export const authResponseSchema: Schema<AuthResponse> = s.object({
+  user: userSchema.optional(),
+  access_token: s.string(),
+  token_type: s.string(),
+  refresh_token: s.string().optional(),
+  expires_in: s.number().optional(),
+});
+
+// Stocks
+export const stockDataSchema: Schema<StockData> = s.object({
+  symbol: s.string(),
+  name: s.string().optional(),
+  price: s.number().optional(),
+  ltpc: s.number().optional(),
+  ch: s.number().optional(),
+  chp: s.number().optional(),
+  change: s.number().optional(),
+  changePercent: s.number().optional(),
+  volume: s.number().default(0),
+  marketCap: s.number().optional(),
+  high: s.number().optional(),
+  low: s.number().optional(),
+  open: s.number().optional(),
+  close: s.number().optional(),
+  previousClose: s.number().optional(),
+  timestamp: s.string().optional(),
+  received_at: s.string().optional(),
+  exchange: s.string().optional(),
+});
+
+export const candlestickSchema: Schema<CandlestickData> = s.object({
+  time: s.number(),
+  open: s.number(),
+  high: s.number(),
+  low: s.number(),
+  close: s.number(),
+  volume: s.number().optional(),
+});
+
+export const stockSearchSchema: Schema<StockSearchResponse> = s.object({
+  stocks: s.array(
+    s.object({
+      symbol: s.string(),
+      name: s.string(),
+      exchange: s.string(),
+    })
+  ),
+});
+
+export const historicalDataSchema: Schema<HistoricalDataResponse> = s.object({
+  symbol: s.string(),
+  data: s.array(candlestickSchema),
+  timeframe: s.string(),
+});
+
+export const marketOverviewSchema: Schema<MarketOverview> = s.object({
+  gainers: s.array(stockDataSchema),
+  losers: s.array(stockDataSchema),
+  mostActive: s.array(stockDataSchema),
+});
+
+export const symbolListSchema: Schema<string[]> = s.array(s.string());
+
+// Feed
+export const feedTickSchema: Schema<FeedTick> = s.object({
+  _id: s.string().optional(),
+  symbol: s.string(),
+  price: s.number(),
+  timestamp: s.string(),
+  token: s.string().optional(),
+  exchange: s.string(),
+  high: s.number().nullable().default(null),
+  low: s.number().nullable().default(null),
+  volume: s.number().nullable().default(null),
+  change: s.number().nullable().default(null),
+  change_percent: s.number().nullable().default(null),
+  source: s.string().optional(),
+  market_status: s.string().optional(),
+  received_at: s.string(),
+});
+
+export const feedResponseSchema: Schema<FeedResponse> = s.object({
+  status: s.enum(['success', 'error'] as const),
+  data: s.array(feedTickSchema).default([]),
+  count: s.number().optional(),
+  message: s.string().optional(),
+});
+
+export const feedHealthSchema: Schema<FeedHealthResponse> = s.object({
+  status: s.string(),
+  message: s.string().optional(),
+  last_update: s.string().nullable().optional(),
+});
+
+// Chart data
+export const chartCandleSchema: Schema<ChartCandle> = s.object({
+  time: s.number(),
+  open: s.number(),
+  high: s.number(),
+  low: s.number(),
+  close: s.number(),
+  volume: s.number().default(0),
+  symbol: s.string(),
+  exchange: s.string(),
+});
+
+export const chartDataSchema: Schema<ChartDataResponse> = s.object({
+  symbol: s.string(),
+  timeframe: s.string(),
+  date: s.string(),
+  data: s.array(chartCandleSchema).default([]),
+  count: s.number(),
+  data_source: s.string(),
+  latest_price: s.number(),
+  real_time: s.boolean(),
+  tick_count: s.number(),
+});
+
+export const availableSymbolsSchema: Schema<AvailableSymbolsResponse> = s.object({
+  symbols: s.array(
+    s.object({
+      symbol: s.string(),
+      name: s.string(),
+      exchange: s.string(),
+    })
+  ),
+  count: s.number(),
+});
+
+// Signals
+const breakoutLevelsSchema = s.object({
+  nifty_session_high: s.number(),
+  nifty_session_low: s.number(),
+  future_session_high: s.number(),
+  future_session_low: s.number(),
+  nifty_price_at_signal: s.number(),
+  future_price_at_signal: s.number(),
+});
+
+// Older documents use Mongo's _id / created_at and may omit session_name or status
+function normalizeBreakoutSignal(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  const raw = value as Record<string, unknown>;
+  return {
+    ...raw,
+    id: raw.id ?? raw._id,
+    timestamp: raw.timestamp ?? raw.created_at,
+    session_name: raw.session_name ?? 'Unknown Session',
+    status: raw.status ?? 'ACTIVE',
+  };
+}
+
+const breakoutSummarySchema = s.object({
+  display_text: s.string(),
+  nifty_status: breakoutStatus,
+  future_status: breakoutStatus,
+  breakout_type: s.enum(['BULLISH', 'BEARISH', 'DIVERGENT'] as const),
+  levels: breakoutLevelsSchema,
+});
+
+export const breakoutSignalSchema: Schema<BreakoutSignal> = s.preprocess(
+  normalizeBreakoutSignal,
+  s.object({
+    id: s.string(),
+    session_name: s.string(),
+    signal_type: s.enum(['BUY_CALL', 'BUY_PUT'] as const),
+    reason: s.string(),
+    timestamp: s.string(),
+    nifty_price: s.number(),
+    future_price: s.number(),
+    future_symbol: s.string(),
+    entry_price: s.number(),
+    stop_loss: s.number().optional(),
+    target_1: s.number().optional(),
+    target_2: s.number().optional(),
+    confidence: s.number(),
+    status: signalStatus,
+    session_high: s.number(),
+    session_low: s.number(),
+    future_session_high: s.number().optional(),
+    future_session_low: s.number().optional(),
+    vwap_nifty: s.number().optional(),
+    vwap_future: s.number().optional(),
+    breakout_details: s
+      .object({
+        nifty_breaks_high: s.boolean(),
+        nifty_breaks_low: s.boolean(),
+        future_breaks_high: s.boolean(),
+        future_breaks_low: s.boolean(),
+        nifty_breakout_amount: s.number(),
+        future_breakout_amount: s.number(),
+      })
+      .optional(),
+    breakout_summary: breakoutSummarySchema.optional(),
+    display_text: s.string().optional(),
+  })
+);
+
+// /signals/direct returns breakout signals; the legacy hooks consume the flat TradingSignal shape
+export function toTradingSignal(signal: BreakoutSignal): TradingSignal {
+  const isCall = signal.signal_type === 'BUY_CALL';
+  return {
+    symbol: signal.future_symbol,
+    signal: isCall ? 'BUY' : 'SELL',
+    confidence: signal.confidence,
+    targetPrice: signal.target_1 ?? signal.entry_price,
+    stopLoss: signal.stop_loss ?? signal.entry_price,
+    reasoning: [signal.reason],
+    timestamp: signal.timestamp,
+    indicators: {
+      rsi: 'N/A',
+      macd: 'N/A',
+      sma: 'N/A',
+      volume: 'N/A',
+    },
+  };
+}
+
+export const tradingSignalSchema: Schema<TradingSignal> = s.object({
+  symbol: s.string(),
+  signal: s.enum(['BUY', 'SELL', 'HOLD'] as const),
+  confidence: s.number(),
+  targetPrice: s.number(),
+  stopLoss: s.number(),
+  reasoning: s.array(s.string()),
+  timestamp: s.string(),
+  indicators: s.object({
+    rsi: s.string(),
+    macd: s.string(),
+    sma: s.string(),
+    volume: s.string(),
+  }),
+});
+
+export const signalsListSchema: Schema<SignalsListResponse> = s.object({
+  signals: s.array(breakoutSignalSchema).default([]),
+});
+
+// Some deployments still return all_signals instead of signals
+export const monitoringSignalsSchema: Schema<SignalsListResponse> = s
+  .object({
+    all_signals: s.array(breakoutSignalSchema).optional(),
+    signals: s.array(breakoutSignalSchema).optional(),
+  })
+  .transform((response) => ({ signals: response.all_signals ?? response.signals ?? [] }));
+
+const monitoringStatusShape = {
+  monitoring_active: s.boolean(),
+  market_hours: s.boolean(),
+  current_time_ist: s.string(),
+  service_status: s.string(),
+  latest_signal: breakoutSignalSchema.nullable().optional(),
+};
+
+export const monitoringStatusSchema: Schema<MonitoringStatus> = s.object(monitoringStatusShape);
+
+export const todaySignalsSchema: Schema<TodaySignalsResponse> = s
+  .object({
+    ...monitoringStatusShape,
+    all_signals: s.array(breakoutSignalSchema).optional(),
+    signals: s.array(breakoutSignalSchema).optional(),
+  })
+  .transform(({ all_signals, signals, ...status }) => ({
+    ...status,
+    signals: all_signals ?? signals ?? [],
+  }));
+
+export const monitoringToggleSchema: Schema<MonitoringToggleResponse> = s.object({
+  status: s.string().optional(),
+  message: s.string().optional(),
+});
+
+const sessionLevelsSchema: Schema<SessionLevels> = s.object({
+  high: s.number(),
+  low: s.number(),
+});
+
+export const tradingSessionSchema: Schema<TradingSession> = s.object({
+  name: s.string(),
+  start_time: s.string(),
+  end_time: s.string(),
+  is_active: s.boolean(),
+  is_completed: s.boolean(),
+  session_data: s.record(sessionLevelsSchema).optional(),
+});
+
+export const sessionStatusSchema: Schema<SessionStatusResponse> = s.object({
+  sessions: s.array(tradingSessionSchema).default([]),
+});
+
+export const technicalAnalysisSchema: Schema<TechnicalAnalysisResponse> = s.object({
+  symbol: s.string().optional(),
+  technical_data: s.object({
+    vwap: s.number().nullable().optional(),
+  }),
+});
+
+export const signalHistorySchema: Schema<SignalHistoryResponse> = s.object({
+  signals: s.array(breakoutSignalSchema).default([]),
+  sessions: s.record(s.array(breakoutSignalSchema)).optional(),
+  total: s.number().optional(),
+});
+
+export const chartSignalSchema: Schema<ChartSignal> = s.object({
+  id: s.string(),
+  time: s.number(),
+  type: s.enum(['BUY_CALL', 'BUY_PUT'] as const),
+  price: s.number(),
+  confidence: s.number(),
+  session_name: s.string(),
+  reason: s.string(),
+  breakout_type: s.enum(['HIGH', 'LOW'] as const),
+  vwap: s.number().optional(),
+  session_high: s.number().optional(),
+  session_low: s.number().optional(),
+  status: signalStatus,
+  entry_price: s.number().optional(),
+  stop_loss: s.number().optional(),
+  target_1: s.number().optional(),
+  target_2: s.number().optional(),
+  breakout_summary: breakoutSummarySchema.optional(),
+});
+
+export const chartSignalsSchema: Schema<ChartSignalsResponse> = s.object({
+  signals: s.array(chartSignalSchema).default([]),
+});
+
+export const signalPerformanceSchema: Schema<SignalPerformance> = s.object({
+  total_signals: s.number(),
+  active_signals: s.number().optional(),
+  completed_signals: s.number().optional(),
+  expired_signals: s.number().optional(),
+  win_rate: s.number().nullable().optional(),
+  average_confidence: s.number().nullable().optional(),
+});
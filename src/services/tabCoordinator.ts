@@ -0,0 +1,201 @@
+import { ConnectionState } from '../types';
+
+// Lets all open tabs share one WebSocket. The tab holding a Web Lock is the
+// leader: it owns the socket and fans frames out over a BroadcastChannel.
+// Followers announce the symbols they need and forward outgoing messages to
+// the leader. Closing the leader tab releases the lock and the next tab in
+// line takes over.
+
+type TabMessage =
+  | { kind: 'leader'; from: string }
+  | { kind: 'symbols'; from: string; symbols: string[] }
+  | { kind: 'bye'; from: string }
+  | { kind: 'send'; from: string; message: unknown }
+  | { kind: 'frame'; from: string; raw: string }
+  | { kind: 'state'; from: string; state: ConnectionState };
+
+export interface TabCoordinatorHandlers {
+  onPromoted: () => void;
+  onFrame: (raw: string) => void;
+  onState: (state: ConnectionState) => void;
+  onRemoteSymbolsChanged: () => void;
+  onRemoteSend: (message: unknown) => void;
+}
+
+interface RemoteTab {
+  symbols: Set<string>;
+  lastSeen: number;
+}
+
+const CHANNEL_NAME = 'traderx-ws';
+const LOCK_NAME = 'traderx-ws-leader';
+// Followers re-announce their symbols so the leader can drop tabs that died without saying bye
+const TAB_HEARTBEAT_INTERVAL = 10000;
+const TAB_TIMEOUT = 30000;
+
+export class TabCoordinator {
+  readonly tabId = Math.random().toString(36).slice(2);
+  private channel = new BroadcastChannel(CHANNEL_NAME);
+  private leader = false;
+  private releaseLock: (() => void) | null = null;
+  private remoteTabs: Map<string, RemoteTab> = new Map();
+  private localSymbols: string[] = [];
+  private lastState: ConnectionState | null = null;
+  private heartbeatTimer: number | null = null;
+
+  constructor(private readonly handlers: TabCoordinatorHandlers) {}
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  start(): void {
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.receive(event.data);
+    window.addEventListener('pagehide', () => this.post({ kind: 'bye', from: this.tabId }));
+
+    navigator.locks.request(LOCK_NAME, () => {
+      this.promote();
+      // Held until the tab closes or stop() is called
+      return new Promise<void>((resolve) => {
+        this.releaseLock = resolve;
+      });
+    });
+
+    this.heartbeatTimer = window.setInterval(() => this.heartbeat(), TAB_HEARTBEAT_INTERVAL);
+    // Ask a leader that is already running for its connection state
+    this.announce();
+  }
+
+  stop(): void {
+    this.post({ kind: 'bye', from: this.tabId });
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.channel.close();
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.leader = false;
+    this.remoteTabs.clear();
+  }
+
+  // Leader: symbol → number of other tabs that need it
+  remoteSymbolCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    this.remoteTabs.forEach(({ symbols }) => {
+      symbols.forEach(symbol => counts.set(symbol, (counts.get(symbol) ?? 0) + 1));
+    });
+    return counts;
+  }
+
+  publishFrame(raw: string): void {
+    this.post({ kind: 'frame', from: this.tabId, raw });
+  }
+
+  publishState(state: ConnectionState): void {
+    this.lastState = state;
+    this.post({ kind: 'state', from: this.tabId, state });
+  }
+
+  publishSymbols(symbols: string[]): void {
+    this.localSymbols = symbols;
+    if (!this.leader) {
+      this.announce();
+    }
+  }
+
+  forward(message: unknown): void {
+    this.post({ kind: 'send', from: this.tabId, message });
+  }
+
+  private promote(): void {
+    console.log('📡 This tab now owns the shared WebSocket connection');
+    this.leader = true;
+    this.remoteTabs.clear();
+    this.post({ kind: 'leader', from: this.tabId });
+    this.handlers.onPromoted();
+  }
+
+  private announce(): void {
+    this.post({ kind: 'symbols', from: this.tabId, symbols: this.localSymbols });
+  }
+
+  private heartbeat(): void {
+    if (!this.leader) {
+      this.announce();
+      return;
+    }
+
+    const cutoff = Date.now() - TAB_TIMEOUT;
+    let pruned = false;
+    this.remoteTabs.forEach((tab, tabId) => {
+      if (tab.lastSeen < cutoff) {
+        this.remoteTabs.delete(tabId);
+        pruned = true;
+      }
+    });
+    if (pruned) {
+      this.handlers.onRemoteSymbolsChanged();
+    }
+  }
+
+  private receive(message: TabMessage): void {
+    if (this.leader) {
+      this.receiveAsLeader(message);
+    } else {
+      this.receiveAsFollower(message);
+    }
+  }
+
+  private receiveAsLeader(message: TabMessage): void {
+    switch (message.kind) {
+      case 'symbols': {
+        const isNew = !this.remoteTabs.has(message.from);
+        this.remoteTabs.set(message.from, { symbols: new Set(message.symbols), lastSeen: Date.now() });
+        if (isNew && this.lastState) {
+          this.publishState(this.lastState);
+        }
+        this.handlers.onRemoteSymbolsChanged();
+        break;
+      }
+      case 'bye':
+        if (this.remoteTabs.delete(message.from)) {
+          this.handlers.onRemoteSymbolsChanged();
+        }
+        break;
+      case 'send':
+        this.handlers.onRemoteSend(message.message);
+        break;
+    }
+  }
+
+  private receiveAsFollower(message: TabMessage): void {
+    switch (message.kind) {
+      case 'leader':
+        this.announce();
+        break;
+      case 'frame':
+        this.handlers.onFrame(message.raw);
+        break;
+      case 'state':
+        this.handlers.onState(message.state);
+        break;
+    }
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      console.warn('⚠️ Could not reach other tabs:', error);
+    }
+  }
+}
+
+// Browsers without BroadcastChannel or Web Locks fall back to one socket per tab
+export function createTabCoordinator(handlers: TabCoordinatorHandlers): TabCoordinator | null {
+  if (typeof BroadcastChannel === 'undefined' || typeof navigator === 'undefined' || !navigator.locks) {
+    return null;
+  }
+  return new TabCoordinator(handlers);
+}
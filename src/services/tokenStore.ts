@@ -0,0 +1,113 @@
+import { AuthResponse } from '../types';
+
+// Holds the access/refresh token pair and its expiry. Persisted to
+// localStorage and kept in sync across tabs through the storage event.
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number; // Epoch ms
+}
+
+export type TokenChangeReason = 'login' | 'refresh' | 'logout' | 'expired' | 'sync';
+
+type TokenListener = (tokens: AuthTokens | null, reason: TokenChangeReason) => void;
+
+const STORAGE_KEY = 'authTokens';
+const LEGACY_STORAGE_KEY = 'authToken';
+
+// Reads the exp claim of a JWT so tokens without expires_in still expire
+function jwtExpiry(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+class TokenStore {
+  private tokens: AuthTokens | null;
+  private listeners: Set<TokenListener> = new Set();
+
+  constructor() {
+    this.tokens = this.load();
+
+    window.addEventListener('storage', (event) => {
+      if (event.key !== STORAGE_KEY) return;
+      this.tokens = this.load();
+      this.notify('sync');
+    });
+  }
+
+  private load(): AuthTokens | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+
+    // Sessions created before refresh tokens only stored the access token
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      const tokens = { accessToken: legacy, expiresAt: jwtExpiry(legacy) };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+      return tokens;
+    }
+    return null;
+  }
+
+  private notify(reason: TokenChangeReason): void {
+    this.listeners.forEach((listener) => listener(this.tokens, reason));
+  }
+
+  getTokens(): AuthTokens | null {
+    return this.tokens;
+  }
+
+  getAccessToken(): string | null {
+    return this.tokens?.accessToken ?? null;
+  }
+
+  getRefreshToken(): string | null {
+    return this.tokens?.refreshToken ?? null;
+  }
+
+  // True when the access token expires within `skewMs`
+  isExpiring(skewMs: number = 0): boolean {
+    const expiresAt = this.tokens?.expiresAt;
+    return expiresAt !== undefined && expiresAt - skewMs <= Date.now();
+  }
+
+  setFromResponse(response: AuthResponse, reason: 'login' | 'refresh'): void {
+    this.tokens = {
+      accessToken: response.access_token,
+      // Backends that don't rotate refresh tokens omit them on refresh
+      refreshToken: response.refresh_token ?? this.tokens?.refreshToken,
+      expiresAt: response.expires_in
+        ? Date.now() + response.expires_in * 1000
+        : jwtExpiry(response.access_token),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.tokens));
+    this.notify(reason);
+  }
+
+  clear(reason: 'logout' | 'expired' = 'logout'): void {
+    if (!this.tokens) return;
+    this.tokens = null;
+    localStorage.removeItem(STORAGE_KEY);
+    this.notify(reason);
+  }
+
+  subscribe(listener: TokenListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const tokenStore = new TokenStore();
+export default tokenStore;
@@ -1,35 +1,185 @@
-import { WebSocketMessage, StockData, TradingSignal } from '../types';
+import {
+  WebSocketMessage,
+  WebSocketEventMap,
+  WebSocketMessageType,
+  WebSocketDiagnostic,
+  StockData,
+  BreakoutSignal,
+  ChartCandle,
+  ConnectionState,
+  FeedSnapshot,
+  SymbolChannel,
+  SymbolSubscription,
+} from '../types';
+import { Schema } from '../utils/schema';
+import { stockDataSchema, breakoutSignalSchema, chartCandleSchema } from './schemas';
+import { config, buildWsUrl } from '../config';
+import { tokenStore } from './tokenStore';
+import { FeedSynchronizer } from './feedSync';
+import { createTabCoordinator } from './tabCoordinator';
+
+type WebSocketCallback<K extends WebSocketMessageType = WebSocketMessageType> = (
+  data: WebSocketEventMap[K],
+  message: Extract<WebSocketMessage, { type: K }>
+) => void;
+type ConnectionListener = (state: ConnectionState) => void;
+type DiagnosticsListener = (diagnostic: WebSocketDiagnostic) => void;
+type SnapshotListener = (snapshot: FeedSnapshot) => void;
+type SubscriptionsListener = (subscriptions: SymbolSubscription[]) => void;
+
+interface SnapshotSubscription {
+  listener: SnapshotListener;
+  candles: boolean;
+}
 
-type WebSocketCallback = (data: any) => void;
+// Every message type the client understands; the Record type keeps it in sync with WebSocketEventMap
+const MESSAGE_TYPES: Record<WebSocketMessageType, true> = {
+  price_update: true,
+  signal_update: true,
+  chart_update: true,
+  market_data: true,
+  subscription_confirmed: true,
+  unsubscription_confirmed: true,
+  pong: true,
+  heartbeat: true,
+  error: true,
+};
+
+// Payloads that feed app state are validated like REST responses
+const PAYLOAD_SCHEMAS: { [K in WebSocketMessageType]?: Schema<WebSocketEventMap[K]> } = {
+  price_update: stockDataSchema,
+  signal_update: breakoutSignalSchema,
+  chart_update: chartCandleSchema,
+};
+
+const MAX_DIAGNOSTICS = 50;
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+const PING_INTERVAL = 30000;
 
 class WebSocketService {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-  private callbacks: Map<string, WebSocketCallback[]> = new Map();
+  private reconnectTimer: number | null = null;
+  private callbacks: Map<WebSocketMessageType, WebSocketCallback<any>[]> = new Map();
   private isConnecting = false;
-  private subscribedSymbols: Set<string> = new Set();
+  private manuallyClosed = false;
+  // Consumers per symbol and channel in this tab; a symbol stays subscribed while any count is above zero
+  private symbolConsumers: Map<string, Record<SymbolChannel, number>> = new Map();
+  private subscriptionsListeners: Set<SubscriptionsListener> = new Set();
+  // Symbols the socket is subscribed to on the server, across all tabs
+  private serverSymbols: Set<string> = new Set();
   private pingInterval: number | null = null;
+  private pingSentAt: number | null = null;
+  private connectionState: ConnectionState = {
+    status: 'connecting',
+    attempt: 0,
+    lastError: null,
+    latency: null,
+  };
+  private connectionListeners: Set<ConnectionListener> = new Set();
+  private diagnostics: WebSocketDiagnostic[] = [];
+  private diagnosticsListeners: Set<DiagnosticsListener> = new Set();
+  private snapshotSubscriptions: Map<string, Set<SnapshotSubscription>> = new Map();
+  private hasConnected = false;
+  private feedSync = new FeedSynchronizer({
+    deliver: (message) => this.dispatch(message),
+    publishSnapshot: (snapshot) => this.publishSnapshot(snapshot),
+    wantsCandles: (symbol) => this.wantsCandles(symbol),
+  });
+  // Null when the browser can't share a socket between tabs; this tab then always leads
+  private coordinator = config.features.realtime
+    ? createTabCoordinator({
+        onPromoted: () => this.connect(),
+        onFrame: (raw) => this.receive(raw),
+        onState: (state) => this.handleLeaderState(state),
+        onRemoteSymbolsChanged: () => this.syncServerSubscriptions(),
+        onRemoteSend: (message) => this.send(message),
+      })
+    : null;
 
   constructor() {
-    this.connect();
+    if (config.features.realtime) {
+      if (this.coordinator) {
+        // The leader tab connects once it holds the lock
+        this.coordinator.start();
+      } else {
+        this.connect();
+      }
+      // The token is only sent in the connection URL, so a rotated token needs a new socket
+      tokenStore.subscribe(() => this.reauthenticate());
+
+      window.addEventListener('online', () => this.reconnectNow('network back online'));
+      window.addEventListener('offline', () => this.handleOffline());
+      // Browsers throttle timers in background tabs; retry as soon as the tab is visible again
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible' && !this.isConnected()) {
+          this.reconnectNow('tab became visible');
+        }
+      });
+    } else {
+      this.setConnectionState({ status: 'offline', lastError: 'Real-time updates are disabled' });
+    }
+  }
+
+  private setConnectionState(update: Partial<ConnectionState>): void {
+    this.connectionState = { ...this.connectionState, ...update };
+    if (this.isLeader) {
+      this.coordinator?.publishState(this.connectionState);
+    }
+    this.connectionListeners.forEach(listener => listener(this.connectionState));
+  }
+
+  private get isLeader(): boolean {
+    return !this.coordinator || this.coordinator.isLeader;
+  }
+
+  // Followers mirror the leader tab's connection
+  private handleLeaderState(state: ConnectionState): void {
+    const wasOpen = this.connectionState.status === 'open';
+    this.setConnectionState(state);
+    if (!wasOpen && state.status === 'open') {
+      if (this.hasConnected) {
+        this.feedSync.reconnected();
+      }
+      this.hasConnected = true;
+    }
   }
 
   private connect(): void {
-    if (this.isConnecting) return;
+    if (this.isConnecting || !this.isLeader) return;
     
     this.isConnecting = true;
-    const token = localStorage.getItem('authToken');
-    const wsUrl = token 
-      ? `ws://localhost:8000/ws?token=${token}`
-      : 'ws://localhost:8000/ws';
+    this.manuallyClosed = false;
+    this.setConnectionState({
+      status: this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting',
+      attempt: this.reconnectAttempts,
+    });
 
+    if (config.features.mockBackend) {
+      // Loaded on first use, so the mock backend stays out of the main bundle
+      import('../mocks')
+        .then(({ createMockWebSocket }) => {
+          // Dropped when torn down or already opened while loading
+          if (this.isConnecting && !this.ws) {
+            this.open(() => createMockWebSocket(buildWsUrl(tokenStore.getAccessToken())));
+          }
+        })
+        .catch((error) => console.error('❌ Failed to load the mock backend:', error));
+      return;
+    }
+    this.open(() => new WebSocket(buildWsUrl(tokenStore.getAccessToken())));
+  }
+
+  private open(create: () => WebSocket): void {
     try {
-      this.ws = new WebSocket(wsUrl);
+      this.ws = create();
       this.setupEventHandlers();
     } catch (error) {
       console.error('WebSocket connection failed:', error);
+      this.isConnecting = false;
+      this.setConnectionState({ lastError: error instanceof Error ? error.message : 'Connection failed' });
       this.handleReconnect();
     }
   }
@@ -41,50 +191,138 @@ class WebSocketService {
       console.log('WebSocket connected');
       this.isConnecting = false;
       this.reconnectAttempts = 0;
+      this.setConnectionState({ status: 'open', attempt: 0, lastError: null });
       
       // Start ping interval
       this.startPingInterval();
+
+      // Frames sent while the socket was down are gone; fetch snapshots for them
+      if (this.hasConnected) {
+        this.feedSync.reconnected();
+      }
+      this.hasConnected = true;
       
       // Resubscribe to symbols after reconnection
       this.resubscribeToSymbols();
     };
 
     this.ws.onmessage = (event) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        this.handleMessage(message);
-      } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
-      }
+      const raw = String(event.data);
+      this.coordinator?.publishFrame(raw);
+      this.receive(raw);
     };
 
-    this.ws.onclose = () => {
+    this.ws.onclose = (event) => {
       console.log('WebSocket disconnected');
       this.isConnecting = false;
+      this.ws = null;
+      this.serverSymbols.clear();
+      this.notifySubscriptions();
       this.stopPingInterval();
+      if (!event.wasClean) {
+        this.setConnectionState({ lastError: `Connection closed (${event.code}${event.reason ? `: ${event.reason}` : ''})` });
+      }
       this.handleReconnect();
     };
 
     this.ws.onerror = (error) => {
       console.error('WebSocket error:', error);
       this.isConnecting = false;
+      this.setConnectionState({ lastError: 'WebSocket error' });
     };
   }
 
+  private report(kind: WebSocketDiagnostic['kind'], raw: string, detail: string, type?: string): void {
+    const diagnostic: WebSocketDiagnostic = { kind, type, detail, raw, receivedAt: new Date().toISOString() };
+    console.warn(`⚠️ WebSocket ${kind}: ${detail}`);
+    this.diagnostics = [diagnostic, ...this.diagnostics].slice(0, MAX_DIAGNOSTICS);
+    this.diagnosticsListeners.forEach(listener => listener(diagnostic));
+  }
+
+  private receive(raw: string): void {
+    const message = this.parseMessage(raw);
+    if (message) {
+      this.handleMessage(message);
+    }
+  }
+
+  // Turns a raw frame into a typed message, reporting anything that can't be dispatched
+  private parseMessage(raw: string): WebSocketMessage | null {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      this.report('parse_error', raw, error instanceof Error ? error.message : 'Invalid JSON');
+      return null;
+    }
+
+    const type = parsed?.type;
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(MESSAGE_TYPES, type)) {
+      this.report('unknown_type', raw, `Unknown message type ${JSON.stringify(type)}`, typeof type === 'string' ? type : undefined);
+      return null;
+    }
+
+    const schema = PAYLOAD_SCHEMAS[type as WebSocketMessageType] as Schema<unknown> | undefined;
+    if (schema) {
+      const result = schema.safeParse(parsed.data);
+      if (!result.success) {
+        const detail = result.issues.map(issue => `${issue.path || '<root>'}: expected ${issue.expected}`).join('; ');
+        this.report('invalid_payload', raw, `Invalid ${type} payload: ${detail}`, type);
+        return null;
+      }
+      parsed.data = result.data;
+    }
+    return parsed as WebSocketMessage;
+  }
+
   private handleMessage(message: WebSocketMessage): void {
     console.log('📡 WebSocket message received:', message);
-    
+
+    if (message.type === 'pong' && this.pingSentAt !== null) {
+      this.setConnectionState({ latency: Date.now() - this.pingSentAt });
+      this.pingSentAt = null;
+    }
+
+    // Price and chart frames pass through gap detection before reaching callbacks
+    this.feedSync.handle(message);
+  }
+
+  private dispatch(message: WebSocketMessage): void {
     const callbacks = this.callbacks.get(message.type);
     if (callbacks) {
-      callbacks.forEach(callback => callback(message.data));
+      callbacks.forEach(callback => callback(message.data, message));
+    }
+  }
+
+  private publishSnapshot(snapshot: FeedSnapshot): void {
+    // Tickers only listen for price_update, so the snapshot quote goes out as one
+    if (snapshot.quote) {
+      this.dispatch({
+        type: 'price_update',
+        data: snapshot.quote,
+        timestamp: snapshot.fetchedAt,
+        symbol: snapshot.symbol,
+      });
     }
+    this.snapshotSubscriptions.get(snapshot.symbol)?.forEach(({ listener }) => listener(snapshot));
+  }
+
+  // Candle snapshots are a full day of 1m bars, so only fetch them for chart consumers
+  private wantsCandles(symbol: string): boolean {
+    const subscriptions = Array.from(this.snapshotSubscriptions.get(symbol) ?? []);
+    return subscriptions.some(({ candles }) => candles) || (this.callbacks.get('chart_update')?.length ?? 0) > 0;
+  }
+
+  private sendPing(): void {
+    this.pingSentAt = Date.now();
+    this.send({ type: 'ping' });
   }
 
   private startPingInterval(): void {
     this.stopPingInterval();
-    this.pingInterval = setInterval(() => {
-      this.send({ type: 'ping' });
-    }, 30000); // Send ping every 30 seconds
+    // Measure latency right away instead of waiting for the first interval
+    this.sendPing();
+    this.pingInterval = window.setInterval(() => this.sendPing(), PING_INTERVAL);
   }
 
   private stopPingInterval(): void {
@@ -92,30 +330,129 @@ class WebSocketService {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    this.pingSentAt = null;
   }
 
   private resubscribeToSymbols(): void {
-    this.subscribedSymbols.forEach(symbol => {
-      this.subscribeToSymbol(symbol);
+    this.serverSymbols.clear();
+    this.syncServerSubscriptions();
+  }
+
+  // Hands this tab's symbols to the leader, or, as the leader, subscribes the
+  // socket to every symbol some tab needs and drops the ones no tab needs
+  private syncSymbols(): void {
+    if (this.isLeader) {
+      this.syncServerSubscriptions();
+    } else {
+      this.coordinator?.publishSymbols(Array.from(this.symbolConsumers.keys()));
+    }
+    this.notifySubscriptions();
+  }
+
+  private syncServerSubscriptions(): void {
+    if (!this.isLeader || !this.isConnected()) return;
+
+    const wanted = new Set(this.symbolConsumers.keys());
+    this.coordinator?.remoteSymbolCounts().forEach((_count, symbol) => wanted.add(symbol));
+
+    wanted.forEach(symbol => {
+      if (!this.serverSymbols.has(symbol)) {
+        this.serverSymbols.add(symbol);
+        this.send({ type: 'subscribe', symbol });
+      }
+    });
+    this.serverSymbols.forEach(symbol => {
+      if (!wanted.has(symbol)) {
+        this.serverSymbols.delete(symbol);
+        this.send({ type: 'unsubscribe', symbol });
+      }
     });
+    this.notifySubscriptions();
+  }
+
+  private notifySubscriptions(): void {
+    if (!this.subscriptionsListeners.size) return;
+    const subscriptions = this.getSubscriptions();
+    this.subscriptionsListeners.forEach(listener => listener(subscriptions));
+  }
+
+  // Closes the current socket without triggering the reconnect logic
+  private teardown(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      this.ws.onopen = null;
+      this.ws.onclose = null;
+      this.ws.onerror = null;
+      this.ws.onmessage = null;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.serverSymbols.clear();
+    this.stopPingInterval();
+    this.isConnecting = false;
   }
 
+  // Reconnects with the current access token, keeping callbacks and symbol subscriptions
+  private reauthenticate(): void {
+    if (this.manuallyClosed || !this.isLeader) return;
+    console.log('🔑 Auth token changed, reconnecting WebSocket');
+    this.teardown();
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  // Skips the remaining backoff, e.g. when the network comes back
+  private reconnectNow(reason: string): void {
+    if (this.manuallyClosed || !this.isLeader || this.isConnected() || this.isConnecting) return;
+    console.log(`🔄 Reconnecting WebSocket: ${reason}`);
+    this.teardown();
+    this.connect();
+  }
+
+  private handleOffline(): void {
+    if (!this.isLeader) return;
+    this.teardown();
+    this.setConnectionState({ status: 'offline', lastError: 'Network offline', latency: null });
+  }
+
+  // Retries forever with capped exponential backoff and equal jitter: half the
+  // delay is fixed, the other half random
   private handleReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.error('Max reconnection attempts reached');
+    if (this.manuallyClosed) return;
+
+    if (!navigator.onLine) {
+      // The online event triggers the next attempt
+      this.setConnectionState({ status: 'offline', latency: null });
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-    
-    setTimeout(() => {
-      console.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    const ceiling = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts - 1));
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+    this.setConnectionState({ status: 'reconnecting', attempt: this.reconnectAttempts, latency: null });
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      console.log(`Attempting to reconnect (attempt ${this.reconnectAttempts}, waited ${Math.round(delay)}ms)`);
       this.connect();
     }, delay);
   }
 
-  public subscribe(event: string, callback: WebSocketCallback): () => void {
+  public getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  public subscribeToConnectionState(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  public subscribe<K extends WebSocketMessageType>(event: K, callback: WebSocketCallback<K>): () => void {
     if (!this.callbacks.has(event)) {
       this.callbacks.set(event, []);
     }
@@ -134,31 +471,103 @@ class WebSocketService {
     };
   }
 
-  public subscribeToSymbol(symbol: string): void {
-    if (this.subscribedSymbols.has(symbol)) {
-      console.log(`Already subscribed to ${symbol}`);
+  // Messages that were dropped because they couldn't be parsed, typed or validated
+  public subscribeToDiagnostics(listener: DiagnosticsListener): () => void {
+    this.diagnosticsListeners.add(listener);
+    return () => {
+      this.diagnosticsListeners.delete(listener);
+    };
+  }
+
+  public getDiagnostics(): WebSocketDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  // Each call adds a consumer; pair it with exactly one unsubscribeFromSymbol
+  public subscribeToSymbol(symbol: string, channel: SymbolChannel = 'price'): void {
+    const consumers = this.symbolConsumers.get(symbol);
+    if (consumers) {
+      consumers[channel]++;
+      this.notifySubscriptions();
       return;
     }
 
-    this.subscribedSymbols.add(symbol);
-    this.send({ type: 'subscribe', symbol });
+    this.symbolConsumers.set(symbol, { price: 0, chart: 0, [channel]: 1 });
+    this.feedSync.track(symbol);
+    this.syncSymbols();
     console.log(`Subscribed to ${symbol} updates`);
   }
 
-  public unsubscribeFromSymbol(symbol: string): void {
-    if (!this.subscribedSymbols.has(symbol)) {
-      console.log(`Not subscribed to ${symbol}`);
+  // The server unsubscribe goes out only once the last consumer of the symbol leaves
+  public unsubscribeFromSymbol(symbol: string, channel: SymbolChannel = 'price'): void {
+    const consumers = this.symbolConsumers.get(symbol);
+    if (!consumers || consumers[channel] === 0) {
+      console.warn(`⚠️ Unbalanced unsubscribe from ${symbol} (${channel})`);
       return;
     }
 
-    this.subscribedSymbols.delete(symbol);
-    this.send({ type: 'unsubscribe', symbol });
+    consumers[channel]--;
+    if (consumers.price > 0 || consumers.chart > 0) {
+      this.notifySubscriptions();
+      return;
+    }
+
+    this.symbolConsumers.delete(symbol);
+    this.feedSync.untrack(symbol);
+    this.syncSymbols();
     console.log(`Unsubscribed from ${symbol} updates`);
   }
 
+  // Debug view of who holds which symbol, including other tabs when this tab owns the socket
+  public getSubscriptions(): SymbolSubscription[] {
+    const remote = this.isLeader ? this.coordinator?.remoteSymbolCounts() ?? new Map<string, number>() : null;
+    const symbols = new Set([...Array.from(this.symbolConsumers.keys()), ...Array.from(remote?.keys() ?? [])]);
+
+    return Array.from(symbols).sort().map(symbol => ({
+      symbol,
+      channels: { ...(this.symbolConsumers.get(symbol) ?? { price: 0, chart: 0 }) },
+      otherTabs: remote ? remote.get(symbol) ?? 0 : null,
+      serverSubscribed: this.serverSymbols.has(symbol),
+    }));
+  }
+
+  // False when another tab holds the shared socket
+  public ownsConnection(): boolean {
+    return this.isLeader;
+  }
+
+  public subscribeToSubscriptions(listener: SubscriptionsListener): () => void {
+    this.subscriptionsListeners.add(listener);
+    return () => {
+      this.subscriptionsListeners.delete(listener);
+    };
+  }
+
+  // Called with the REST snapshot after the feed for `symbol` resyncs. Pass
+  // `candles: false` when only the quote matters to skip the 1m candle fetch.
+  public subscribeToSnapshots(
+    symbol: string,
+    listener: SnapshotListener,
+    options: { candles?: boolean } = {}
+  ): () => void {
+    const subscription: SnapshotSubscription = { listener, candles: options.candles ?? true };
+    if (!this.snapshotSubscriptions.has(symbol)) {
+      this.snapshotSubscriptions.set(symbol, new Set());
+    }
+    this.snapshotSubscriptions.get(symbol)!.add(subscription);
+
+    return () => {
+      const subscriptions = this.snapshotSubscriptions.get(symbol);
+      subscriptions?.delete(subscription);
+      if (subscriptions?.size === 0) {
+        this.snapshotSubscriptions.delete(symbol);
+      }
+    };
+  }
+
   public subscribeToStockUpdates(symbol: string, callback: (data: StockData) => void): () => void {
     // Subscribe to the symbol
-    this.subscribeToSymbol(symbol);
+    this.subscribeToSymbol(symbol, 'price');
     
     // Return subscription for price updates
     const unsubscribe = this.subscribe('price_update', (data) => {
@@ -167,14 +576,17 @@ class WebSocketService {
       }
     });
 
-    // Return cleanup function
+    // Return cleanup function; safe to call more than once
+    let released = false;
     return () => {
+      if (released) return;
+      released = true;
       unsubscribe();
-      this.unsubscribeFromSymbol(symbol);
+      this.unsubscribeFromSymbol(symbol, 'price');
     };
   }
 
-  public subscribeToSignalUpdates(callback: (signal: TradingSignal) => void): () => void {
+  public subscribeToSignalUpdates(callback: (signal: BreakoutSignal) => void): () => void {
     return this.subscribe('signal_update', callback);
   }
 
@@ -182,9 +594,9 @@ class WebSocketService {
     return this.subscribe('price_update', callback);
   }
 
-  public subscribeToChartUpdates(symbol: string, callback: (data: any) => void): () => void {
+  public subscribeToChartUpdates(symbol: string, callback: (data: ChartCandle) => void): () => void {
     // Subscribe to the symbol
-    this.subscribeToSymbol(symbol);
+    this.subscribeToSymbol(symbol, 'chart');
     
     // Return subscription for chart updates
     const unsubscribe = this.subscribe('chart_update', (data) => {
@@ -193,15 +605,20 @@ class WebSocketService {
       }
     });
 
-    // Return cleanup function
+    // Return cleanup function; safe to call more than once
+    let released = false;
     return () => {
+      if (released) return;
+      released = true;
       unsubscribe();
-      this.unsubscribeFromSymbol(symbol);
+      this.unsubscribeFromSymbol(symbol, 'chart');
     };
   }
 
   public send(message: any): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    if (!this.isLeader) {
+      this.coordinator?.forward(message);
+    } else if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
     } else {
       console.warn('WebSocket is not connected');
@@ -209,16 +626,21 @@ class WebSocketService {
   }
 
   public disconnect(): void {
-    this.stopPingInterval();
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    // Hands the shared socket to another tab, if one is open
+    this.coordinator?.stop();
+    this.teardown();
+    this.manuallyClosed = true;
     this.callbacks.clear();
-    this.subscribedSymbols.clear();
+    this.symbolConsumers.clear();
+    this.feedSync.clear();
+    this.snapshotSubscriptions.clear();
+    this.setConnectionState({ status: 'offline', lastError: null, latency: null });
   }
 
   public isConnected(): boolean {
+    if (!this.isLeader) {
+      return this.connectionState.status === 'open';
+    }
     return this.ws?.readyState === WebSocket.OPEN;
   }
 }
@@ -0,0 +1,36 @@
+import { Workspace } from '../types';
+import { PreferenceStore } from './preferenceStore';
+
+// Named multi-chart workspaces, kept per account and synced with the user
+// preferences (see PreferenceStore)
+
+class WorkspaceStore extends PreferenceStore<Workspace> {
+  constructor() {
+    super('chartWorkspaces', 'workspaces', (workspaces) => ({ workspaces }));
+  }
+
+  // Saved workspaces by name, leaving out deleted ones
+  list(): Workspace[] {
+    return this.readAll()
+      .filter((workspace) => !workspace.deleted)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(id: string): Workspace | null {
+    const workspace = this.read(id);
+    return workspace && !workspace.deleted ? workspace : null;
+  }
+
+  set(workspace: Workspace): void {
+    this.write(workspace.id, { ...workspace, updatedAt: Date.now() });
+  }
+
+  // Deleted workspaces stay as markers so the deletion reaches the server
+  remove(id: string): void {
+    const workspace = this.read(id);
+    if (workspace) this.write(id, { ...workspace, deleted: true, updatedAt: Date.now() });
+  }
+}
+
+export const workspaceStore = new WorkspaceStore();
+export default workspaceStore;
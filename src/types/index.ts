@@ -32,22 +32,34 @@ export interface CandlestickData {
 
 // Technical Indicators
 export interface TechnicalIndicators {
-  rsi: number;
+  // Null until enough bars have been seen
+  rsi: number | null;
   macd: {
     macd: number;
     signal: number;
     histogram: number;
-  };
+  } | null;
   sma: {
-    sma20: number;
-    sma50: number;
-    sma200: number;
+    sma20: number | null;
+    sma50: number | null;
+    sma200: number | null;
   };
   bollingerBands: {
     upper: number;
     middle: number;
     lower: number;
-  };
+  } | null;
+  atr: number | null;
+  superTrend: {
+    value: number;
+    direction: 'up' | 'down';
+    upper: number;
+    lower: number;
+  } | null;
+  stochastic: {
+    k: number;
+    d: number | null;
+  } | null;
   volume: number;
 }
 
@@ -134,6 +146,13 @@ export interface ChartSignal {
   session_high?: number;
   session_low?: number;
   status: 'ACTIVE' | 'COMPLETED' | 'EXPIRED';
+  // Trade levels in this chart's prices; the index chart gets the future's
+  // shifted by the basis at the signal
+  entry_price?: number;
+  stop_loss?: number;
+  target_1?: number;
+  target_2?: number;
+  breakout_summary?: BreakoutSignal['breakout_summary'];
 }
 
 // API Response Types
@@ -162,20 +181,270 @@ export interface SignalsResponse {
   signals: TradingSignal[];
 }
 
-// WebSocket Message Types
-export interface WebSocketMessage {
-  type: 'price_update' | 'signal_update' | 'chart_update' | 'market_data' | 'subscription_confirmed' | 'unsubscription_confirmed' | 'pong' | 'heartbeat' | 'error';
-  data: any;
+// Feed Types
+export interface FeedTick {
+  _id?: string;
+  symbol: string;
+  price: number;
   timestamp: string;
+  token?: string;
+  exchange: string;
+  high: number | null;
+  low: number | null;
+  volume: number | null;
+  change: number | null;
+  change_percent: number | null;
+  source?: string;
+  market_status?: string;
+  received_at: string;
+}
+
+export interface FeedResponse {
+  status: 'success' | 'error';
+  data: FeedTick[];
+  count?: number;
+  message?: string;
+}
+
+export interface FeedHealthResponse {
+  status: string;
+  message?: string;
+  last_update?: string | null;
+}
+
+// Chart Data Types
+export interface ChartCandle {
+  time: number; // Unix timestamp in seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  symbol: string;
+  exchange: string;
+}
+
+export interface ChartDataResponse {
+  symbol: string;
+  timeframe: string;
+  date: string;
+  data: ChartCandle[];
+  count: number;
+  data_source: string;
+  latest_price: number;
+  real_time: boolean;
+  tick_count: number;
+}
+
+export interface AvailableSymbol {
+  symbol: string;
+  name: string;
+  exchange: string;
+}
+
+export interface AvailableSymbolsResponse {
+  symbols: AvailableSymbol[];
+  count: number;
+}
+
+export interface MarketOverview {
+  gainers: StockData[];
+  losers: StockData[];
+  mostActive: StockData[];
+}
+
+// Signal Monitoring Types
+export interface MonitoringStatus {
+  monitoring_active: boolean;
+  market_hours: boolean;
+  current_time_ist: string;
+  service_status: string;
+  latest_signal?: BreakoutSignal | null;
+}
+
+export interface TodaySignalsResponse extends MonitoringStatus {
+  signals: BreakoutSignal[];
+}
+
+export interface MonitoringToggleResponse {
+  status?: string;
+  message?: string;
+}
+
+export interface SessionLevels {
+  high: number;
+  low: number;
+}
+
+export interface TradingSession {
+  name: string;
+  start_time: string;
+  end_time: string;
+  is_active: boolean;
+  is_completed: boolean;
+  session_data?: Record<string, SessionLevels>;
+}
+
+export interface SessionStatusResponse {
+  sessions: TradingSession[];
+}
+
+export interface TechnicalAnalysisResponse {
   symbol?: string;
-  timeframe?: string;
+  technical_data: {
+    vwap?: number | null;
+    [key: string]: unknown;
+  };
+}
+
+export interface SignalsListResponse {
+  signals: BreakoutSignal[];
+}
+
+export interface SignalHistoryResponse {
+  signals: BreakoutSignal[];
+  sessions?: SessionSignals;
+  total?: number;
+}
+
+export interface ChartSignalsResponse {
+  signals: ChartSignal[];
+}
+
+export interface SignalPerformance {
+  total_signals: number;
+  active_signals?: number;
+  completed_signals?: number;
+  expired_signals?: number;
+  win_rate?: number | null;
+  average_confidence?: number | null;
+}
+
+// WebSocket Message Types
+
+// Payload carried by each server message type
+export interface WebSocketEventMap {
+  price_update: StockData;
+  signal_update: BreakoutSignal;
+  chart_update: ChartCandle;
+  market_data: unknown; // Not emitted by the current backend
+  subscription_confirmed: { symbol: string };
+  unsubscription_confirmed: { symbol: string };
+  pong: Record<string, unknown>;
+  heartbeat: { server_time?: string };
+  error: { message: string };
+}
+
+export type WebSocketMessageType = keyof WebSocketEventMap;
+
+// Discriminated union: narrowing on `type` narrows `data`
+export type WebSocketMessage = {
+  [K in WebSocketMessageType]: {
+    type: K;
+    data: WebSocketEventMap[K];
+    timestamp: string;
+    symbol?: string;
+    timeframe?: string;
+    seq?: number; // Per-symbol sequence number of price_update and chart_update frames
+  };
+}[WebSocketMessageType];
+
+// Reported for messages the client can't dispatch
+export interface WebSocketDiagnostic {
+  kind: 'parse_error' | 'unknown_type' | 'invalid_payload';
+  type?: string;
+  detail: string;
+  raw: string;
+  receivedAt: string;
+}
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'offline';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  attempt: number; // Reconnect attempts since the last successful connection
+  lastError: string | null;
+  latency: number | null; // Ping/pong round trip in ms
+}
+
+// Symbol feeds a consumer can subscribe to: price_update and chart_update
+export type SymbolChannel = 'price' | 'chart';
+
+export interface SymbolSubscription {
+  symbol: string;
+  channels: Record<SymbolChannel, number>; // Consumers in this tab
+  otherTabs: number | null; // Only known in the tab that owns the shared connection
+  serverSubscribed: boolean;
+}
+
+export type FeedResyncReason = 'gap' | 'reconnect';
+
+// REST state fetched after the live feed missed frames for a symbol
+export interface FeedSnapshot {
+  symbol: string;
+  reason: FeedResyncReason;
+  quote: StockData | null;
+  candles: ChartCandle[] | null; // Today's 1m candles, when a consumer asked for them
+  fetchedAt: string;
 }
 
 // Chart Configuration
+// Overlays drawn on the price pane
+export type ChartLayerId = 'vwap' | 'sessionLevels' | 'sessionBands' | 'signals' | 'movingAverages' | 'drawings' | 'profile';
+
+// Charts in the same link group share crosshair, visible range and timeframe
+export type ChartLinkGroup = 'A' | 'B' | 'C';
+
 export interface ChartConfig {
-  type: 'candlestick' | 'line';
+  type: 'candlestick' | 'line' | 'heikinAshi' | 'renko' | 'lineBreak' | 'rangeBars'; // See utils/chartTypes
+  boxSize: number | null; // Renko brick and range bar size; null sizes them from the ATR
   timeframe: '1m' | '5m' | '15m' | '1h' | '1d' | '1w' | '1M';
-  indicators: string[];
+  indicators: string[]; // Open sub-panes, see utils/panes
+  layers: ChartLayerId[];
+  compare: string[]; // Symbols overlaid on the price pane
+  compareScale: 'percent' | 'rebased'; // How the price scale normalises overlaid symbols
+  linkGroup: ChartLinkGroup | null;
+}
+
+// Chart drawings
+export type DrawingTool = 'trendline' | 'horizontalRay' | 'priceRange' | 'fibonacci' | 'note';
+
+export interface DrawingPoint {
+  time: number; // UTC epoch seconds, may lie between or beyond bars
+  price: number;
+}
+
+export interface Drawing {
+  id: string;
+  tool: DrawingTool;
+  points: DrawingPoint[]; // One for rays and notes, two for the rest
+  color: string;
+  text?: string;
+}
+
+// The drawings of one symbol and timeframe; the newer copy wins when syncing
+export interface DrawingSet {
+  drawings: Drawing[];
+  updatedAt: number; // Epoch ms
+}
+
+// Multi-chart workspaces
+export type WorkspaceLayout = '1x2' | '2x2' | '3x3';
+
+export interface WorkspaceCell {
+  symbol: string;
+  timeframe: ChartConfig['timeframe'];
+  linkGroup: ChartLinkGroup | null;
+}
+
+// A named grid of charts; the newer copy wins when syncing
+export interface Workspace {
+  id: string;
+  name: string;
+  layout: WorkspaceLayout;
+  cells: WorkspaceCell[]; // Row by row, one per grid cell
+  updatedAt: number; // Epoch ms
+  deleted?: boolean; // Deleted workspaces stay as markers so the deletion reaches the server
 }
 
 // User Preferences
@@ -188,6 +457,8 @@ export interface UserPreferences {
     signalAlerts: boolean;
     email: boolean;
   };
+  drawings?: Record<string, DrawingSet>; // Keyed by `${symbol}:${timeframe}`
+  workspaces?: Record<string, Workspace>; // Keyed by id
 }
 
 // Authentication Types
@@ -204,7 +475,9 @@ export interface LoginCredentials {
 }
 
 export interface AuthResponse {
-  user: User;
+  user?: User;
   access_token: string;
   token_type: string;
+  refresh_token?: string;
+  expires_in?: number; // Seconds until the access token expires
 } 
\ No newline at end of file
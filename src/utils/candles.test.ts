@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ChartCandle } from '../types';
+import { CandleAggregator, candleTime, withLiveCandle } from './candles';
+import { istTime } from './marketTime';
+
+// Tuesday 2 January 2024, a trading day
+const DAY = '2024-01-02';
+const at = (time: string, date = DAY) => istTime(date, time);
+
+const candle = (time: number, price: number, volume = 0): ChartCandle =>
+  ({ time, open: price, high: price, low: price, close: price, volume, symbol: 'NIFTY', exchange: 'NSE' });
+
+describe('candleTime', () => {
+  it('aligns intraday bars to the 09:15 open', () => {
+    expect(candleTime(at('09:15') + 59, '1m')).toBe(at('09:15'));
+    expect(candleTime(at('09:24'), '5m')).toBe(at('09:20'));
+    expect(candleTime(at('09:44'), '15m')).toBe(at('09:30'));
+    expect(candleTime(at('10:14'), '1h')).toBe(at('09:15'));
+    expect(candleTime(at('10:15'), '1h')).toBe(at('10:15'));
+  });
+
+  it('ends the day with the short 15:15-15:30 hourly bar', () => {
+    expect(candleTime(at('15:14'), '1h')).toBe(at('14:15'));
+    expect(candleTime(at('15:29'), '1h')).toBe(at('15:15'));
+  });
+
+  it('opens daily, weekly and monthly bars at IST midnight', () => {
+    // 01:00 IST is still the previous day in UTC
+    expect(candleTime(at('01:00'), '1d')).toBe(at('00:00'));
+    // Wednesday belongs to the week opened on Monday
+    expect(candleTime(at('10:00', '2024-01-03'), '1w')).toBe(at('00:00', '2024-01-01'));
+    expect(candleTime(at('00:30', '2024-01-07'), '1w')).toBe(at('00:00', '2024-01-01'));
+    expect(candleTime(at('01:00', '2024-02-01'), '1M')).toBe(at('00:00', '2024-02-01'));
+    expect(candleTime(at('15:00', '2024-02-29'), '1M')).toBe(at('00:00', '2024-02-01'));
+  });
+});
+
+describe('CandleAggregator', () => {
+  const snapshot = () => [candle(at('09:16'), 101), candle(at('09:15'), 100)];
+
+  it('sorts the snapshot and revises its last bar with ticks', () => {
+    const aggregator = new CandleAggregator('NIFTY', '1m');
+    expect(aggregator.reset(snapshot()).map(bar => bar.time)).toEqual([at('09:15'), at('09:16')]);
+
+    const bar = aggregator.applyTick({ time: at('09:16') + 30, price: 103 });
+    expect(bar).toMatchObject({ time: at('09:16'), open: 101, high: 103, low: 101, close: 103 });
+    expect(aggregator.getCandles()).toHaveLength(2);
+  });
+
+  it('opens a new bar when a tick falls past the last one', () => {
+    const aggregator = new CandleAggregator('NIFTY', '5m');
+    aggregator.reset([candle(at('09:15'), 100)]);
+
+    const bar = aggregator.applyTick({ time: at('09:21'), price: 99 });
+    expect(bar).toMatchObject({ time: at('09:20'), open: 99, close: 99, symbol: 'NIFTY', exchange: 'NSE' });
+    expect(aggregator.getCandles()).toHaveLength(2);
+  });
+
+  it('ignores ticks outside the session or older than the last bar', () => {
+    const aggregator = new CandleAggregator('NIFTY', '1m');
+    aggregator.reset(snapshot());
+
+    expect(aggregator.applyTick({ time: at('09:14'), price: 90 })).toBeNull();
+    expect(aggregator.applyTick({ time: at('15:30'), price: 90 })).toBeNull();
+    // A Sunday and an exchange holiday
+    expect(aggregator.applyTick({ time: at('10:00', '2024-01-07'), price: 90 })).toBeNull();
+    expect(aggregator.applyTick({ time: at('10:00', '2025-12-25'), price: 90 })).toBeNull();
+    expect(aggregator.applyTick({ time: at('09:15') + 10, price: 90 })).toBeNull();
+    expect(aggregator.getCandles().map(bar => bar.close)).toEqual([100, 101]);
+  });
+
+  it('adds the volume traded since the previous tick, restarting each day', () => {
+    const aggregator = new CandleAggregator('NIFTY', '1d');
+    aggregator.reset([candle(at('00:00'), 100, 5000)]);
+
+    // The first tick's volume is already in the snapshot
+    aggregator.applyTick({ time: at('10:00'), price: 101, volume: 1000 });
+    expect(aggregator.applyTick({ time: at('10:01'), price: 102, volume: 1250 })?.volume).toBe(5250);
+    // A falling cumulative volume adds nothing
+    expect(aggregator.applyTick({ time: at('10:02'), price: 102, volume: 1200 })?.volume).toBe(5250);
+
+    const next = aggregator.applyTick({ time: at('09:20', '2024-01-03'), price: 103, volume: 300 });
+    expect(next).toMatchObject({ time: at('00:00', '2024-01-03'), volume: 300 });
+  });
+});
+
+describe('withLiveCandle', () => {
+  const candles = [candle(60, 1), candle(120, 2)];
+
+  it('replaces the forming bar or appends a new one', () => {
+    expect(withLiveCandle(candles, candle(120, 3)).map(bar => bar.close)).toEqual([1, 3]);
+    expect(withLiveCandle(candles, candle(180, 3)).map(bar => bar.close)).toEqual([1, 2, 3]);
+  });
+
+  it('leaves the candles alone without a newer live bar', () => {
+    expect(withLiveCandle(candles, null)).toBe(candles);
+    expect(withLiveCandle(candles, candle(60, 9))).toBe(candles);
+  });
+});
@@ -0,0 +1,143 @@
+import { ChartCandle, ChartConfig, StockData } from '../types';
+import { MARKET_OPEN, istDate, istTime, isWithinSession, shiftDate, weekdayIndex } from './marketTime';
+
+export type Timeframe = ChartConfig['timeframe'];
+
+export const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '1d', '1w', '1M'];
+
+const INTRADAY_SECONDS: Partial<Record<Timeframe, number>> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+};
+
+export function isTimeframe(value: string): value is Timeframe {
+  return (TIMEFRAMES as string[]).includes(value);
+}
+
+export function isIntraday(timeframe: Timeframe): boolean {
+  return INTRADAY_SECONDS[timeframe] !== undefined;
+}
+
+// Length of an intraday bar in seconds; null for daily and longer
+export function timeframeSeconds(timeframe: Timeframe): number | null {
+  return INTRADAY_SECONDS[timeframe] ?? null;
+}
+
+// The candles with the forming bar applied, replacing the last one when it is the same bar
+export function withLiveCandle(candles: ChartCandle[], liveCandle: ChartCandle | null): ChartCandle[] {
+  if (!liveCandle) return candles;
+  const last = candles[candles.length - 1];
+  if (last && last.time > liveCandle.time) return candles;
+  return last?.time === liveCandle.time ? [...candles.slice(0, -1), liveCandle] : [...candles, liveCandle];
+}
+
+// Open time of the bar containing `time`. Intraday bars are aligned to the
+// 09:15 open, so the last hourly bar is the short 15:15-15:30 one. Daily,
+// weekly and monthly bars open at IST midnight of the day, Monday and 1st.
+export function candleTime(time: number, timeframe: Timeframe): number {
+  const date = istDate(time);
+  const size = INTRADAY_SECONDS[timeframe];
+  if (size) {
+    const open = istTime(date, MARKET_OPEN);
+    return open + Math.floor((time - open) / size) * size;
+  }
+  switch (timeframe) {
+    case '1w':
+      return istTime(shiftDate(date, -weekdayIndex(date)), '00:00');
+    case '1M':
+      return istTime(`${date.slice(0, 7)}-01`, '00:00');
+    default:
+      return istTime(date, '00:00');
+  }
+}
+
+export interface Tick {
+  time: number; // Epoch seconds
+  price: number;
+  volume?: number; // Cumulative session volume
+}
+
+export function tickFromStockData(data: StockData): Tick | null {
+  const price = data.ltpc ?? data.price ?? data.close;
+  const timestamp = data.timestamp ?? data.received_at;
+  if (price === undefined || !timestamp) return null;
+  const time = Date.parse(timestamp) / 1000;
+  return Number.isFinite(time) ? { time, price, volume: data.volume } : null;
+}
+
+// Maintains OHLCV bars for one symbol and timeframe from a REST snapshot
+// plus live ticks. applyTick returns the single bar that changed, so charts
+// can call series.update() instead of re-setting the whole series.
+export class CandleAggregator {
+  private candles: ChartCandle[] = [];
+  private lastVolume: { date: string; volume: number } | null = null;
+
+  constructor(
+    readonly symbol: string,
+    readonly timeframe: Timeframe,
+    private exchange: string = 'NSE'
+  ) {}
+
+  reset(snapshot: ChartCandle[]): ChartCandle[] {
+    this.candles = [...snapshot].sort((a, b) => a.time - b.time);
+    if (this.candles.length) {
+      this.exchange = this.candles[this.candles.length - 1].exchange;
+    }
+    // Volume before the first tick is already in the snapshot
+    this.lastVolume = null;
+    return this.candles;
+  }
+
+  getCandles(): ChartCandle[] {
+    return this.candles;
+  }
+
+  // Returns the created or updated bar, or null for ticks outside market hours or older than the last bar
+  applyTick(tick: Tick): ChartCandle | null {
+    if (!isWithinSession(tick.time)) return null;
+
+    const time = candleTime(tick.time, this.timeframe);
+    const last = this.candles[this.candles.length - 1];
+    if (last && time < last.time) return null;
+
+    const volume = this.volumeDelta(tick);
+    if (last && time === last.time) {
+      const updated: ChartCandle = {
+        ...last,
+        high: Math.max(last.high, tick.price),
+        low: Math.min(last.low, tick.price),
+        close: tick.price,
+        volume: last.volume + volume,
+      };
+      this.candles[this.candles.length - 1] = updated;
+      return updated;
+    }
+
+    const candle: ChartCandle = {
+      time,
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      volume,
+      symbol: this.symbol,
+      exchange: this.exchange,
+    };
+    this.candles.push(candle);
+    return candle;
+  }
+
+  // Ticks carry the session's cumulative volume; bars need the traded amount since the last tick
+  private volumeDelta(tick: Tick): number {
+    if (tick.volume === undefined) return 0;
+    const date = istDate(tick.time);
+    const previous = this.lastVolume;
+    this.lastVolume = { date, volume: tick.volume };
+
+    if (!previous) return 0;
+    if (previous.date !== date) return tick.volume;
+    return Math.max(0, tick.volume - previous.volume);
+  }
+}
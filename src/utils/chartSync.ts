@@ -0,0 +1,92 @@
+import { IChartApi, ISeriesApi, LogicalRange, MouseEventParams, SeriesType, Time } from 'lightweight-charts';
+
+export interface SyncedChart {
+  chart: IChartApi;
+  series: ISeriesApi<SeriesType>; // Series the crosshair snaps to
+  valueAt: (time: number) => number | null;
+}
+
+interface Member extends SyncedChart {
+  onRange: (range: LogicalRange | null) => void;
+  onCrosshair: (param: MouseEventParams) => void;
+}
+
+// Keeps the visible logical range and crosshair of charts showing the same
+// bars in step. Members must hold a point (or whitespace) for every bar so
+// that logical indexes line up. The leader's range is applied to charts that
+// join later.
+export class ChartSync {
+  private members: Member[] = [];
+  private leader: Member | null = null;
+  private syncing = false;
+
+  add(chart: SyncedChart, leader: boolean = false): () => void {
+    const member: Member = {
+      ...chart,
+      onRange: (range) => {
+        if (!range) return;
+        this.broadcast(member, other => other.chart.timeScale().setVisibleLogicalRange(range));
+      },
+      onCrosshair: (param) => {
+        this.broadcast(member, other => {
+          const value = param.time === undefined ? null : other.valueAt(param.time as number);
+          if (value === null) {
+            other.chart.clearCrosshairPosition();
+          } else {
+            other.chart.setCrosshairPosition(value, param.time as Time, other.series);
+          }
+        });
+      },
+    };
+
+    this.members.push(member);
+    member.chart.timeScale().subscribeVisibleLogicalRangeChange(member.onRange);
+    member.chart.subscribeCrosshairMove(member.onCrosshair);
+
+    if (leader) {
+      this.leader = member;
+      this.members.forEach(other => this.align(other.chart));
+    } else {
+      this.align(member.chart);
+    }
+
+    return () => {
+      member.chart.timeScale().unsubscribeVisibleLogicalRangeChange(member.onRange);
+      member.chart.unsubscribeCrosshairMove(member.onCrosshair);
+      this.members = this.members.filter(other => other !== member);
+      if (this.leader === member) this.leader = null;
+    };
+  }
+
+  // Replaces a member's data, then lines it up with the leader. Bars prepended
+  // to a member shift its logical range before the leader has them too, so
+  // that change must not reach the others.
+  update(chart: IChartApi, apply: () => void): void {
+    const syncing = this.syncing;
+    this.syncing = true;
+    try {
+      apply();
+    } finally {
+      this.syncing = syncing;
+    }
+    this.align(chart);
+  }
+
+  // Applies the leader's visible range to a member
+  align(chart: IChartApi): void {
+    if (!this.leader || this.leader.chart === chart) return;
+    const range = this.leader.chart.timeScale().getVisibleLogicalRange();
+    if (range) chart.timeScale().setVisibleLogicalRange(range);
+  }
+
+  // Changes made while propagating would echo back through the other members' handlers
+  private broadcast(source: Member, apply: (other: Member) => void): void {
+    if (this.syncing) return;
+    this.syncing = true;
+    try {
+      this.members.filter(other => other !== source).forEach(apply);
+    } finally {
+      this.syncing = false;
+    }
+  }
+}
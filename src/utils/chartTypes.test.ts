@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ChartCandle } from '../types';
+import { BarBuilder, CHART_TYPE_IDS } from './chartTypes';
+
+const candle = (time: number, open: number, high: number, low: number, close: number, volume = 100): ChartCandle =>
+  ({ time, open, high, low, close, volume, symbol: 'NIFTY', exchange: 'NSE' });
+
+const closes = (values: number[]) => values.map((close, i) => candle(i * 60, close, close, close, close));
+
+const ohlc = (bars: ChartCandle[]) => bars.map(bar => [bar.open, bar.high, bar.low, bar.close]);
+
+describe('BarBuilder', () => {
+  it('maps candles one to one for candlesticks', () => {
+    const candles = closes([10, 11, 12]);
+    expect(new BarBuilder('candlestick', null).reset(candles)).toEqual(candles);
+  });
+
+  it('averages Heikin-Ashi bars from the previous bar', () => {
+    const bars = new BarBuilder('heikinAshi', null).reset([candle(0, 10, 14, 8, 12), candle(60, 12, 16, 11, 15)]);
+    expect(ohlc(bars)).toEqual([[11, 14, 8, 11], [11, 16, 11, 13.5]]);
+  });
+
+  it('prints Renko bricks on closes and needs two boxes to reverse', () => {
+    const bars = new BarBuilder('renko', 1).reset(closes([10, 12.5, 11.5, 10, 12.2]));
+    expect(ohlc(bars)).toEqual([
+      [10, 11, 10, 11],
+      [11, 12, 11, 12],
+      [11, 11, 10, 10],
+      [11, 12, 11, 12],
+    ]);
+    // Bricks of one candle get distinct times
+    expect(bars.map(bar => bar.time)).toEqual([60, 61, 180, 240]);
+  });
+
+  it('reverses line break lines past the extreme of the last three', () => {
+    const bars = new BarBuilder('lineBreak', null).reset(closes([10, 11, 12, 13, 11, 9.5]));
+    expect(bars.map(bar => [bar.open, bar.close])).toEqual([[10, 11], [11, 12], [12, 13], [12, 9.5]]);
+  });
+
+  it('gives every completed range bar the box size from high to low', () => {
+    const bars = new BarBuilder('rangeBars', 2).reset([candle(0, 100, 105, 99, 104), candle(60, 104, 104, 97, 98)]);
+    bars.slice(0, -1).forEach(bar => expect(bar.high - bar.low).toBeCloseTo(2, 10));
+    expect(bars[bars.length - 1].close).toBe(98);
+  });
+
+  it('rolls back what a revised candle printed', () => {
+    const builder = new BarBuilder('renko', 1);
+    builder.reset(closes([10, 10.5]));
+
+    const up = builder.update(candle(120, 10.5, 12.2, 10.5, 12.2));
+    expect(up.bars).toHaveLength(2);
+    expect(up.from).toBe(0);
+
+    const back = builder.update(candle(120, 10.5, 12.2, 10.2, 10.2));
+    expect(back.bars).toHaveLength(0);
+
+    const again = builder.update(candle(120, 10.5, 12.2, 10.2, 11.1));
+    expect(ohlc(again.bars)).toEqual([[10, 11, 10, 11]]);
+  });
+
+  it('reports an untouched tail as unchanged', () => {
+    const builder = new BarBuilder('candlestick', null);
+    builder.reset(closes([10, 11]));
+    expect(builder.update(candle(120, 11, 12, 11, 12)).from).toBe(2);
+    expect(builder.update(candle(120, 11, 13, 11, 13)).from).toBe(2);
+  });
+
+  it('sizes boxes from the ATR without a fixed size', () => {
+    const builder = new BarBuilder('renko', null);
+    expect(builder.reset(closes([10, 11]))).toEqual([]);
+    expect(builder.boxSizeUsed()).toBeNull();
+
+    const candles = Array.from({ length: 20 }, (_, i) => candle(i * 60, 100 + i, 102 + i, 99 + i, 101 + i));
+    builder.reset(candles);
+    expect(builder.boxSizeUsed()).toBeGreaterThan(0);
+  });
+
+  describe('live revisions equal a full rebuild', () => {
+    // Deterministic random walk
+    let seed = 11;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const walk: ChartCandle[] = [];
+    let price = 100;
+    for (let i = 0; i < 150; i++) {
+      const open = price;
+      const close = open + (random() - 0.5) * 6;
+      walk.push(candle(i * 60, open, Math.max(open, close) + random() * 2, Math.min(open, close) - random() * 2, close, 10));
+      price = close;
+    }
+
+    // A forming candle seen at its open, after each extreme, then closed
+    const revisions = (c: ChartCandle): ChartCandle[] => [
+      { ...c, high: c.open, low: c.open, close: c.open },
+      { ...c, low: c.open, close: c.high },
+      { ...c, close: c.low },
+      c,
+    ];
+
+    it.each(CHART_TYPE_IDS)('%s', type => {
+      const expected = new BarBuilder(type, 1.5).reset(walk);
+
+      const builder = new BarBuilder(type, 1.5);
+      builder.reset(walk.slice(0, 20));
+      let bars: ChartCandle[] = [];
+      walk.slice(20).forEach(c => revisions(c).forEach(revision => {
+        bars = builder.update(revision).bars;
+      }));
+
+      expect(bars).toEqual(expected);
+    });
+  });
+});
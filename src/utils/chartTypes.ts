@@ -0,0 +1,271 @@
+import { ChartCandle, ChartConfig } from '../types';
+import { atr, computeSeries } from './indicators';
+
+// Bars each chart type plots, derived from time candles on the client.
+// Candlestick, line and Heikin-Ashi map candles one to one. Renko, line break
+// and range bars only print when price has moved far enough, so several bars
+// can come from one candle, or none; their times are the candle's, nudged a
+// second forward when a candle prints more than one bar.
+
+export type ChartType = ChartConfig['type'];
+
+export const CHART_TYPES: Record<ChartType, { label: string; timeBased: boolean; sized: boolean }> = {
+  candlestick: { label: 'Candles', timeBased: true, sized: false },
+  line: { label: 'Line', timeBased: true, sized: false },
+  heikinAshi: { label: 'Heikin-Ashi', timeBased: true, sized: false },
+  renko: { label: 'Renko', timeBased: false, sized: true },
+  lineBreak: { label: 'Line break', timeBased: false, sized: false },
+  rangeBars: { label: 'Range bars', timeBased: false, sized: true },
+};
+
+export const CHART_TYPE_IDS = Object.keys(CHART_TYPES) as ChartType[];
+
+const LINE_BREAK_COUNT = 3;
+const ATR_PERIOD = 14;
+
+// Appends or revises bars in `bars` for one candle and returns the next state
+type BarStep<S> = (state: S, candle: ChartCandle, bars: ChartCandle[], size: number) => S;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function nextTime(bars: ChartCandle[], candle: ChartCandle): number {
+  const last = bars[bars.length - 1];
+  return last ? Math.max(candle.time, last.time + 1) : candle.time;
+}
+
+const identityStep: BarStep<null> = (state, candle, bars) => {
+  bars.push({ ...candle });
+  return state;
+};
+
+interface HeikinAshiState {
+  open: number;
+  close: number;
+}
+
+const heikinAshiStep: BarStep<HeikinAshiState | null> = (previous, candle, bars) => {
+  const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+  const open = previous ? (previous.open + previous.close) / 2 : (candle.open + candle.close) / 2;
+  bars.push({
+    ...candle,
+    open,
+    high: Math.max(candle.high, open, close),
+    low: Math.min(candle.low, open, close),
+    close,
+  });
+  return { open, close };
+};
+
+// Bricks on closes; reversing takes two boxes, one to clear the last brick
+interface RenkoState {
+  top: number;
+  bottom: number;
+  volume: number; // Traded since the last brick
+}
+
+const renkoStep: BarStep<RenkoState | null> = (state, candle, bars, size) => {
+  if (!state) {
+    const base = Math.floor(candle.close / size) * size;
+    return { top: base, bottom: base, volume: candle.volume };
+  }
+
+  let { top, bottom } = state;
+  let volume = state.volume + candle.volume;
+  const brick = (open: number, close: number) => {
+    bars.push({
+      ...candle,
+      time: nextTime(bars, candle),
+      open: round2(open),
+      high: round2(Math.max(open, close)),
+      low: round2(Math.min(open, close)),
+      close: round2(close),
+      volume,
+    });
+    volume = 0;
+  };
+
+  while (candle.close >= top + size) {
+    brick(top, top + size);
+    bottom = top;
+    top += size;
+  }
+  while (candle.close <= bottom - size) {
+    brick(bottom, bottom - size);
+    top = bottom;
+    bottom -= size;
+  }
+  return { top, bottom, volume };
+};
+
+// A new line prints on a close beyond the last one; a reversal needs a close
+// beyond the extreme of the last three lines
+interface LineBreakState {
+  lines: { open: number; close: number }[];
+  first: ChartCandle | null; // Until the first line prints
+  volume: number;
+}
+
+const lineBreakStep: BarStep<LineBreakState> = (state, candle, bars) => {
+  const volume = state.volume + candle.volume;
+  const line = (open: number, close: number): LineBreakState => {
+    bars.push({
+      ...candle,
+      time: nextTime(bars, candle),
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume,
+    });
+    return { lines: [...state.lines, { open, close }].slice(-LINE_BREAK_COUNT), first: null, volume: 0 };
+  };
+
+  const last = state.lines[state.lines.length - 1];
+  if (!last) {
+    const open = state.first?.open ?? candle.open;
+    return candle.close !== open ? line(open, candle.close) : { ...state, first: state.first ?? candle, volume };
+  }
+
+  const rising = last.close > last.open;
+  const highest = Math.max(...state.lines.map(l => Math.max(l.open, l.close)));
+  const lowest = Math.min(...state.lines.map(l => Math.min(l.open, l.close)));
+
+  if (rising && candle.close > last.close) return line(last.close, candle.close);
+  if (!rising && candle.close < last.close) return line(last.close, candle.close);
+  if (rising && candle.close < lowest) return line(last.open, candle.close);
+  if (!rising && candle.close > highest) return line(last.open, candle.close);
+  return { ...state, volume };
+};
+
+// Every bar spans exactly `size` from high to low. Within a candle price is
+// assumed to go open, low, high, close on up candles and open, high, low,
+// close on down candles.
+interface RangeState {
+  forming: ChartCandle | null; // Always the last bar while it exists
+}
+
+const rangeStep: BarStep<RangeState> = (state, candle, bars, size) => {
+  let forming: ChartCandle | null = state.forming ? { ...state.forming, volume: state.forming.volume + candle.volume } : null;
+  const path = candle.close >= candle.open
+    ? [candle.open, candle.low, candle.high, candle.close]
+    : [candle.open, candle.high, candle.low, candle.close];
+
+  const open = (price: number, volume: number) => {
+    const bar = { ...candle, time: nextTime(bars, candle), open: price, high: price, low: price, close: price, volume };
+    bars.push(bar);
+    return bar;
+  };
+
+  if (!forming) forming = open(candle.open, candle.volume);
+  else bars[bars.length - 1] = forming;
+
+  path.forEach(price => {
+    for (;;) {
+      const bar: ChartCandle = forming!;
+      if (price > bar.low + size) {
+        bar.high = round2(bar.low + size);
+        bar.close = bar.high;
+        forming = open(bar.high, 0);
+      } else if (price < bar.high - size) {
+        bar.low = round2(bar.high - size);
+        bar.close = bar.low;
+        forming = open(bar.low, 0);
+      } else {
+        bar.high = Math.max(bar.high, price);
+        bar.low = Math.min(bar.low, price);
+        bar.close = price;
+        return;
+      }
+    }
+  });
+  return { forming: { ...forming } };
+};
+
+interface BarType {
+  step: BarStep<unknown>;
+  initial: () => unknown;
+}
+
+// Pairs a step with its initial state. The builder only ever hands a step the
+// state it started from or returned, so the state is narrowed back here.
+function barType<S>(step: BarStep<S>, initial: () => S): BarType {
+  return { step: (state, candle, bars, size) => step(state as S, candle, bars, size), initial };
+}
+
+const STEPS: Record<ChartType, BarType> = {
+  candlestick: barType(identityStep, () => null),
+  line: barType(identityStep, () => null),
+  heikinAshi: barType(heikinAshiStep, () => null),
+  renko: barType(renkoStep, () => null),
+  lineBreak: barType(lineBreakStep, () => ({ lines: [], first: null, volume: 0 })),
+  rangeBars: barType(rangeStep, () => ({ forming: null })),
+};
+
+// Box size from the average true range of the candles, for Renko and range bars without a fixed size
+export function atrBoxSize(candles: ChartCandle[]): number | null {
+  const points = computeSeries(atr(ATR_PERIOD), candles);
+  const value = points[points.length - 1]?.value;
+  return value ? Math.max(round2(value), 0.05) : null;
+}
+
+export interface BarUpdate {
+  bars: ChartCandle[];
+  from: number; // Index of the first bar added or changed; bars past the returned ones were removed
+}
+
+// Derives a chart type's bars and keeps them current as the forming candle is
+// revised: revising it rolls back whatever that candle printed before.
+export class BarBuilder {
+  private bars: ChartCandle[] = [];
+  private state: unknown;
+  private size = 0;
+  private last: { time: number; state: unknown; length: number; tail: ChartCandle | undefined } | null = null;
+
+  constructor(private readonly type: ChartType, private readonly boxSize: number | null) {
+    this.state = STEPS[type].initial();
+  }
+
+  // Rebuilds from a full candle series
+  reset(candles: ChartCandle[]): ChartCandle[] {
+    this.bars = [];
+    this.state = STEPS[this.type].initial();
+    this.last = null;
+    this.size = CHART_TYPES[this.type].sized ? this.boxSize ?? atrBoxSize(candles) ?? 0 : 0;
+    if (CHART_TYPES[this.type].sized && !this.size) return [];
+
+    // One copy at the end; copying per candle would make a rebuild quadratic
+    candles.forEach(candle => this.apply(candle));
+    return this.bars.slice();
+  }
+
+  // Adds a candle, or revises the last one when `candle.time` matches it
+  update(candle: ChartCandle): BarUpdate {
+    if (CHART_TYPES[this.type].sized && !this.size) return { bars: [], from: 0 };
+    const from = this.apply(candle);
+    return { bars: this.bars.slice(), from };
+  }
+
+  // Steps the bars in place and returns the index of the first one added or changed
+  private apply(candle: ChartCandle): number {
+    if (this.last && candle.time < this.last.time) return this.bars.length;
+
+    if (this.last && candle.time === this.last.time) {
+      // Undo what the previous version of this candle printed
+      this.bars.length = this.last.length;
+      if (this.last.tail) this.bars[this.last.length - 1] = this.last.tail;
+      this.state = this.last.state;
+    }
+
+    const length = this.bars.length;
+    const tail = this.bars[length - 1];
+    this.last = { time: candle.time, state: this.state, length, tail: tail && { ...tail } };
+    this.state = STEPS[this.type].step(this.state, candle, this.bars, this.size);
+
+    // Steps replace the bars they revise, so an untouched tail is the same object
+    return tail && this.bars[length - 1] !== tail ? length - 1 : length;
+  }
+
+  boxSizeUsed(): number | null {
+    return this.size || null;
+  }
+}
@@ -0,0 +1,55 @@
+// Geometry for chart drawings. Drawing points are stored as time and price so
+// they stay put across zooms and reloads; these helpers map times to bar
+// indexes, extrapolating with the nearest bar spacing past either end of the data.
+
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+// Retracement prices from `from` (level 1) back towards `to` (level 0)
+export function fibonacciLevels(from: number, to: number): { level: number; price: number }[] {
+  return FIB_LEVELS.map(level => ({ level, price: to - (to - from) * level }));
+}
+
+// Fractional bar index of a time within ascending bar times
+export function timeToLogical(times: number[], time: number): number | null {
+  const last = times.length - 1;
+  if (last < 0) return null;
+  if (last === 0) return time === times[0] ? 0 : null;
+
+  if (time <= times[0]) return (time - times[0]) / (times[1] - times[0]);
+  if (time >= times[last]) return last + (time - times[last]) / (times[last] - times[last - 1]);
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) low = mid;
+    else high = mid;
+  }
+  return low + (time - times[low]) / (times[high] - times[low]);
+}
+
+// Time at a bar index, the inverse of timeToLogical
+export function logicalToTime(times: number[], logical: number): number | null {
+  const last = times.length - 1;
+  if (last < 0) return null;
+  if (last === 0) return logical === 0 ? times[0] : null;
+
+  if (logical <= 0) return times[0] + logical * (times[1] - times[0]);
+  if (logical >= last) return times[last] + (logical - last) * (times[last] - times[last - 1]);
+
+  const index = Math.floor(logical);
+  return times[index] + (logical - index) * (times[index + 1] - times[index]);
+}
+
+// Pixel distance from a point to the segment a-b
+export function distanceToSegment(
+  x: number, y: number,
+  ax: number, ay: number,
+  bx: number, by: number
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared));
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  IndicatorCandle,
+  Incremental,
+  atr,
+  bollinger,
+  computeSeries,
+  ema,
+  macd,
+  rsi,
+  sma,
+  stochastic,
+  superTrend,
+  vwap,
+} from './indicators';
+
+const fromCloses = (closes: number[]): IndicatorCandle[] =>
+  closes.map((close, time) => ({ time, open: close, high: close, low: close, close }));
+
+const fromBars = (bars: [number, number, number][]): IndicatorCandle[] =>
+  bars.map(([high, low, close], time) => ({ time, open: close, high, low, close }));
+
+const rounded = (values: number[], digits = 2) => values.map(value => Number(value.toFixed(digits)));
+
+// Reference series from the StockCharts ChartSchool worked examples
+const MA_CLOSES = [
+  22.2734, 22.1940, 22.0847, 22.1741, 22.1840, 22.1344, 22.2337, 22.4323, 22.2436, 22.2933,
+  22.1542, 22.3926, 22.3816, 22.6109, 23.3558, 24.0519, 23.7530, 23.8324, 23.9516, 23.6338,
+  23.8225, 23.8722, 23.6537, 23.1870, 23.0976, 23.3260, 22.6805, 23.0976, 22.4025, 22.1725,
+];
+
+const RSI_CLOSES = [
+  44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826,
+  45.8931, 46.0328, 45.6140, 46.2820, 46.2820, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439,
+  46.2122, 46.2521, 45.7137, 46.4515, 45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672,
+  43.4205, 42.6628, 43.1314,
+];
+
+describe('moving averages', () => {
+  it('matches the reference 10-day SMA', () => {
+    const points = computeSeries(sma(10), fromCloses(MA_CLOSES));
+    expect(points[0].time).toBe(9);
+    expect(rounded(points.map(p => p.value))).toEqual([
+      22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21,
+      23.38, 23.53, 23.65, 23.71, 23.69, 23.61, 23.51, 23.43, 23.28, 23.13,
+    ]);
+  });
+
+  it('matches the reference 10-day EMA seeded with the SMA', () => {
+    const points = computeSeries(ema(10), fromCloses(MA_CLOSES));
+    expect(points[0].time).toBe(9);
+    expect(rounded(points.map(p => p.value))).toEqual([
+      22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34,
+      23.43, 23.51, 23.54, 23.47, 23.40, 23.39, 23.26, 23.23, 23.08, 22.92,
+    ]);
+  });
+});
+
+describe('rsi', () => {
+  it('matches the reference 14-day RSI with Wilder smoothing', () => {
+    const points = computeSeries(rsi(14), fromCloses(RSI_CLOSES));
+    expect(points[0].time).toBe(14);
+    expect(rounded(points.map(p => p.value))).toEqual([
+      70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38,
+      54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.30, 33.08, 37.77,
+    ]);
+  });
+
+  it('is 100 without losses and 50 on a flat series', () => {
+    expect(computeSeries(rsi(3), fromCloses([1, 2, 3, 4])).map(p => p.value)).toEqual([100]);
+    expect(computeSeries(rsi(3), fromCloses([5, 5, 5, 5])).map(p => p.value)).toEqual([50]);
+  });
+});
+
+describe('macd', () => {
+  // Textbook EMA, seeded with the simple average of the first `period` values
+  const referenceEma = (values: number[], period: number): (number | null)[] => {
+    const alpha = 2 / (period + 1);
+    let current: number | null = null;
+    return values.map((value, index) => {
+      if (index + 1 < period) return null;
+      current = current === null
+        ? values.slice(0, period).reduce((sum, v) => sum + v, 0) / period
+        : current + alpha * (value - current);
+      return current;
+    });
+  };
+
+  it('is the fast EMA less the slow EMA, with an EMA signal line', () => {
+    const fast = referenceEma(RSI_CLOSES, 5);
+    const slow = referenceEma(RSI_CLOSES, 10);
+    const lines = RSI_CLOSES.map((_, i) => slow[i] === null ? null : fast[i]! - slow[i]!);
+    const defined = lines.filter((line): line is number => line !== null);
+    const signals = referenceEma(defined, 4);
+
+    const points = computeSeries(macd(5, 10, 4), fromCloses(RSI_CLOSES));
+    expect(points).toHaveLength(signals.filter(s => s !== null).length);
+    points.forEach((point, index) => {
+      const offset = index + 3; // The signal line needs 4 MACD values
+      expect(point.value.macd).toBeCloseTo(defined[offset], 10);
+      expect(point.value.signal).toBeCloseTo(signals[offset]!, 10);
+      expect(point.value.histogram).toBeCloseTo(defined[offset] - signals[offset]!, 10);
+    });
+  });
+});
+
+describe('bollinger', () => {
+  it('uses the population standard deviation', () => {
+    const points = computeSeries(bollinger(8, 2), fromCloses([2, 4, 4, 4, 5, 5, 7, 9, 10]));
+    expect(points.map(p => p.time)).toEqual([7, 8]);
+    expect(points[0].value).toEqual({ upper: 9, middle: 5, lower: 1 });
+    expect(points[1].value.middle).toBe(6);
+    expect(points[1].value.upper).toBeCloseTo(6 + 2 * Math.sqrt(5), 10);
+    expect(points[1].value.lower).toBeCloseTo(6 - 2 * Math.sqrt(5), 10);
+  });
+});
+
+describe('atr', () => {
+  it('smooths the true range with Wilder averaging', () => {
+    const candles = fromBars([[10, 8, 9], [11, 9, 10.5], [12, 10, 11], [15, 11, 14], [14, 12, 12]]);
+    const points = computeSeries(atr(3), candles);
+    expect(points.map(p => p.time)).toEqual([2, 3, 4]);
+    expect(points[0].value).toBe(2);
+    expect(points[1].value).toBeCloseTo(8 / 3, 10);
+    expect(points[2].value).toBeCloseTo(22 / 9, 10);
+  });
+});
+
+describe('superTrend', () => {
+  it('tightens its bands and flips when the close crosses them', () => {
+    const candles = fromBars([[10, 8, 9], [11, 9, 10], [12, 10, 11], [9, 6, 6.5]]);
+    expect(computeSeries(superTrend(2, 1), candles).map(p => p.value)).toEqual([
+      { value: 8, direction: 'up', upper: 12, lower: 8 },
+      { value: 9, direction: 'up', upper: 12, lower: 9 },
+      { value: 11, direction: 'down', upper: 11, lower: 9 },
+    ]);
+  });
+});
+
+describe('stochastic', () => {
+  it('smooths %K and averages it into %D', () => {
+    const candles = fromBars([[10, 8, 9], [11, 9, 10], [12, 10, 11], [13, 11, 11], [12, 10, 10]]);
+    expect(computeSeries(stochastic(3, 2, 2), candles)).toEqual([
+      { time: 3, value: { k: 62.5, d: null } },
+      { time: 4, value: { k: 25, d: 43.75 } },
+    ]);
+  });
+});
+
+describe('vwap', () => {
+  const candles: IndicatorCandle[] = [
+    { time: 0, open: 10, high: 11, low: 9, close: 10, volume: 100 },
+    { time: 1, open: 12, high: 14, low: 10, close: 12, volume: 300 },
+    { time: 2, open: 20, high: 21, low: 19, close: 20, volume: 50 },
+  ];
+
+  it('weights the typical price by volume, with deviation bands', () => {
+    const points = computeSeries(vwap(() => 0), candles.slice(0, 2));
+    expect(points[0].value).toEqual({ vwap: 10, upper1: 10, lower1: 10, upper2: 10, lower2: 10 });
+    const deviation = Math.sqrt(300 / 400);
+    expect(points[1].value.vwap).toBeCloseTo(11.5, 10);
+    expect(points[1].value.upper1).toBeCloseTo(11.5 + deviation, 10);
+    expect(points[1].value.lower2).toBeCloseTo(11.5 - 2 * deviation, 10);
+  });
+
+  it('starts afresh at each anchor and has no value before the first', () => {
+    const points = computeSeries(vwap(time => (time >= 2 ? 2 : time >= 1 ? 1 : null)), candles);
+    expect(points.map(p => [p.time, p.value.vwap])).toEqual([[1, 12], [2, 20]]);
+  });
+});
+
+describe('incremental updates', () => {
+  // Deterministic random walk with volume
+  const walk: IndicatorCandle[] = [];
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  let price = 100;
+  for (let time = 0; time < 120; time++) {
+    const open = price;
+    const close = open + (random() - 0.5) * 4;
+    const high = Math.max(open, close) + random() * 2;
+    const low = Math.min(open, close) - random() * 2;
+    walk.push({ time, open, high, low, close, volume: Math.round(random() * 1000) });
+    price = close;
+  }
+
+  // Ticks of each forming bar: a first trade at the open, one at each extreme, then the close
+  const ticks = (candle: IndicatorCandle): IndicatorCandle[] => [
+    { ...candle, high: candle.open, low: candle.open, close: candle.open, volume: 1 },
+    { ...candle, low: candle.open, close: candle.high, volume: 2 },
+    { ...candle, close: candle.low, volume: 3 },
+    candle,
+  ];
+
+  const indicators: [string, () => Incremental<any, unknown>][] = [
+    ['sma', () => sma(10)],
+    ['ema', () => ema(10)],
+    ['rsi', () => rsi(14)],
+    ['macd', () => macd()],
+    ['bollinger', () => bollinger()],
+    ['atr', () => atr()],
+    ['superTrend', () => superTrend()],
+    ['stochastic', () => stochastic()],
+    ['vwap', () => vwap(time => Math.floor(time / 40) * 40)],
+  ];
+
+  it.each(indicators)('%s revised tick by tick equals a full recompute', (_, create) => {
+    const full = computeSeries(create(), walk);
+
+    const live = create();
+    const values: unknown[] = [];
+    walk.forEach(candle => {
+      let value: unknown = null;
+      ticks(candle).forEach(tick => {
+        value = live.update(tick);
+      });
+      if (value !== null) values.push(value);
+    });
+
+    expect(values).toEqual(full.map(point => point.value));
+  });
+
+  it('ignores bars older than the last one', () => {
+    const indicator = sma(2);
+    indicator.update(walk[0]);
+    const value = indicator.update(walk[1]);
+    expect(indicator.update({ ...walk[0], close: 1000 })).toBe(value);
+    expect(indicator.value()).toBe(value);
+  });
+});
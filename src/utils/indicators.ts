@@ -0,0 +1,388 @@
+import { TechnicalIndicators } from '../types';
+import { MARKET_OPEN, istDate, istTime } from './marketTime';
+
+// Incremental technical indicators. Each indicator is a pure step function
+// over an immutable state; Incremental keeps the state as of the previous bar
+// so the forming bar can be revised on every tick without replaying history.
+
+export interface IndicatorCandle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface IndicatorPoint<V> {
+  time: number;
+  value: V;
+}
+
+type Step<S, V> = (state: S, candle: IndicatorCandle) => [S, V | null];
+
+export class Incremental<S, V> {
+  private base: S;
+  private last: { time: number; state: S; value: V | null } | null = null;
+
+  constructor(private readonly initial: S, private readonly step: Step<S, V>) {
+    this.base = initial;
+  }
+
+  // Adds a bar, or revises the last one when `candle.time` matches it; bars older than the last are ignored
+  update(candle: IndicatorCandle): V | null {
+    if (this.last && candle.time < this.last.time) return this.last.value;
+    if (this.last && candle.time > this.last.time) {
+      this.base = this.last.state;
+    }
+    const [state, value] = this.step(this.base, candle);
+    this.last = { time: candle.time, state, value };
+    return value;
+  }
+
+  value(): V | null {
+    return this.last ? this.last.value : null;
+  }
+
+  reset(): void {
+    this.base = this.initial;
+    this.last = null;
+  }
+}
+
+// Runs an indicator over a whole series, dropping the warm-up bars without a value
+export function computeSeries<S, V>(indicator: Incremental<S, V>, candles: IndicatorCandle[]): IndicatorPoint<V>[] {
+  indicator.reset();
+  const points: IndicatorPoint<V>[] = [];
+  candles.forEach(candle => {
+    const value = indicator.update(candle);
+    if (value !== null) points.push({ time: candle.time, value });
+  });
+  return points;
+}
+
+// Building blocks shared by the indicators below
+
+interface WindowState {
+  values: number[];
+  sum: number;
+}
+
+const emptyWindow: WindowState = { values: [], sum: 0 };
+
+function pushWindow(state: WindowState, value: number, period: number): WindowState {
+  const values = [...state.values, value];
+  let sum = state.sum + value;
+  if (values.length > period) {
+    sum -= values.shift()!;
+  }
+  return { values, sum };
+}
+
+function windowMean(state: WindowState, period: number): number | null {
+  return state.values.length === period ? state.sum / period : null;
+}
+
+interface EmaState {
+  count: number;
+  seed: number; // Sum of the first `period` values
+  value: number | null;
+}
+
+const emptyEma: EmaState = { count: 0, seed: 0, value: null };
+
+// Seeded with the simple average of the first `period` values
+function stepEma(state: EmaState, value: number, period: number): EmaState {
+  const count = state.count + 1;
+  if (state.value !== null) {
+    const alpha = 2 / (period + 1);
+    return { count, seed: state.seed, value: state.value + alpha * (value - state.value) };
+  }
+  const seed = state.seed + value;
+  return { count, seed, value: count === period ? seed / period : null };
+}
+
+// Wilder's smoothing, as used by RSI and ATR
+function stepWilder(state: EmaState, value: number, period: number): EmaState {
+  const count = state.count + 1;
+  if (state.value !== null) {
+    return { count, seed: state.seed, value: (state.value * (period - 1) + value) / period };
+  }
+  const seed = state.seed + value;
+  return { count, seed, value: count === period ? seed / period : null };
+}
+
+function trueRange(candle: IndicatorCandle, previousClose: number | null): number {
+  if (previousClose === null) return candle.high - candle.low;
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - previousClose),
+    Math.abs(candle.low - previousClose)
+  );
+}
+
+// Indicators
+
+export function sma(period: number) {
+  return new Incremental<WindowState, number>(emptyWindow, (state, candle) => {
+    const next = pushWindow(state, candle.close, period);
+    return [next, windowMean(next, period)];
+  });
+}
+
+export function ema(period: number) {
+  return new Incremental<EmaState, number>(emptyEma, (state, candle) => {
+    const next = stepEma(state, candle.close, period);
+    return [next, next.value];
+  });
+}
+
+interface RsiState {
+  previousClose: number | null;
+  gain: EmaState;
+  loss: EmaState;
+}
+
+export function rsi(period: number = 14) {
+  const initial: RsiState = { previousClose: null, gain: emptyEma, loss: emptyEma };
+  return new Incremental<RsiState, number>(initial, (state, candle) => {
+    if (state.previousClose === null) {
+      return [{ ...state, previousClose: candle.close }, null];
+    }
+    const change = candle.close - state.previousClose;
+    const gain = stepWilder(state.gain, Math.max(change, 0), period);
+    const loss = stepWilder(state.loss, Math.max(-change, 0), period);
+    const next = { previousClose: candle.close, gain, loss };
+
+    if (gain.value === null || loss.value === null) return [next, null];
+    if (loss.value === 0) return [next, gain.value === 0 ? 50 : 100];
+    return [next, 100 - 100 / (1 + gain.value / loss.value)];
+  });
+}
+
+export type MacdValue = NonNullable<TechnicalIndicators['macd']>;
+
+interface MacdState {
+  fast: EmaState;
+  slow: EmaState;
+  signal: EmaState;
+}
+
+export function macd(fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+  const initial: MacdState = { fast: emptyEma, slow: emptyEma, signal: emptyEma };
+  return new Incremental<MacdState, MacdValue>(initial, (state, candle) => {
+    const fast = stepEma(state.fast, candle.close, fastPeriod);
+    const slow = stepEma(state.slow, candle.close, slowPeriod);
+    if (fast.value === null || slow.value === null) {
+      return [{ ...state, fast, slow }, null];
+    }
+
+    const line = fast.value - slow.value;
+    const signal = stepEma(state.signal, line, signalPeriod);
+    const next = { fast, slow, signal };
+    if (signal.value === null) return [next, null];
+    return [next, { macd: line, signal: signal.value, histogram: line - signal.value }];
+  });
+}
+
+export type BandsValue = NonNullable<TechnicalIndicators['bollingerBands']>;
+
+export function bollinger(period: number = 20, multiplier: number = 2) {
+  return new Incremental<WindowState, BandsValue>(emptyWindow, (state, candle) => {
+    const next = pushWindow(state, candle.close, period);
+    const middle = windowMean(next, period);
+    if (middle === null) return [next, null];
+
+    // Population standard deviation, as charting platforms use
+    const variance = next.values.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period;
+    const width = multiplier * Math.sqrt(variance);
+    return [next, { upper: middle + width, middle, lower: middle - width }];
+  });
+}
+
+interface AtrState {
+  previousClose: number | null;
+  range: EmaState;
+}
+
+export function atr(period: number = 14) {
+  const initial: AtrState = { previousClose: null, range: emptyEma };
+  return new Incremental<AtrState, number>(initial, (state, candle) => {
+    const range = stepWilder(state.range, trueRange(candle, state.previousClose), period);
+    return [{ previousClose: candle.close, range }, range.value];
+  });
+}
+
+export type SuperTrendValue = NonNullable<TechnicalIndicators['superTrend']>;
+
+interface SuperTrendState {
+  atr: AtrState;
+  previousClose: number | null;
+  previous: SuperTrendValue | null;
+}
+
+export function superTrend(period: number = 10, multiplier: number = 3) {
+  const initial: SuperTrendState = { atr: { previousClose: null, range: emptyEma }, previousClose: null, previous: null };
+  return new Incremental<SuperTrendState, SuperTrendValue>(initial, (state, candle) => {
+    const range = stepWilder(state.atr.range, trueRange(candle, state.atr.previousClose), period);
+    const atrState = { previousClose: candle.close, range };
+    if (range.value === null) {
+      return [{ atr: atrState, previousClose: candle.close, previous: null }, null];
+    }
+
+    const median = (candle.high + candle.low) / 2;
+    let upper = median + multiplier * range.value;
+    let lower = median - multiplier * range.value;
+    const { previous, previousClose } = state;
+
+    // Bands only tighten while price stays inside them
+    if (previous && previousClose !== null) {
+      if (upper > previous.upper && previousClose <= previous.upper) upper = previous.upper;
+      if (lower < previous.lower && previousClose >= previous.lower) lower = previous.lower;
+    }
+
+    let direction: SuperTrendValue['direction'] = previous ? previous.direction : 'up';
+    if (direction === 'up' && candle.close < lower) direction = 'down';
+    else if (direction === 'down' && candle.close > upper) direction = 'up';
+
+    const value: SuperTrendValue = { value: direction === 'up' ? lower : upper, direction, upper, lower };
+    return [{ atr: atrState, previousClose: candle.close, previous: value }, value];
+  });
+}
+
+export type StochasticValue = NonNullable<TechnicalIndicators['stochastic']>;
+
+interface StochasticState {
+  highs: number[];
+  lows: number[];
+  rawK: WindowState;
+  k: WindowState;
+}
+
+// Slow stochastic: %K is the raw value smoothed over `smoothing` bars, %D its moving average
+export function stochastic(period: number = 14, smoothing: number = 3, signalPeriod: number = 3) {
+  const initial: StochasticState = { highs: [], lows: [], rawK: emptyWindow, k: emptyWindow };
+  return new Incremental<StochasticState, StochasticValue>(initial, (state, candle) => {
+    const highs = [...state.highs, candle.high].slice(-period);
+    const lows = [...state.lows, candle.low].slice(-period);
+    if (highs.length < period) {
+      return [{ ...state, highs, lows }, null];
+    }
+
+    const highest = Math.max(...highs);
+    const lowest = Math.min(...lows);
+    const raw = highest === lowest ? 50 : ((candle.close - lowest) / (highest - lowest)) * 100;
+    const rawK = pushWindow(state.rawK, raw, smoothing);
+    const k = windowMean(rawK, smoothing);
+    if (k === null) {
+      return [{ highs, lows, rawK, k: state.k }, null];
+    }
+
+    const kWindow = pushWindow(state.k, k, signalPeriod);
+    return [{ highs, lows, rawK, k: kWindow }, { k, d: windowMean(kWindow, signalPeriod) }];
+  });
+}
+
+export interface VwapValue {
+  vwap: number;
+  upper1: number;
+  lower1: number;
+  upper2: number;
+  lower2: number;
+}
+
+// Start of the accumulation period containing `time`, or null before the first one
+export type VwapAnchor = (time: number) => number | null;
+
+// Anchors at HH:MM IST every day, 09:15 by default so each trading day starts afresh
+export function dailyAnchor(startTime: string = MARKET_OPEN): VwapAnchor {
+  return (time) => {
+    const start = istTime(istDate(time), startTime);
+    return time >= start ? start : null;
+  };
+}
+
+interface VwapState {
+  anchor: number | null;
+  volume: number;
+  mean: number;
+  squares: number; // Volume-weighted sum of squared deviations from the mean
+}
+
+const emptyVwap: VwapState = { anchor: null, volume: 0, mean: 0, squares: 0 };
+
+// Cumulative VWAP of the typical price since the anchor, with bands at one
+// and two volume-weighted standard deviations
+export function vwap(anchor: VwapAnchor = dailyAnchor()) {
+  return new Incremental<VwapState, VwapValue>(emptyVwap, (state, candle) => {
+    const start = anchor(candle.time);
+    if (start === null) return [emptyVwap, null];
+
+    const base = start === state.anchor ? state : { ...emptyVwap, anchor: start };
+    const price = (candle.high + candle.low + candle.close) / 3;
+    const weight = candle.volume ?? 0;
+    const volume = base.volume + weight;
+    if (volume === 0) return [base, null];
+
+    // Weighted Welford update, which stays exact where sums of squares would cancel
+    const mean = base.mean + (weight / volume) * (price - base.mean);
+    const squares = base.squares + weight * (price - base.mean) * (price - mean);
+    const deviation = Math.sqrt(Math.max(0, squares / volume));
+    return [{ anchor: start, volume, mean, squares }, {
+      vwap: mean,
+      upper1: mean + deviation,
+      lower1: mean - deviation,
+      upper2: mean + 2 * deviation,
+      lower2: mean - 2 * deviation,
+    }];
+  });
+}
+
+// The indicator set behind TechnicalIndicators, kept current bar by bar
+export class IndicatorSet {
+  private readonly rsi = rsi(14);
+  private readonly macd = macd();
+  private readonly sma20 = sma(20);
+  private readonly sma50 = sma(50);
+  private readonly sma200 = sma(200);
+  private readonly bollinger = bollinger();
+  private readonly atr = atr();
+  private readonly superTrend = superTrend();
+  private readonly stochastic = stochastic();
+  private volume = 0;
+
+  reset(candles: IndicatorCandle[] = []): void {
+    this.all().forEach(indicator => indicator.reset());
+    this.volume = 0;
+    candles.forEach(candle => this.update(candle));
+  }
+
+  update(candle: IndicatorCandle): void {
+    this.all().forEach(indicator => indicator.update(candle));
+    this.volume = candle.volume ?? 0;
+  }
+
+  snapshot(): TechnicalIndicators {
+    return {
+      rsi: this.rsi.value(),
+      macd: this.macd.value(),
+      sma: {
+        sma20: this.sma20.value(),
+        sma50: this.sma50.value(),
+        sma200: this.sma200.value(),
+      },
+      bollingerBands: this.bollinger.value(),
+      atr: this.atr.value(),
+      superTrend: this.superTrend.value(),
+      stochastic: this.stochastic.value(),
+      volume: this.volume,
+    };
+  }
+
+  private all(): Incremental<any, unknown>[] {
+    return [
+      this.rsi, this.macd, this.sma20, this.sma50, this.sma200,
+      this.bollinger, this.atr, this.superTrend, this.stochastic,
+    ];
+  }
+}
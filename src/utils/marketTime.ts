@@ -0,0 +1,91 @@
+// Chart times are UTC epoch seconds; trading days, sessions and bar
+// boundaries follow the IST calendar (UTC+05:30, no daylight saving).
+
+export const IST_OFFSET_SECONDS = 5.5 * 3600;
+export const DAY_SECONDS = 24 * 3600;
+
+export const MARKET_OPEN = '09:15';
+export const MARKET_CLOSE = '15:30';
+
+// YYYY-MM-DD of the IST calendar day containing the timestamp
+export function istDate(epochSeconds: number): string {
+  return new Date((epochSeconds + IST_OFFSET_SECONDS) * 1000).toISOString().slice(0, 10);
+}
+
+// Epoch seconds of HH:MM IST on the given date
+export function istTime(date: string, time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return Date.parse(`${date}T00:00:00Z`) / 1000 + hours * 3600 + minutes * 60 - IST_OFFSET_SECONDS;
+}
+
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_SECONDS * 1000).toISOString().slice(0, 10);
+}
+
+// Monday = 0 … Sunday = 6
+export function weekdayIndex(date: string): number {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+// NSE trading holidays from the exchange circulars; add the next year's list each December
+export const MARKET_HOLIDAYS: ReadonlySet<string> = new Set([
+  '2025-02-26', '2025-03-14', '2025-03-31', '2025-04-10', '2025-04-14', '2025-04-18', '2025-05-01',
+  '2025-08-15', '2025-08-27', '2025-10-02', '2025-10-21', '2025-10-22', '2025-11-05', '2025-12-25',
+  '2026-01-26', '2026-03-03', '2026-03-26', '2026-03-31', '2026-04-03', '2026-04-14', '2026-05-01',
+  '2026-05-28', '2026-06-26', '2026-09-14', '2026-10-02', '2026-10-20', '2026-11-10', '2026-11-24',
+  '2026-12-25',
+]);
+
+export function isTradingDay(date: string): boolean {
+  return weekdayIndex(date) < 5 && !MARKET_HOLIDAYS.has(date);
+}
+
+export function previousTradingDay(date: string): string {
+  let candidate = shiftDate(date, -1);
+  while (!isTradingDay(candidate)) candidate = shiftDate(candidate, -1);
+  return candidate;
+}
+
+export function nextTradingDay(date: string): string {
+  let candidate = shiftDate(date, 1);
+  while (!isTradingDay(candidate)) candidate = shiftDate(candidate, 1);
+  return candidate;
+}
+
+// The trading day at or before the given date
+export function latestTradingDay(date: string): string {
+  return isTradingDay(date) ? date : previousTradingDay(date);
+}
+
+// The IST trading day a live chart shows: today, or the last session on weekends and holidays
+export function currentTradingDay(): string {
+  return latestTradingDay(istDate(Date.now() / 1000));
+}
+
+// True between the 09:15 open and the 15:30 close of a trading day
+export function isWithinSession(epochSeconds: number): boolean {
+  const date = istDate(epochSeconds);
+  return isTradingDay(date)
+    && epochSeconds >= istTime(date, MARKET_OPEN)
+    && epochSeconds < istTime(date, MARKET_CLOSE);
+}
+
+// HH:MM (or HH:MM:SS) in IST, whatever the browser's time zone
+export function formatIstTime(epochSeconds: number, includeSeconds: boolean = false): string {
+  return new Date(epochSeconds * 1000).toLocaleTimeString('en-IN', {
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(includeSeconds ? { second: '2-digit' as const } : {}),
+    hour12: false,
+    timeZone: 'Asia/Kolkata',
+  });
+}
+
+export function formatIstDate(epochSeconds: number): string {
+  return new Date(epochSeconds * 1000).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'Asia/Kolkata',
+  });
+}
@@ -0,0 +1,112 @@
+import { Incremental, IndicatorCandle, atr, macd, rsi, stochastic } from './indicators';
+
+// Sub-panes stacked under the price chart. Each pane maps every bar to one
+// value per series; bars without a value (indicator warm-up) are drawn as
+// whitespace so the panes keep the same bar indexes as the price chart.
+
+export type PaneId = 'volume' | 'rsi' | 'macd' | 'stochastic' | 'atr';
+
+export interface PaneSeries {
+  key: string;
+  type: 'line' | 'histogram';
+  color: string;
+}
+
+export interface PaneValue {
+  value: number;
+  color?: string;
+}
+
+export type PaneValues = Partial<Record<string, PaneValue>>;
+
+export interface PaneIndicator {
+  update(candle: IndicatorCandle): PaneValues | null;
+  reset(): void;
+}
+
+export interface PaneDefinition {
+  id: PaneId;
+  label: string;
+  series: PaneSeries[];
+  levels?: number[]; // Guide lines, e.g. RSI overbought and oversold
+  volumeFormat?: boolean;
+  create: () => PaneIndicator;
+}
+
+// Price scales share a width so the time axes of stacked charts line up
+export const PRICE_SCALE_WIDTH = 72;
+
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#ef4444';
+
+function mapIndicator<S, V>(indicator: Incremental<S, V>, map: (value: V, candle: IndicatorCandle) => PaneValues): PaneIndicator {
+  return {
+    update: (candle) => {
+      const value = indicator.update(candle);
+      return value === null ? null : map(value, candle);
+    },
+    reset: () => indicator.reset(),
+  };
+}
+
+export const PANES: Record<PaneId, PaneDefinition> = {
+  volume: {
+    id: 'volume',
+    label: 'Volume',
+    series: [{ key: 'volume', type: 'histogram', color: UP_COLOR }],
+    volumeFormat: true,
+    create: () => ({
+      update: (candle) => ({
+        volume: { value: candle.volume ?? 0, color: candle.close >= candle.open ? UP_COLOR : DOWN_COLOR },
+      }),
+      reset: () => undefined,
+    }),
+  },
+  rsi: {
+    id: 'rsi',
+    label: 'RSI 14',
+    series: [{ key: 'rsi', type: 'line', color: '#8b5cf6' }],
+    levels: [30, 70],
+    create: () => mapIndicator(rsi(14), (value) => ({ rsi: { value } })),
+  },
+  macd: {
+    id: 'macd',
+    label: 'MACD 12 26 9',
+    series: [
+      { key: 'histogram', type: 'histogram', color: UP_COLOR },
+      { key: 'macd', type: 'line', color: '#3b82f6' },
+      { key: 'signal', type: 'line', color: '#f59e0b' },
+    ],
+    levels: [0],
+    create: () => mapIndicator(macd(), (value) => ({
+      histogram: { value: value.histogram, color: value.histogram >= 0 ? UP_COLOR : DOWN_COLOR },
+      macd: { value: value.macd },
+      signal: { value: value.signal },
+    })),
+  },
+  stochastic: {
+    id: 'stochastic',
+    label: 'Stochastic 14 3 3',
+    series: [
+      { key: 'k', type: 'line', color: '#3b82f6' },
+      { key: 'd', type: 'line', color: '#f59e0b' },
+    ],
+    levels: [20, 80],
+    create: () => mapIndicator(stochastic(), (value) => ({
+      k: { value: value.k },
+      ...(value.d === null ? {} : { d: { value: value.d } }),
+    })),
+  },
+  atr: {
+    id: 'atr',
+    label: 'ATR 14',
+    series: [{ key: 'atr', type: 'line', color: '#06b6d4' }],
+    create: () => mapIndicator(atr(14), (value) => ({ atr: { value } })),
+  },
+};
+
+export const PANE_IDS = Object.keys(PANES) as PaneId[];
+
+export function isPaneId(value: string): value is PaneId {
+  return (PANE_IDS as string[]).includes(value);
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { ChartCandle, TradingSession } from '../types';
+import { buildProfile, sessionProfile } from './profile';
+import { istTime } from './marketTime';
+
+const candle = (time: number, low: number, high: number, volume: number): ChartCandle =>
+  ({ time, open: low, high, low, close: high, volume, symbol: 'NIFTY', exchange: 'NSE' });
+
+// Trades at single prices between 100 and 130, so each lands in one row of size 1
+const trades = (volumes: Record<number, number>): ChartCandle[] =>
+  Object.entries(volumes).map(([price, volume], i) => candle(i * 60, Number(price), Number(price), volume));
+
+describe('buildProfile', () => {
+  it('grows the value area from the POC towards the busier side', () => {
+    const profile = buildProfile(trades({ 100: 5, 113: 10, 114: 50, 115: 100, 116: 30, 130: 5 }), 'volume')!;
+    expect(profile.rows).toHaveLength(31);
+    expect(profile.rows[0]).toMatchObject({ low: 100, high: 101 });
+    expect(profile.poc).toBe(115.5);
+    // 100 + 50 reaches 70% of the 200 traded
+    expect(profile.val).toBe(114);
+    expect(profile.vah).toBe(116);
+  });
+
+  it('takes the upper neighbour when both sides are equal', () => {
+    const profile = buildProfile(trades({ 100: 1, 114: 20, 115: 50, 116: 20, 130: 1 }), 'volume')!;
+    // 50 + 20 of 92 reaches 70%, so only the row above joins
+    expect([profile.val, profile.vah]).toEqual([115, 117]);
+  });
+
+  it('breaks POC ties towards the middle of the range', () => {
+    const profile = buildProfile(trades({ 100: 10, 114: 10, 130: 10 }), 'volume')!;
+    expect(profile.poc).toBe(114.5);
+  });
+
+  it('spreads a candle\'s volume evenly over the rows it covers', () => {
+    const profile = buildProfile([candle(0, 100, 130, 0), candle(60, 110, 112.5, 30)], 'volume')!;
+    expect(profile.rows.slice(10, 13).map(row => row.value)).toEqual([10, 10, 10]);
+    expect(profile.rows[9].value).toBe(0);
+    expect(profile.rows[13].value).toBe(0);
+  });
+
+  it('is null without candles or without volume', () => {
+    expect(buildProfile([], 'volume')).toBeNull();
+    expect(buildProfile([candle(0, 100, 101, 0)], 'volume')).toBeNull();
+  });
+
+  it('letters each 30 minute period in the rows it traded in', () => {
+    const candles = [
+      candle(0, 100, 130, 0),
+      candle(600, 110, 111, 0),
+      candle(1800, 111, 112, 0),
+      candle(3600, 111, 111, 0),
+    ];
+    const profile = buildProfile(candles, 'tpo')!;
+    expect(profile.rows[10].letters).toBe('A');
+    expect(profile.rows[11]).toMatchObject({ letters: 'ABC', value: 3 });
+    expect(profile.rows[12].letters).toBe('AB');
+    expect(profile.poc).toBe(111.5);
+  });
+});
+
+describe('sessionProfile', () => {
+  const session: TradingSession = {
+    name: 'Opening',
+    start_time: '09:15',
+    end_time: '10:15',
+    is_active: false,
+    is_completed: true,
+  };
+  const open = istTime('2024-01-02', '09:15');
+
+  it('falls back to TPOs for symbols without volume and ignores candles outside the session', () => {
+    const candles = [
+      candle(open - 60, 50, 200, 0),
+      candle(open, 100, 130, 0),
+      candle(open + 60, 114, 116, 0),
+      candle(open + 3600, 50, 200, 0),
+    ];
+    const profile = sessionProfile(candles, session, '2024-01-02')!;
+    expect(profile.kind).toBe('tpo');
+    expect(profile.rows[0].low).toBe(100);
+    expect(profile.rows[profile.rows.length - 1].high).toBe(131);
+  });
+});
@@ -0,0 +1,124 @@
+import { ChartCandle, TradingSession } from '../types';
+import { istTime } from './marketTime';
+
+// Volume-by-price and TPO (time price opportunity) profiles of a session. Each
+// candle spreads its volume evenly over the rows its range covers; a TPO
+// marks every row a 30 minute period traded in, lettered A, B, C... in order.
+
+export type ProfileKind = 'volume' | 'tpo';
+
+export interface ProfileRow {
+  low: number;
+  high: number;
+  value: number; // Volume traded in the row, or its TPO count
+  letters: string; // TPO periods that traded in the row
+}
+
+export interface Profile {
+  kind: ProfileKind;
+  rows: ProfileRow[]; // Lowest first
+  poc: number; // Point of control, the middle of the busiest row
+  vah: number; // Value area high
+  val: number; // Value area low
+}
+
+const PROFILE_ROWS = 30;
+const MIN_ROW_SIZE = 0.05;
+const VALUE_AREA_SHARE = 0.7;
+const TPO_PERIOD_SECONDS = 30 * 60;
+const TPO_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// A round row height giving about PROFILE_ROWS rows over the range
+function rowSize(low: number, high: number): number {
+  const raw = (high - low) / PROFILE_ROWS;
+  if (raw <= MIN_ROW_SIZE) return MIN_ROW_SIZE;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 2.5, 5, 10].find(multiple => multiple * magnitude >= raw) ?? 10;
+  return step * magnitude;
+}
+
+// Candles of one session on an IST trading day
+export function sessionCandles(candles: ChartCandle[], session: TradingSession, date: string): ChartCandle[] {
+  const start = istTime(date, session.start_time);
+  const end = istTime(date, session.end_time);
+  return candles.filter(candle => candle.time >= start && candle.time < end);
+}
+
+// Null without candles, or for a volume profile of a symbol that reports no volume
+export function buildProfile(candles: ChartCandle[], kind: ProfileKind): Profile | null {
+  if (!candles.length) return null;
+
+  const low = Math.min(...candles.map(candle => candle.low));
+  const high = Math.max(...candles.map(candle => candle.high));
+  const size = rowSize(low, high);
+  const base = Math.floor(low / size) * size;
+  const count = Math.floor((high - base) / size) + 1;
+  const rows: ProfileRow[] = Array.from({ length: count }, (_, i) => ({
+    low: round2(base + i * size),
+    high: round2(base + (i + 1) * size),
+    value: 0,
+    letters: '',
+  }));
+  const rowOf = (price: number) => Math.min(count - 1, Math.max(0, Math.floor((price - base) / size + 1e-9)));
+
+  if (kind === 'volume') {
+    candles.forEach(candle => {
+      const from = rowOf(candle.low);
+      const to = rowOf(candle.high);
+      for (let i = from; i <= to; i++) rows[i].value += candle.volume / (to - from + 1);
+    });
+  } else {
+    const periods = new Map<number, { low: number; high: number }>();
+    candles.forEach(candle => {
+      const period = Math.floor((candle.time - candles[0].time) / TPO_PERIOD_SECONDS);
+      const range = periods.get(period);
+      periods.set(period, range
+        ? { low: Math.min(range.low, candle.low), high: Math.max(range.high, candle.high) }
+        : { low: candle.low, high: candle.high });
+    });
+    periods.forEach((range, period) => {
+      for (let i = rowOf(range.low); i <= rowOf(range.high); i++) {
+        rows[i].value += 1;
+        rows[i].letters += TPO_LETTERS[period % TPO_LETTERS.length];
+      }
+    });
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.value, 0);
+  if (!total) return null;
+
+  // Ties go to the row nearest the middle of the range
+  let poc = 0;
+  rows.forEach((row, i) => {
+    if (row.value > rows[poc].value
+      || (row.value === rows[poc].value && Math.abs(i - (count - 1) / 2) < Math.abs(poc - (count - 1) / 2))) {
+      poc = i;
+    }
+  });
+
+  // Grow the value area from the POC towards the busier neighbour
+  let lowest = poc;
+  let highest = poc;
+  let inside = rows[poc].value;
+  while (inside < total * VALUE_AREA_SHARE && (lowest > 0 || highest < count - 1)) {
+    const below = lowest > 0 ? rows[lowest - 1].value : -1;
+    const above = highest < count - 1 ? rows[highest + 1].value : -1;
+    inside += above >= below ? rows[++highest].value : rows[--lowest].value;
+  }
+
+  return {
+    kind,
+    rows,
+    poc: round2((rows[poc].low + rows[poc].high) / 2),
+    vah: rows[highest].high,
+    val: rows[lowest].low,
+  };
+}
+
+// Volume profile, or the TPO profile where the symbol reports no volume (indices)
+export function sessionProfile(candles: ChartCandle[], session: TradingSession, date: string): Profile | null {
+  const inSession = sessionCandles(candles, session, date);
+  return buildProfile(inSession, 'volume') ?? buildProfile(inSession, 'tpo');
+}
@@ -0,0 +1,234 @@
+// Minimal runtime schema toolkit used to validate backend responses at the
+// API boundary. Schemas are composable, collect every issue they find and
+// infer their TypeScript output type.
+
+export interface ValidationIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export class SchemaValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], message?: string) {
+    super(message || `Validation failed: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+interface ParseContext {
+  path: Array<string | number>;
+  issues: ValidationIssue[];
+}
+
+type Check<T> = (value: unknown, ctx: ParseContext) => T;
+
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+export class Schema<T> {
+  constructor(
+    private readonly check: Check<T>,
+    readonly description: string
+  ) {}
+
+  parse(value: unknown): T {
+    const result = this.safeParse(value);
+    if (!result.success) {
+      throw new SchemaValidationError(result.issues);
+    }
+    return result.data;
+  }
+
+  safeParse(value: unknown): SafeParseResult<T> {
+    const ctx: ParseContext = { path: [], issues: [] };
+    const data = this.run(value, ctx);
+    return ctx.issues.length ? { success: false, issues: ctx.issues } : { success: true, data };
+  }
+
+  /** Internal entry point used by composite schemas to share the parse context. */
+  run(value: unknown, ctx: ParseContext): T {
+    return this.check(value, ctx);
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>(
+      (value, ctx) => (value === undefined ? undefined : this.run(value, ctx)),
+      `${this.description} | undefined`
+    );
+  }
+
+  nullable(): Schema<T | null> {
+    return new Schema<T | null>(
+      (value, ctx) => (value === null ? null : this.run(value, ctx)),
+      `${this.description} | null`
+    );
+  }
+
+  /** Accepts null or undefined and substitutes the fallback value. */
+  default(fallback: T): Schema<T> {
+    return new Schema<T>(
+      (value, ctx) => (value === undefined || value === null ? fallback : this.run(value, ctx)),
+      this.description
+    );
+  }
+
+  transform<U>(fn: (value: T) => U): Schema<U> {
+    return new Schema<U>(
+      (value, ctx) => {
+        const issueCount = ctx.issues.length;
+        const parsed = this.run(value, ctx);
+        // Skip the transform when the input was invalid; the result is discarded anyway
+        return ctx.issues.length > issueCount ? (parsed as unknown as U) : fn(parsed);
+      },
+      this.description
+    );
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+export type ObjectOutput<S extends Shape> = Simplify<
+  { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return `${issue.path || '<root>'}: expected ${issue.expected}, received ${issue.received}`;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function report(ctx: ParseContext, expected: string, value: unknown): void {
+  ctx.issues.push({ path: formatPath(ctx.path), expected, received: describeValue(value) });
+}
+
+function primitive<T>(expected: string, guard: (value: unknown) => value is T): Schema<T> {
+  return new Schema<T>((value, ctx) => {
+    if (!guard(value)) report(ctx, expected, value);
+    return value as T;
+  }, expected);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const s = {
+  string: () => primitive('string', (v): v is string => typeof v === 'string'),
+
+  number: () =>
+    primitive('number', (v): v is number => typeof v === 'number' && !Number.isNaN(v)),
+
+  /** Accepts numbers and numeric strings (some backend fields are serialised as strings). */
+  numeric: () =>
+    new Schema<number>((value, ctx) => {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+        report(ctx, 'number', value);
+      }
+      return parsed as number;
+    }, 'number'),
+
+  boolean: () => primitive('boolean', (v): v is boolean => typeof v === 'boolean'),
+
+  unknown: () => new Schema<unknown>((value) => value, 'unknown'),
+
+  literal: <T extends string | number | boolean>(expected: T) =>
+    primitive<T>(JSON.stringify(expected), (v): v is T => v === expected),
+
+  enum: <T extends string>(values: readonly T[]) =>
+    primitive<T>(values.map((v) => `'${v}'`).join(' | '), (v): v is T =>
+      typeof v === 'string' && (values as readonly string[]).includes(v)
+    ),
+
+  array: <T>(item: Schema<T>) =>
+    new Schema<T[]>((value, ctx) => {
+      if (!Array.isArray(value)) {
+        report(ctx, `${item.description}[]`, value);
+        return [];
+      }
+      return value.map((entry, index) => {
+        ctx.path.push(index);
+        const parsed = item.run(entry, ctx);
+        ctx.path.pop();
+        return parsed;
+      });
+    }, `${item.description}[]`),
+
+  /**
+   * Validates the declared keys and passes unknown keys through untouched, so
+   * additive backend changes never break the client.
+   */
+  object: <S extends Shape>(shape: S) =>
+    new Schema<ObjectOutput<S>>((value, ctx) => {
+      if (!isPlainObject(value)) {
+        report(ctx, 'object', value);
+        return value as ObjectOutput<S>;
+      }
+      const output: Record<string, unknown> = { ...value };
+      Object.keys(shape).forEach((key) => {
+        ctx.path.push(key);
+        const parsed = shape[key].run(value[key], ctx);
+        ctx.path.pop();
+        if (parsed !== undefined || key in value) {
+          output[key] = parsed;
+        }
+      });
+      return output as ObjectOutput<S>;
+    }, 'object'),
+
+  record: <T>(entry: Schema<T>) =>
+    new Schema<Record<string, T>>((value, ctx) => {
+      if (!isPlainObject(value)) {
+        report(ctx, `record<${entry.description}>`, value);
+        return {};
+      }
+      const output: Record<string, T> = {};
+      Object.keys(value).forEach((key) => {
+        ctx.path.push(key);
+        output[key] = entry.run(value[key], ctx);
+        ctx.path.pop();
+      });
+      return output;
+    }, `record<${entry.description}>`),
+
+  /** Tries each option in order and keeps the first that validates cleanly. */
+  union: <T extends Schema<any>[]>(...options: T) =>
+    new Schema<Infer<T[number]>>((value, ctx) => {
+      for (const option of options) {
+        const attempt: ParseContext = { path: [...ctx.path], issues: [] };
+        const parsed = option.run(value, attempt);
+        if (!attempt.issues.length) return parsed;
+      }
+      report(ctx, options.map((o) => o.description).join(' | '), value);
+      return value as Infer<T[number]>;
+    }, options.map((o) => o.description).join(' | ')),
+
+  /** Normalises the raw value before validating it, e.g. to map legacy field names. */
+  preprocess: <T>(fn: (value: unknown) => unknown, schema: Schema<T>) =>
+    new Schema<T>((value, ctx) => schema.run(fn(value), ctx), schema.description),
+};
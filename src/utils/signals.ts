@@ -0,0 +1,51 @@
+import { BreakoutSignal, ChartCandle, ChartSignal } from '../types';
+
+// NIFTY charts show every breakout; futures charts only their own
+export function toChartSignal(signal: BreakoutSignal, symbol: string): ChartSignal | null {
+  const isIndex = symbol === 'NIFTY';
+  if (!isIndex && signal.future_symbol !== symbol) return null;
+
+  // Trade levels are in future prices; the index chart moves them by the basis at the signal
+  const basis = isIndex ? signal.nifty_price - signal.future_price : 0;
+  const level = (price?: number) => price === undefined ? undefined : Math.round((price + basis) * 100) / 100;
+
+  return {
+    id: signal.id,
+    time: Date.parse(signal.timestamp) / 1000,
+    type: signal.signal_type,
+    price: isIndex ? signal.nifty_price : signal.future_price,
+    confidence: signal.confidence,
+    session_name: signal.session_name,
+    reason: signal.reason,
+    breakout_type: signal.signal_type === 'BUY_CALL' ? 'HIGH' : 'LOW',
+    vwap: isIndex ? signal.vwap_nifty : signal.vwap_future,
+    session_high: isIndex ? signal.session_high : signal.future_session_high,
+    session_low: isIndex ? signal.session_low : signal.future_session_low,
+    status: signal.status,
+    entry_price: level(signal.entry_price),
+    stop_loss: level(signal.stop_loss),
+    target_1: level(signal.target_1),
+    target_2: level(signal.target_2),
+    breakout_summary: signal.breakout_summary,
+  };
+}
+
+// Reward per unit of risk from entry to `target`; null without a stop to measure risk against
+export function riskReward(entry: number, stop: number | undefined, target: number | undefined): number | null {
+  if (stop === undefined || target === undefined || stop === entry) return null;
+  return Math.abs(target - entry) / Math.abs(entry - stop);
+}
+
+// Status as of the last candle given, for replays that stop before the signal
+// resolved: completed once target 1 trades, expired once the stop does
+export function signalStatusAt(signal: ChartSignal, candles: ChartCandle[]): ChartSignal['status'] {
+  const { stop_loss: stop, target_1: target } = signal;
+  const long = signal.type === 'BUY_CALL';
+
+  for (const candle of candles) {
+    if (candle.time <= signal.time) continue;
+    if (target !== undefined && (long ? candle.high >= target : candle.low <= target)) return 'COMPLETED';
+    if (stop !== undefined && (long ? candle.low <= stop : candle.high >= stop)) return 'EXPIRED';
+  }
+  return 'ACTIVE';
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { Workspace } from '../types';
+import { decodeWorkspace, encodeWorkspace, fitCells } from './workspaces';
+
+const workspace: Workspace = {
+  id: 'ws1',
+  name: 'Opening range',
+  layout: '1x2',
+  cells: [
+    { symbol: 'NIFTY', timeframe: '1m', linkGroup: 'A' },
+    { symbol: 'BANKNIFTY', timeframe: '5m', linkGroup: null },
+  ],
+  updatedAt: 1,
+};
+
+describe('encodeWorkspace', () => {
+  it('writes cells as symbol:timeframe:group', () => {
+    expect(encodeWorkspace(workspace).toString())
+      .toBe('name=Opening+range&layout=1x2&cells=NIFTY%3A1m%3AA%2CBANKNIFTY%3A5m');
+  });
+});
+
+describe('decodeWorkspace', () => {
+  it('opens an encoded workspace under a fresh id', () => {
+    const decoded = decodeWorkspace(encodeWorkspace(workspace))!;
+    expect(decoded).toMatchObject({ name: workspace.name, layout: workspace.layout, cells: workspace.cells });
+    expect(decoded.id).not.toBe(workspace.id);
+  });
+
+  it('drops cells with unknown timeframes and pads the grid', () => {
+    const decoded = decodeWorkspace(new URLSearchParams('layout=2x2&cells=nifty:1m:Z,SENSEX:2m,:5m'))!;
+    expect(decoded.name).toBe('Shared workspace');
+    expect(decoded.cells[0]).toEqual({ symbol: 'NIFTY', timeframe: '1m', linkGroup: null });
+    expect(decoded.cells.slice(1)).toEqual(fitCells([], '2x2').slice(1));
+  });
+
+  it('is null without a known layout or cells', () => {
+    expect(decodeWorkspace(new URLSearchParams(''))).toBeNull();
+    expect(decodeWorkspace(new URLSearchParams('layout=4x4&cells=NIFTY:1m'))).toBeNull();
+    expect(decodeWorkspace(new URLSearchParams('layout=toString&cells=NIFTY:1m'))).toBeNull();
+    expect(decodeWorkspace(new URLSearchParams('layout=1x2'))).toBeNull();
+  });
+});
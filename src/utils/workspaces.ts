@@ -0,0 +1,71 @@
+import { ChartLinkGroup, Workspace, WorkspaceCell, WorkspaceLayout } from '../types';
+import { isTimeframe } from './candles';
+import { generateId } from './index';
+
+export const WORKSPACE_LAYOUTS: Record<WorkspaceLayout, { rows: number; columns: number; label: string }> = {
+  '1x2': { rows: 1, columns: 2, label: '1×2' },
+  '2x2': { rows: 2, columns: 2, label: '2×2' },
+  '3x3': { rows: 3, columns: 3, label: '3×3' },
+};
+
+const LINK_GROUP_IDS: ChartLinkGroup[] = ['A', 'B', 'C'];
+
+// Symbols filling the cells of a new or enlarged grid, in order
+const DEFAULT_SYMBOLS = ['NIFTY', 'BANKNIFTY', 'FINNIFTY', 'MIDCPNIFTY', 'SENSEX', 'BANKEX'];
+
+// Own keys only, so a link naming a prototype key such as `toString` is refused
+const isLayout = (value: string): value is WorkspaceLayout =>
+  Object.prototype.hasOwnProperty.call(WORKSPACE_LAYOUTS, value);
+
+export const cellCount = (layout: WorkspaceLayout) =>
+  WORKSPACE_LAYOUTS[layout].rows * WORKSPACE_LAYOUTS[layout].columns;
+
+// Trims or pads the cells to fill the layout; added cells take the next default symbol
+export function fitCells(cells: WorkspaceCell[], layout: WorkspaceLayout): WorkspaceCell[] {
+  const count = cellCount(layout);
+  const fitted = cells.slice(0, count);
+  for (let index = fitted.length; index < count; index++) {
+    fitted.push({ symbol: DEFAULT_SYMBOLS[index % DEFAULT_SYMBOLS.length], timeframe: '5m', linkGroup: null });
+  }
+  return fitted;
+}
+
+export function createWorkspace(name: string, layout: WorkspaceLayout = '2x2'): Workspace {
+  return { id: generateId(), name, layout, cells: fitCells([], layout), updatedAt: Date.now() };
+}
+
+// Shared links carry the whole workspace in the query string, e.g.
+// `?name=Opening+range&layout=1x2&cells=NIFTY:1m:A,BANKNIFTY:5m:A`, so they
+// open for anyone without access to the sender's preferences.
+export function encodeWorkspace(workspace: Workspace): URLSearchParams {
+  return new URLSearchParams({
+    name: workspace.name,
+    layout: workspace.layout,
+    cells: workspace.cells
+      .map(cell => [cell.symbol, cell.timeframe, cell.linkGroup].filter(Boolean).join(':'))
+      .join(','),
+  });
+}
+
+// The workspace in a shared link, or null when the query holds none. Opened
+// links get a fresh id, so saving one never overwrites a workspace of the same name.
+export function decodeWorkspace(params: URLSearchParams): Workspace | null {
+  const layout = params.get('layout');
+  const cells = params.get('cells');
+  if (!layout || !isLayout(layout) || !cells) return null;
+
+  const parsed = cells.split(',').flatMap((entry): WorkspaceCell[] => {
+    const [symbol, timeframe, linkGroup] = entry.split(':');
+    if (!symbol || !timeframe || !isTimeframe(timeframe)) return [];
+    const group = LINK_GROUP_IDS.find(id => id === linkGroup) ?? null;
+    return [{ symbol: symbol.toUpperCase(), timeframe, linkGroup: group }];
+  });
+
+  return {
+    id: generateId(),
+    name: params.get('name')?.trim() || 'Shared workspace',
+    layout,
+    cells: fitCells(parsed, layout),
+    updatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_WS_URL?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_CHART_TIMEOUT_MS?: string;
+  readonly VITE_REALTIME?: string;
+  readonly VITE_MOCK_BACKEND?: string;
+  readonly VITE_MOCK_SEED?: string;
+  readonly VITE_MOCK_CLOCK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -3,7 +3,8 @@ import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // Fast refresh needs the dev server's preamble, which tests never load
+  plugins: [react({ fastRefresh: !process.env.VITEST })],
   server: {
     port: 3000,
     allowedHosts: ['069cdd879110.ngrok-free.app'],
@@ -19,6 +20,11 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
       },
+      '/ws': {
+        target: 'ws://localhost:8000',
+        ws: true,
+        changeOrigin: true,
+      },
     },
   },
 }) 
\ No newline at end of file